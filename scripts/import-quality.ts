@@ -0,0 +1,38 @@
+import { FileQualityProvider, importSnowQuality } from '../src/services/snowQuality.js';
+
+/**
+ * Import snow quality ratings from a file
+ * bun run import-quality <ratings.json|ratings.csv> [--source <name>]
+ * JSON: [{ "resort": "Laax", "date": "2026-01-12", "powder": 8, "freestyle": 6 }]
+ * CSV:  resort,date,powder,freestyle (date defaults to today)
+ */
+async function importQuality() {
+  const args = process.argv.slice(2);
+  const path = args.find(arg => !arg.startsWith('--'));
+  const sourceIndex = args.indexOf('--source');
+
+  if (!path) {
+    console.error('Usage: bun run import-quality <ratings.json|ratings.csv> [--source <name>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const provider = new FileQualityProvider(path);
+    const source = (sourceIndex >= 0 && args[sourceIndex + 1]) || provider.name;
+    const summary = importSnowQuality(await provider.fetchRatings(), source);
+
+    console.log(`✅ Stored ${summary.stored} ratings from ${path} (source: ${source})`);
+    if (summary.unknownResorts.length > 0) {
+      console.log(`⚠️ Unknown resorts: ${summary.unknownResorts.join(', ')}`);
+    }
+    if (summary.invalid > 0) {
+      console.log(`⚠️ Skipped ${summary.invalid} rows without a valid 0-10 rating or date`);
+    }
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+importQuality();
@@ -0,0 +1,50 @@
+import { Database } from "bun:sqlite";
+import { MIGRATIONS, getPendingMigrations, getSchemaVersion, runMigrations } from '../src/database/migrations.js';
+
+/**
+ * Database migration CLI
+ * bun run migrate             apply pending migrations
+ * bun run migrate --dry-run   apply and roll back, to check what would change
+ * bun run migrate --status    show current version and pending migrations
+ * --db <path> picks another database file (default: DATABASE_PATH or iceking.db)
+ */
+function migrate() {
+  const args = process.argv.slice(2);
+  const dbIndex = args.indexOf('--db');
+  const path = (dbIndex >= 0 && args[dbIndex + 1]) || process.env.DATABASE_PATH || 'iceking.db';
+  const db = new Database(path);
+
+  const latest = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+  console.log(`🗄️ ${path}: schema version ${getSchemaVersion(db)} (latest ${latest})`);
+
+  if (args.includes('--status')) {
+    const pending = getPendingMigrations(db);
+    if (pending.length === 0) {
+      console.log('✅ Up to date');
+    } else {
+      pending.forEach(m => console.log(`   ⏳ ${m.version}: ${m.name}`));
+    }
+    db.close();
+    return;
+  }
+
+  try {
+    const result = runMigrations(db, { dryRun: args.includes('--dry-run') });
+
+    if (result.applied.length === 0) {
+      console.log('✅ Nothing to migrate');
+    } else if (result.dryRun) {
+      result.applied.forEach(m => console.log(`   🧪 ${m.version}: ${m.name}`));
+      console.log(`✅ Dry run: ${result.from} → ${result.to} would succeed (rolled back)`);
+    } else {
+      console.log(`✅ Migrated ${result.from} → ${result.to}`);
+    }
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+migrate();
@@ -0,0 +1,114 @@
+import type { AlertSender } from '../src/services/alerts.js';
+
+/**
+ * Tests for powder alerts with a fake sender (in-memory database, no network, no Telegram)
+ * Covers /subscribe parsing, thresholds, storm de-duplication, quiet hours and failed deliveries
+ * bun run test-alerts
+ */
+
+process.env.DATABASE_PATH = ':memory:';
+delete process.env.GOOGLE_MAPS_API_KEY;
+delete process.env.GOOGLE_API_KEY;
+
+const { AlertService, evaluateAlerts, parseSubscribeArgs } = await import('../src/services/alerts.js');
+const { DataStorageService } = await import('../src/services/dataStorage.js');
+const { findResortById } = await import('../src/services/resortMapping.js');
+const { atSwissTime } = await import('../src/utils/time.js');
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+/**
+ * Records every message instead of sending it; can be told to fail
+ */
+function createFakeSender(failing: boolean = false): AlertSender & { sent: Array<{ chatId: number; text: string }> } {
+  const sent: Array<{ chatId: number; text: string }> = [];
+  return {
+    sent,
+    async sendMessage(chatId: number, text: string): Promise<void> {
+      if (failing) throw new Error('Telegram is down');
+      sent.push({ chatId, text });
+    }
+  };
+}
+
+function counts(summary: Awaited<ReturnType<typeof evaluateAlerts>>) {
+  return { sent: summary.sent, duplicates: summary.duplicates, deferred: summary.deferred, failed: summary.failed };
+}
+
+function testSubscribeArgs() {
+  console.log('\n💬 /subscribe arguments');
+  check('thresholds and quiet hours', parseSubscribeArgs('70 15cm 22:00-7:00'), { quietStart: '22:00', quietEnd: '07:00', minScore: 70, minNewSnow: 15 });
+  check('quiet off', parseSubscribeArgs('quiet off'), { quietStart: null, quietEnd: null });
+  check('score is capped at 100', parseSubscribeArgs('150'), { minScore: 100 });
+  check('impossible quiet start is rejected', parseSubscribeArgs('25:99-07:00'), null);
+  check('impossible quiet end is rejected', parseSubscribeArgs('quiet 22:00-07:60'), null);
+  check('too many numbers', parseSubscribeArgs('70 15 3'), null);
+  check('words are rejected', parseSubscribeArgs('lots'), null);
+}
+
+async function testEvaluateAlerts() {
+  console.log('\n🔔 evaluateAlerts');
+  const engelberg = findResortById('engelberg-titlis')!;
+  DataStorageService.storeBergfexConditions([{
+    name: engelberg.bergfexName,
+    resortId: engelberg.internalId,
+    valleyDepth: 60,
+    mountainDepth: 180,
+    newSnow: 35,
+    liftsOpen: 20,
+    liftsTotal: 22,
+    lastUpdate: new Date(),
+    seasonStatus: 'OPEN',
+    detailUrl: null,
+    rawData: { rowHtml: '', parsedAt: new Date() }
+  }]);
+
+  const noon = atSwissTime(new Date(), 0, 12, 0);
+  const evening = atSwissTime(new Date(), 0, 20, 0);
+
+  AlertService.subscribe(1, { minScore: 10, minNewSnow: 20 });
+  AlertService.subscribe(2, { minScore: 10, minNewSnow: 20, quietStart: '11:00', quietEnd: '13:00' });
+  AlertService.subscribe(3, { minScore: 10, minNewSnow: 50 });
+
+  const sender = createFakeSender();
+  const first = await evaluateAlerts(sender, noon);
+  check('first run: one alert sent, one held back by quiet hours', counts(first), { sent: 1, duplicates: 0, deferred: 1, failed: 0 });
+  check('alert goes to the chat outside quiet hours', sender.sent.map(m => m.chatId), [1]);
+  check('alert names the resort', sender.sent[0]?.text.includes('POWDER ALERT') && sender.sent[0]?.text.includes(engelberg.resort.name), true);
+  check('new snow below the threshold sends nothing to chat 3', sender.sent.some(m => m.chatId === 3), false);
+
+  const again = await evaluateAlerts(sender, noon);
+  check('same storm is announced once', counts(again), { sent: 0, duplicates: 1, deferred: 1, failed: 0 });
+
+  const later = await evaluateAlerts(sender, evening);
+  check('held back alert goes out after quiet hours', counts(later), { sent: 1, duplicates: 1, deferred: 0, failed: 0 });
+  check('delivered to the quiet chat', sender.sent.map(m => m.chatId), [1, 2]);
+
+  AlertService.subscribe(4, { minScore: 10, minNewSnow: 20 });
+  const broken = await evaluateAlerts(createFakeSender(true), evening);
+  check('failed delivery is counted', counts(broken), { sent: 0, duplicates: 2, deferred: 0, failed: 1 });
+  const retry = await evaluateAlerts(sender, evening);
+  check('failed delivery is retried on the next run', [counts(retry).sent, sender.sent[sender.sent.length - 1]?.chatId], [1, 4]);
+
+  AlertService.unsubscribe(4);
+  check('unsubscribed chats are skipped', (await evaluateAlerts(sender, evening)).subscriptions, 3);
+}
+
+console.log('🧪 Testing powder alerts with a fake sender...');
+testSubscribeArgs();
+await testEvaluateAlerts();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,152 @@
+import { readFileSync } from 'node:fs';
+import {
+  parseBergfexConditionsPage,
+  parseBergfexMetadataPage,
+  parseBergfexResortPage,
+  type ConditionsTableLayout
+} from '../src/scrapers/bergfex.js';
+import { toSwissDateKey } from '../src/utils/time.js';
+
+/**
+ * Fixture tests for the bergfex parsers (no network)
+ * Runs against saved pages in scripts/fixtures/bergfex - add a fixture whenever bergfex changes
+ * bun run test-parser
+ */
+
+// Drift checks import the database - keep this script away from iceking.db
+process.env.DATABASE_PATH ??= ':memory:';
+const { compareLayouts } = await import('../src/services/scrapeDrift.js');
+
+const FIXTURES = 'scripts/fixtures/bergfex';
+let passed = 0;
+let failed = 0;
+
+function fixture(name: string): string {
+  return readFileSync(`${FIXTURES}/${name}`, 'utf-8');
+}
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+function testEnglishConditions() {
+  console.log('\n📄 schneewerte-en.html');
+  const { resorts, layout } = parseBergfexConditionsPage(fixture('schneewerte-en.html'));
+
+  check('finds every row', resorts.length, 5);
+  check('recognises all columns', layout.missingColumns, []);
+
+  const laax = resorts.find(r => r.name === 'Laax');
+  check('Laax depths', [laax?.valleyDepth, laax?.mountainDepth, laax?.newSnow], [45, 150, 20]);
+  check('Laax lifts', [laax?.liftsOpen, laax?.liftsTotal], [24, 28]);
+  check('Laax detail link', laax?.detailUrl, 'https://www.bergfex.com/laax/');
+  check('Laax is open', laax?.seasonStatus, 'OPEN');
+
+  const zermatt = resorts.find(r => r.name === 'Zermatt');
+  check('"-" is no value', zermatt?.newSnow, null);
+
+  const atzmaennig = resorts.find(r => r.name === 'Atzmännig');
+  check('closed resort', [atzmaennig?.mountainDepth, atzmaennig?.liftsOpen, atzmaennig?.seasonStatus], [null, 0, 'CLOSED']);
+  check('absolute report date (Swiss day)', atzmaennig?.lastUpdate && toSwissDateKey(atzmaennig.lastUpdate), '2025-02-11');
+  check('closed resorts are not empty rows', layout.emptyRows, 0);
+
+  const flumserberg = resorts.find(r => r.name === 'Flumserberg');
+  check('single lift is uncertain', flumserberg?.seasonStatus, null);
+}
+
+function testGermanConditions() {
+  console.log('\n📄 schneewerte-de.html (German, reordered columns, extra column, navigation table)');
+  const { resorts, layout } = parseBergfexConditionsPage(fixture('schneewerte-de.html'));
+
+  check('skips the navigation table', resorts.length, 2);
+  check('column positions by header', layout.columns, { newSnow: 3, valley: 2, mountain: 1, lifts: 5, date: 6, name: 0 });
+
+  const laax = resorts.find(r => r.name === 'Laax');
+  check('Laax depths (mountain before valley)', [laax?.valleyDepth, laax?.mountainDepth, laax?.newSnow], [45, 150, 20]);
+  check('Laax lifts after the ad column', [laax?.liftsOpen, laax?.liftsTotal], [24, 28]);
+
+  const hochYbrig = resorts.find(r => r.name === 'Hoch-Ybrig');
+  check('Hoch-Ybrig report date', hochYbrig?.lastUpdate && toSwissDateKey(hochYbrig.lastUpdate).slice(5), '11-04');
+  check('date without a year is never in the future', !!hochYbrig?.lastUpdate && hochYbrig.lastUpdate <= new Date(), true);
+}
+
+function testDriftedConditions() {
+  console.log('\n📄 schneewerte-drifted.html (renamed columns)');
+  const { resorts, layout } = parseBergfexConditionsPage(fixture('schneewerte-drifted.html'));
+
+  check('stores nothing', resorts.length, 0);
+  check('reports the missing columns', layout.missingColumns, ['valley', 'mountain', 'lifts', 'date']);
+
+  const previous = parseBergfexConditionsPage(fixture('schneewerte-en.html')).layout;
+  const drift = compareLayouts(layout, { headers: previous.headers, rowCount: previous.rowCount, emptyRows: previous.emptyRows });
+  check('drift is severe', drift.severe, true);
+  check('drift names the columns, the header change and the lost rows', drift.issues.map(issue => issue.split(/[:(]/)[0]!.trim()), [
+    'Snow table columns not recognised',
+    'Column headers changed',
+    'Row count dropped from 5 to 0'
+  ]);
+}
+
+function testLayoutComparison() {
+  console.log('\n🔍 Layout comparison');
+  const layout = (overrides: Partial<ConditionsTableLayout>): ConditionsTableLayout => ({
+    found: true,
+    headers: ['Resort', 'Valley', 'Mountain', 'New', 'Lifts', 'Date'],
+    columns: { name: 0, valley: 1, mountain: 2, newSnow: 3, lifts: 4, date: 5 },
+    missingColumns: [],
+    rowCount: 100,
+    emptyRows: 10,
+    ...overrides
+  });
+  const previous = { headers: ['Resort', 'Valley', 'Mountain', 'New', 'Lifts', 'Date'], rowCount: 100, emptyRows: 10 };
+
+  check('same layout is fine', compareLayouts(layout({}), previous), { severe: false, issues: [] });
+  check('first run is fine', compareLayouts(layout({}), null), { severe: false, issues: [] });
+  check('row drop is reported', compareLayouts(layout({ rowCount: 30, emptyRows: 3 }), previous).issues, ['Row count dropped from 100 to 30']);
+  check('sudden empty rows are severe', compareLayouts(layout({ emptyRows: 95 }), previous).severe, true);
+  check('empty off-season pages stay quiet', compareLayouts(layout({ emptyRows: 95 }), { ...previous, emptyRows: 90 }).severe, false);
+  check('no rows is severe', compareLayouts(layout({ rowCount: 0, emptyRows: 0 }), previous).severe, true);
+}
+
+function testMetadata() {
+  console.log('\n📄 schweiz.html');
+  const resorts = parseBergfexMetadataPage(fixture('schweiz.html'));
+
+  check('one entry per resort card', resorts.map(r => r.name), ['Laax', 'Zermatt', 'Atzmännig']);
+
+  const laax = resorts.find(r => r.name === 'Laax');
+  check('Laax elevation with thousands separator', laax?.elevation, 1100);
+  check('Laax values', [laax?.pistesKm, laax?.liftsTotal, laax?.snowDepth, laax?.price], [224, 28, 150, 'CHF 89,00']);
+
+  const atzmaennig = resorts.find(r => r.name === 'Atzmännig');
+  check('missing snow stays null', atzmaennig?.snowDepth, null);
+}
+
+function testResortPage() {
+  console.log('\n📄 resort-page-de.html');
+  const details = parseBergfexResortPage(fixture('resort-page-de.html'));
+
+  check('hours', [details.hoursWeekdays, details.hoursWeekends], ['09:00-16:00', '08:30-16:30']);
+  check('night riding', details.hoursNotes, 'Night riding 19:00-22:00');
+  check('season', [details.seasonStart, details.seasonEnd], ['2025-12-13', '2026-04-06']);
+  check('open today', details.todayStatus, 'OPEN');
+  check('coordinates', details.coordinates, { lat: 47.018, lng: 8.791 });
+}
+
+console.log('🧪 Testing bergfex parsers against fixtures...');
+testEnglishConditions();
+testGermanConditions();
+testDriftedConditions();
+testLayoutComparison();
+testMetadata();
+testResortPage();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
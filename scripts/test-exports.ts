@@ -0,0 +1,75 @@
+/**
+ * Tests for the calendar export with a fixed "now" (in-memory database, no network)
+ * Season dates come from the seed list and a stored resort page
+ * bun run test-exports
+ */
+
+process.env.DATABASE_PATH = ':memory:';
+
+const { buildCalendar, seasonEvents } = await import('../src/services/exporters.js');
+const { updateResortDetails } = await import('../src/services/resortMapping.js');
+const { zonedTimeToDate } = await import('../src/utils/time.js');
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+// Engelberg's page announced this season; the seed list still has last season's Hoch-Ybrig opening (2025-12-07)
+updateResortDetails('engelberg-titlis', {
+  hoursWeekdays: null,
+  hoursWeekends: null,
+  hoursNotes: null,
+  seasonStart: '2026-11-21',
+  seasonEnd: '2026-05-10',
+  todayStatus: null,
+  coordinates: null
+});
+
+function eventFor(events: ReturnType<typeof seasonEvents>, uidPrefix: string) {
+  const event = events.find(e => e.uid.startsWith(uidPrefix));
+  return event && { start: event.start, summary: event.summary, description: event.description ?? null };
+}
+
+function testBeforeTheSeason() {
+  console.log('\n📅 Autumn, before the season');
+  const events = seasonEvents(zonedTimeToDate(2026, 10, 18, 9, 0));
+
+  check('announced opening stays as it is', eventFor(events, 'season-open-engelberg-titlis'), {
+    start: '2026-11-21', summary: '🏔️ Engelberg Titlis opens', description: null
+  });
+  check('last season\'s opening moves to this season', eventFor(events, 'season-open-hoch-ybrig'), {
+    start: '2026-12-07',
+    summary: '🏔️ Hoch-Ybrig opens (expected)',
+    description: 'Not announced yet - last season\'s date was 07.12.2025'
+  });
+  check('a season end that has passed moves to next spring', eventFor(events, 'season-close-engelberg-titlis')?.start, '2027-05-10');
+  check('nothing in the past', events.every(e => typeof e.start === 'string' && e.start >= '2026-10-18'), true);
+
+  const calendar = buildCalendar(events, zonedTimeToDate(2026, 10, 18, 9, 0));
+  check('calendar has no last-season dates', calendar.includes('DTSTART;VALUE=DATE:20251207'), false);
+  check('calendar has the expected opening', calendar.includes('DTSTART;VALUE=DATE:20261207'), true);
+}
+
+function testDuringTheSeason() {
+  console.log('\n🏂 On the last day of the season');
+  const events = seasonEvents(zonedTimeToDate(2026, 5, 10, 9, 0));
+  check('today is not over yet', eventFor(events, 'season-close-engelberg-titlis')?.start, '2026-05-10');
+  check('openings ahead are kept', eventFor(events, 'season-open-engelberg-titlis')?.start, '2026-11-21');
+}
+
+console.log('🧪 Testing calendar export...');
+testBeforeTheSeason();
+testDuringTheSeason();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,177 @@
+import { Database } from "bun:sqlite";
+import { MIGRATIONS, runMigrations } from '../src/database/migrations.js';
+import { SEED_RESORTS } from '../src/data/seedResorts.js';
+import { calculateDistance } from '../src/utils/geo.js';
+
+/**
+ * Upgrade tests for the schema migrations (in-memory databases, no network)
+ * Each case builds a database the way an older version left it, then migrates it to the latest version
+ * bun run test-migrations
+ */
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+function columns(db: Database, table: string): string[] {
+  return (db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name);
+}
+
+function migrateUpTo(db: Database, version: number): void {
+  runMigrations(db, {}, MIGRATIONS.filter(m => m.version <= version));
+}
+
+function scoreRows(db: Database): Array<{ resort_id: string; profile: string; score: number }> {
+  return db.query(`SELECT resort_id, profile, score FROM scores ORDER BY resort_id, profile`).all() as Array<{ resort_id: string; profile: string; score: number }>;
+}
+
+const RIDING_STYLE_SCORES = `
+  CREATE TABLE scores (
+    resort_id TEXT NOT NULL,
+    riding_style TEXT NOT NULL DEFAULT '',
+    score REAL NOT NULL,
+    status TEXT NOT NULL,
+    reason TEXT,
+    breakdown TEXT,
+    calculated_at DATETIME NOT NULL,
+    PRIMARY KEY (resort_id, riding_style)
+  );
+`;
+
+function testScores() {
+  console.log('\n🏷️ scores keyed by scoring profile');
+
+  const fresh = new Database(':memory:');
+  runMigrations(fresh);
+  check('fresh database: profile key', columns(fresh, 'scores').slice(0, 2), ['resort_id', 'profile']);
+  fresh.close();
+
+  // Scores table from before versioning, keyed by riding style ('' = no style)
+  const unversioned = new Database(':memory:');
+  unversioned.exec(RIDING_STYLE_SCORES);
+  unversioned.exec(`
+    INSERT INTO scores VALUES ('laax', '', 70, 'OPEN', NULL, NULL, '2025-01-10T08:00:00Z');
+    INSERT INTO scores VALUES ('laax', 'park', 80, 'OPEN', NULL, NULL, '2025-01-10T08:00:00Z');
+  `);
+  runMigrations(unversioned);
+  check('riding style scores from before versioning: "" becomes default', scoreRows(unversioned), [
+    { resort_id: 'laax', profile: 'default', score: 70 },
+    { resort_id: 'laax', profile: 'park', score: 80 }
+  ]);
+  unversioned.close();
+
+  // Migration 7 renamed the column in place and kept '' rows; later code wrote 'default' next to them
+  const renamed = new Database(':memory:');
+  renamed.exec(RIDING_STYLE_SCORES);
+  renamed.exec(`INSERT INTO scores VALUES ('laax', '', 60, 'OPEN', NULL, NULL, '2025-01-10T08:00:00Z');`);
+  migrateUpTo(renamed, 14);
+  renamed.exec(`INSERT INTO scores VALUES ('laax', 'default', 75, 'OPEN', NULL, NULL, '2025-01-11T08:00:00Z');`);
+  runMigrations(renamed);
+  check('renamed in place: one default row, the newer score wins', scoreRows(renamed), [
+    { resort_id: 'laax', profile: 'default', score: 75 }
+  ]);
+  renamed.close();
+
+  // A revised migration 7 created the table with riding_style
+  const revised = new Database(':memory:');
+  migrateUpTo(revised, 14);
+  revised.exec(`DROP TABLE scores; ${RIDING_STYLE_SCORES}`);
+  revised.exec(`INSERT INTO scores VALUES ('davos', '', 55, 'OPEN', NULL, NULL, '2025-01-10T08:00:00Z');`);
+  runMigrations(revised);
+  check('riding_style kept by migration 7: renamed to profile', scoreRows(revised), [
+    { resort_id: 'davos', profile: 'default', score: 55 }
+  ]);
+  check('riding_style column is gone', columns(revised, 'scores').includes('riding_style'), false);
+  revised.close();
+}
+
+// The tables the baseline created before versioning
+const BASELINE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS drive_times (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    resort_id TEXT NOT NULL,
+    origin TEXT NOT NULL DEFAULT 'Hedingen',
+    drive_time_minutes INTEGER NOT NULL,
+    distance_km REAL NOT NULL,
+    cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(resort_id, origin)
+  );
+
+  CREATE TABLE IF NOT EXISTS resort_conditions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    resort_id TEXT NOT NULL,
+    mountain_depth INTEGER,
+    valley_depth INTEGER,
+    new_snow INTEGER,
+    lifts_open INTEGER,
+    lifts_total INTEGER,
+    last_update DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(resort_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_drive_times_resort_origin ON drive_times(resort_id, origin);
+  CREATE INDEX IF NOT EXISTS idx_conditions_resort ON resort_conditions(resort_id);
+`;
+
+const HEDINGEN = { lat: 47.2981, lng: 8.4483 };
+
+/**
+ * Distance the old offline fallback cached: straight line, rounded to 0.1 km
+ */
+function straightLineKm(resortId: string, from = HEDINGEN): number {
+  const { lat, lng } = SEED_RESORTS.find(seed => seed.internalId === resortId)!.resort.coordinates;
+  return Math.round(calculateDistance(from.lat, from.lng, lat, lng) * 10) / 10;
+}
+
+function driveTimeRows(db: Database): Array<{ resort_id: string; origin: string; source: string }> {
+  return db.query(`SELECT resort_id, origin, source FROM drive_times ORDER BY resort_id, origin`).all() as Array<{ resort_id: string; origin: string; source: string }>;
+}
+
+function testDriveTimes() {
+  console.log('\n🚗 cached drive times');
+
+  // Upgrading the baseline: origins and resorts are still empty while migrations run
+  const baseline = new Database(':memory:');
+  baseline.exec(BASELINE_SCHEMA);
+  baseline.query(`INSERT INTO drive_times (resort_id, origin, drive_time_minutes, distance_km) VALUES (?, 'Hedingen', 62, ?)`)
+    .run('engelberg-titlis', straightLineKm('engelberg-titlis'));
+  baseline.query(`INSERT INTO drive_times (resort_id, origin, drive_time_minutes, distance_km) VALUES (?, 'Hedingen', 191, ?)`)
+    .run('zermatt', 236.4);
+  runMigrations(baseline);
+  check('baseline: straight-line guess dropped, other rows re-queried as legacy', driveTimeRows(baseline), [
+    { resort_id: 'zermatt', origin: 'Hedingen', source: 'legacy' }
+  ]);
+  baseline.close();
+
+  // Migrations 14 and 16 already ran with empty tables and labelled the guesses google
+  const labelled = new Database(':memory:');
+  migrateUpTo(labelled, 16);
+  const insert = labelled.query(`INSERT INTO drive_times (resort_id, origin, drive_time_minutes, distance_km, source, route) VALUES (?, ?, ?, ?, ?, ?)`);
+  insert.run('engelberg-titlis', 'Hedingen', 62, straightLineKm('engelberg-titlis'), 'google', null);
+  insert.run('andermatt', 'loc:47.377,8.542', 95, straightLineKm('andermatt', { lat: 47.377, lng: 8.542 }), 'google', null);
+  insert.run('zermatt', 'Hedingen', 191, 236.4, 'google', 'A4 → A2 → A8 → Lötschberg → Zermatt');
+  insert.run('zermatt', 'Bern', 150, 142.8, 'road', 'A6 → Lötschberg → Zermatt');
+  runMigrations(labelled);
+  check('already migrated: guesses dropped (shared locations too), newer rows keep their source', driveTimeRows(labelled), [
+    { resort_id: 'zermatt', origin: 'Bern', source: 'road' },
+    { resort_id: 'zermatt', origin: 'Hedingen', source: 'google' }
+  ]);
+  labelled.close();
+}
+
+console.log('🧪 Testing schema migrations...');
+testScores();
+testDriveTimes();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,85 @@
+import type { ScrapedResortData } from '../src/scrapers/bergfex.js';
+
+/**
+ * Tests for the rule-based intent parser (in-memory database, no network)
+ * Covers the plain text examples: "powder within 90 min tomorrow", "is Laax open?", "park near Lucerne"
+ * bun run test-query
+ */
+
+process.env.DATABASE_PATH = ':memory:';
+delete process.env.INTENT_LLM_URL;
+
+const { RuleBasedIntentParser, findResortInText } = await import('../src/services/queryParser.js');
+const { DataStorageService } = await import('../src/services/dataStorage.js');
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+function scraped(name: string, resortId: string): ScrapedResortData {
+  return {
+    name,
+    resortId,
+    valleyDepth: 40,
+    mountainDepth: 120,
+    newSnow: 10,
+    liftsOpen: 12,
+    liftsTotal: 20,
+    lastUpdate: new Date(),
+    seasonStatus: 'OPEN',
+    detailUrl: null,
+    rawData: { rowHtml: '', parsedAt: new Date() }
+  };
+}
+
+// A resort bergfex reports that has no catalogue entry
+DataStorageService.storeBergfexConditions([scraped('Flims Laax Falera', 'flims-laax-falera')]);
+
+const parser = new RuleBasedIntentParser();
+
+async function testExamples() {
+  console.log('\n💬 Examples from the request');
+  const powder = await parser.parse('powder within 90 min tomorrow');
+  check('"powder within 90 min tomorrow"', powder, {
+    type: 'recommendations',
+    options: { maxDriveTime: 90, profile: 'powder' },
+    day: 'tomorrow'
+  });
+
+  check('"is Laax open?" (scraped only, by a part of its name)', await parser.parse('is Laax open?'), {
+    type: 'resort', resortId: 'flims-laax-falera', question: 'open'
+  });
+
+  const park = await parser.parse('park near Lucerne');
+  check('"park near Lucerne"', park.type === 'recommendations' && [park.options.profile, park.options.origin?.name, park.day], ['park', 'Luzern', 'today']);
+}
+
+async function testResortNames() {
+  console.log('\n🏔️ Resort names');
+  check('"tell me about davos" (generic part: highest priority Davos resort)', await parser.parse('tell me about davos'), {
+    type: 'resort', resortId: 'davos-parsenn', question: 'details'
+  });
+  check('a generic part loses to any other match', findResortInText('davos or laax'), 'flims-laax-falera');
+  check('distinctive part of a catalogue name', findResortInText('how is rinerhorn'), 'davos-rinerhorn');
+  check('catalogue alias', findResortInText('is flumsi running'), 'flumserberg');
+  check('longest match wins', findResortInText('davos klosters today'), 'davos-parsenn');
+  check('closed resorts', await parser.parse('which resorts are closed'), { type: 'closed' });
+  check('small talk', await parser.parse('thanks!'), { type: 'unknown' });
+}
+
+console.log('🧪 Testing the intent parser...');
+await testExamples();
+await testResortNames();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
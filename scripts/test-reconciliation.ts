@@ -0,0 +1,184 @@
+import { readFileSync } from 'node:fs';
+import { parseBergfexConditionsPage, type ScrapedResortData } from '../src/scrapers/bergfex.js';
+import { parseMySwitzerlandSnowReport } from '../src/scrapers/myswitzerland.js';
+import { reconcileConditions, formatDisagreement } from '../src/services/reconciliation.js';
+import { formatSwissClock, toSwissDateKey, zonedTimeToDate } from '../src/utils/time.js';
+import type { ConditionsSource, PrimaryConditionsSource } from '../src/scrapers/sources.js';
+
+/**
+ * Fixture tests for the second snow report source and cross-source reconciliation (no network)
+ * Runs against saved pages in scripts/fixtures - bergfex is the primary source, MySwitzerland the cross-check
+ * bun run test-reconcile
+ */
+
+// The scrape job records the bergfex table layout - keep that in memory
+process.env.DATABASE_PATH = ':memory:';
+
+let passed = 0;
+let failed = 0;
+
+function fixture(path: string): string {
+  return readFileSync(`scripts/fixtures/${path}`, 'utf-8');
+}
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+function record(name: string, values: Partial<ScrapedResortData>): ScrapedResortData {
+  return {
+    name,
+    resortId: name.toLowerCase(),
+    valleyDepth: null,
+    mountainDepth: null,
+    newSnow: null,
+    liftsOpen: null,
+    liftsTotal: null,
+    lastUpdate: null,
+    seasonStatus: null,
+    detailUrl: null,
+    rawData: { rowHtml: '', parsedAt: new Date() },
+    ...values
+  };
+}
+
+function testMySwitzerlandParser() {
+  console.log('\n📄 myswitzerland/snow-report.html');
+  const resorts = parseMySwitzerlandSnowReport(fixture('myswitzerland/snow-report.html'));
+
+  check('one record per resort card (nested cards, navigation skipped)', resorts.map(r => r.name), [
+    'Flims Laax Falera', 'Zermatt Matterhorn', 'Engelberg', 'Atzmännig', 'Arosa Lenzerheide'
+  ]);
+
+  const laax = resorts.find(r => r.name === 'Flims Laax Falera');
+  check('Laax depths', [laax?.valleyDepth, laax?.mountainDepth, laax?.newSnow], [40, 155, 45]);
+  check('Laax lifts "24 of 28"', [laax?.liftsOpen, laax?.liftsTotal], [24, 28]);
+  check('report date and time (Swiss local)', laax?.lastUpdate && `${toSwissDateKey(laax.lastUpdate)} ${formatSwissClock(laax.lastUpdate)}`, '2025-11-03 07:30');
+
+  const engelberg = resorts.find(r => r.name === 'Engelberg');
+  check('German labels', [engelberg?.mountainDepth, engelberg?.valleyDepth, engelberg?.liftsOpen, engelberg?.liftsTotal], [125, 20, 15, 25]);
+
+  const atzmaennig = resorts.find(r => r.name === 'Atzmännig');
+  check('"–" is no value', [atzmaennig?.valleyDepth, atzmaennig?.newSnow], [null, null]);
+  check('closed resort', atzmaennig?.seasonStatus, 'CLOSED');
+}
+
+function testFixtureReconciliation() {
+  console.log('\n🔗 bergfex + MySwitzerland fixtures');
+  const bergfex = parseBergfexConditionsPage(fixture('bergfex/schneewerte-en.html')).resorts;
+  const mySwitzerland = parseMySwitzerlandSnowReport(fixture('myswitzerland/snow-report.html'));
+  const result = reconcileConditions([
+    { source: 'bergfex', records: bergfex },
+    { source: 'myswitzerland', records: mySwitzerland }
+  ]);
+
+  check('bergfex decides the resort list', result.resorts.map(r => r.name), bergfex.map(r => r.name));
+  check('matches by name containment', result.matched, { myswitzerland: 4 });
+  check('unknown resorts are reported, not added', result.unmatched, { myswitzerland: ['Arosa Lenzerheide'] });
+
+  const laax = result.resorts.find(r => r.name === 'Laax');
+  check('Laax keeps the fresher bergfex depths', [laax?.mountainDepth, laax?.valleyDepth], [150, 45]);
+  check('Laax new snow: lower figure on disagreement', laax?.newSnow, 20);
+  check('Laax new snow disagreement', laax?.disagreements.map(formatDisagreement), [
+    'new snow: bergfex 20cm vs myswitzerland 45cm (using bergfex)'
+  ]);
+
+  const zermatt = result.resorts.find(r => r.name === 'Zermatt');
+  check('Zermatt mountain depth disagreement', zermatt?.disagreements.map(d => [d.field, d.values, d.used]), [
+    ['mountainDepth', { bergfex: 210, myswitzerland: 140 }, 'bergfex']
+  ]);
+  check('missing bergfex value filled from the other source', [zermatt?.newSnow, zermatt?.provenance.newSnow], [0, 'myswitzerland']);
+
+  const engelberg = result.resorts.find(r => r.name === 'Engelberg Titlis');
+  check('small differences are not flagged', engelberg?.disagreements, []);
+
+  const atzmaennig = result.resorts.find(r => r.name === 'Atzmännig');
+  check('Atzmännig per-field provenance', atzmaennig?.provenance, {
+    mountainDepth: 'myswitzerland',
+    liftsOpen: 'bergfex',
+    liftsTotal: 'bergfex'
+  });
+  check('Atzmännig keeps the bergfex page link', atzmaennig?.detailUrl, 'https://www.bergfex.com/atzmaennig/');
+}
+
+function testFreshness() {
+  console.log('\n🕐 Freshness and source order');
+  const older = zonedTimeToDate(2026, 1, 10, 16, 0);
+  const newer = zonedTimeToDate(2026, 1, 11, 7, 30);
+
+  const fresherSecondary = reconcileConditions([
+    { source: 'bergfex', records: [record('Laax', { mountainDepth: 150, liftsOpen: 10, liftsTotal: 28, lastUpdate: older })] },
+    { source: 'myswitzerland', records: [record('Laax', { mountainDepth: 140, liftsOpen: 24, liftsTotal: 29, lastUpdate: newer })] }
+  ]).resorts[0];
+  check('later report day wins', [fresherSecondary?.mountainDepth, fresherSecondary?.provenance.mountainDepth], [140, 'myswitzerland']);
+  check('lifts open and total come from the same report', [fresherSecondary?.liftsOpen, fresherSecondary?.liftsTotal], [24, 29]);
+  check('lift disagreement is flagged', fresherSecondary?.disagreements.map(d => d.field), ['liftsOpen']);
+  check('newest report time is kept', fresherSecondary?.lastUpdate?.getTime(), newer.getTime());
+
+  const sameDay = reconcileConditions([
+    { source: 'bergfex', records: [record('Laax', { mountainDepth: 150, lastUpdate: zonedTimeToDate(2026, 1, 11, 7, 0) })] },
+    { source: 'myswitzerland', records: [record('Laax', { mountainDepth: 140, lastUpdate: newer })] }
+  ]).resorts[0];
+  check('same day falls back to source order', sameDay?.provenance.mountainDepth, 'bergfex');
+
+  const primaryOnly = reconcileConditions([{ source: 'bergfex', records: [record('Laax', { newSnow: 30 })] }]).resorts[0];
+  check('single source still records provenance', primaryOnly?.provenance, { newSnow: 'bergfex' });
+
+  const collision = reconcileConditions([
+    { source: 'bergfex', records: [record('Laax', { newSnow: 30 })] },
+    { source: 'myswitzerland', records: [record('Laax', { newSnow: 28 }), record('Flims Laax Falera', { newSnow: 5 })] }
+  ]);
+  check('second match for the same resort is ignored', [collision.resorts[0]?.newSnow, collision.unmatched], [30, { myswitzerland: ['Flims Laax Falera'] }]);
+}
+
+async function testScrapeConditions() {
+  console.log('\n🧰 Scrape job with fixture sources');
+  const { setPrimarySource, setSecondarySources } = await import('../src/scrapers/sources.js');
+  const { scrapeConditions } = await import('../src/services/scrapeJob.js');
+
+  const bergfex: PrimaryConditionsSource = {
+    name: 'bergfex',
+    fetchConditions: async () => parseBergfexConditionsPage(fixture('bergfex/schneewerte-en.html')).resorts,
+    fetchConditionsPage: async () => parseBergfexConditionsPage(fixture('bergfex/schneewerte-en.html'))
+  };
+  const mySwitzerland: ConditionsSource = {
+    name: 'myswitzerland',
+    fetchConditions: async () => parseMySwitzerlandSnowReport(fixture('myswitzerland/snow-report.html'))
+  };
+  const offline: ConditionsSource = {
+    name: 'offline',
+    fetchConditions: async () => { throw new Error('connection refused'); }
+  };
+
+  setPrimarySource(bergfex);
+  setSecondarySources([offline, mySwitzerland]);
+  const resorts = await scrapeConditions();
+  check('primary source decides the resort list', resorts.map(r => r.name), (await bergfex.fetchConditions()).map(r => r.name));
+  check('a failing source is skipped, the others still cross-check', resorts.find(r => r.name === 'Laax')?.disagreements.map(formatDisagreement), [
+    'new snow: bergfex 20cm vs myswitzerland 45cm (using bergfex)'
+  ]);
+
+  setSecondarySources([]);
+  const primaryOnly = await scrapeConditions();
+  check('no cross-check sources: primary values only', primaryOnly.find(r => r.name === 'Zermatt')?.provenance.newSnow, undefined);
+
+  setPrimarySource({ ...bergfex, fetchConditionsPage: async () => ({ ...(await bergfex.fetchConditionsPage()), resorts: [] }) });
+  const empty = await scrapeConditions().then(() => 'stored', (error: Error) => error.message);
+  check('empty primary source fails the scrape', empty, 'bergfex returned no snow conditions');
+}
+
+console.log('🧪 Testing cross-source reconciliation against fixtures...');
+testMySwitzerlandParser();
+testFixtureReconciliation();
+testFreshness();
+await testScrapeConditions();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,77 @@
+/**
+ * Tests for the conditions history queries and the /trend message (in-memory database, no network)
+ * bun run test-trends
+ */
+
+process.env.DATABASE_PATH = ':memory:';
+
+const { historyStatements, snapshotStatements } = await import('../src/database/index.js');
+const { DataStorageService } = await import('../src/services/dataStorage.js');
+const { getResortTrend, formatTrend } = await import('../src/services/trends.js');
+const { toSwissDateKey } = await import('../src/utils/time.js');
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}\n   expected: ${JSON.stringify(expected)}\n   actual:   ${JSON.stringify(actual)}`);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const RESORT = 'engelberg-titlis';
+
+function hoursAgo(hours: number): string {
+  return new Date(Date.now() - hours * HOUR).toISOString();
+}
+
+/**
+ * One scrape: depth, new snow and lifts open of a bergfex report
+ */
+function recordScrape(recordedHoursAgo: number, reportedHoursAgo: number, depth: number, newSnow: number, liftsOpen: number) {
+  historyStatements.insert.run(RESORT, depth, 20, newSnow, liftsOpen, 25, hoursAgo(reportedHoursAgo), hoursAgo(recordedHoursAgo));
+}
+
+// Eight days of a storm coming in - the same report scraped twice counts once
+recordScrape(8 * 24, 8 * 24, 50, 0, 4);
+recordScrape(5 * 24, 5 * 24, 100, 0, 10);
+recordScrape(48, 48, 120, 20, 14);
+recordScrape(24, 25, 130, 15, 18);
+recordScrape(20, 25, 130, 15, 18);
+snapshotStatements.upsert.run(RESORT, toSwissDateKey(new Date()), 130, 20, 15, 18, 25, new Date().toISOString());
+
+function testHistoryQueries() {
+  console.log('\n📚 Conditions history');
+  check('depth over the last 7 days (oldest first)', DataStorageService.getDepthHistory(RESORT, 7).map(p => p.mountainDepth), [100, 120, 130, 130]);
+  check('new snow over 72h, repeated reports once', DataStorageService.getNewSnowSum(RESORT, 72), 35);
+  check('new snow over 24h', DataStorageService.getNewSnowSum(RESORT, 24), 0);
+
+  const lifts = DataStorageService.getLiftsOpenTrend(RESORT, 7);
+  check('lifts open readings', lifts.points.map(p => p.liftsOpen), [10, 14, 18, 18]);
+  check('lifts open change', lifts.change, 8);
+  check('no history, no change', DataStorageService.getLiftsOpenTrend('zermatt', 7).change, null);
+}
+
+function testTrendMessage() {
+  console.log('\n📈 /trend');
+  const trend = getResortTrend(RESORT, 'Engelberg Titlis');
+  check('totals from the history', [trend.depthChange, trend.newSnow72h, trend.liftsChange], [30, 35, 8]);
+
+  const lines = formatTrend(trend).split('\n');
+  check('depth line', lines[2]?.endsWith('Depth 130cm (+30cm)'), true);
+  check('new snow line', lines[3]?.endsWith('New snow Σ 15cm, 35cm in 72h'), true);
+  check('lifts line', lines[4]?.endsWith('Lifts 18/25 open (+8)'), true);
+}
+
+console.log('🧪 Testing conditions history and trends...');
+testHistoryQueries();
+testTrendMessage();
+
+console.log(`\n${failed === 0 ? '🎉' : '💥'} ${passed} passed, ${failed} failed`);
+if (failed > 0) process.exit(1);
@@ -0,0 +1,285 @@
+#!/usr/bin/env bun
+import type { Origin } from './types/index.js';
+
+/**
+ * iceking CLI - the bot's services from the terminal, cron and scripts (no Telegram token needed)
+ * bun run cli <command> [options], or `iceking <command>` after `bun link`
+ * Results go to stdout (text, or JSON with --json); service logs are hidden unless --verbose, then go to stderr
+ * Services are imported per command, so `db migrate --status` reads the database before anything migrates it
+ */
+
+const USAGE = `Usage: iceking <command> [options]
+
+Commands:
+  recs                  Top recommendations
+  resort <name>         Conditions, score breakdown and drive for one resort
+  closed                Resorts closed for the season
+  scrape                Scrape bergfex (and cross-check sources) now
+  stats                 Database statistics
+  cache clear           Drop cached drive times (recalculated on the next request)
+  db migrate            Apply pending migrations (--dry-run, --status)
+  export [dataset]      conditions, history [resort], recs [day] or calendar [day] as CSV/JSON/iCal
+
+Options:
+  --json                Machine-readable output
+  --origin <place>      Drive origin: a named origin (Bern, Basel, ...) or "lat,lng" (default Hedingen)
+  --max-drive <min>     Maximum drive time in minutes (default 180)
+  --profile <name>      Scoring profile (default, park, powder, beginner, cruiser)
+  --limit <n>           Number of recommendations (default 5)
+  --min-score <n>       Minimum score (default 10)
+  --include-closed      Also list resorts that are closed today
+  --format <format>     Export format: csv (default), json, or ical for the calendar
+  --days <n>            History export: how many days back (default 30)
+  --db <path>           Database file (default DATABASE_PATH or iceking.db)
+  --verbose             Show service logs on stderr
+  --help                Show this help`;
+
+const VALUE_FLAGS = ['origin', 'max-drive', 'profile', 'limit', 'min-score', 'db', 'format', 'days'];
+const BOOLEAN_FLAGS = ['json', 'include-closed', 'verbose', 'help', 'dry-run', 'status'];
+
+interface CliArgs {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { positional: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith('--')) {
+      args.positional.push(arg);
+      continue;
+    }
+
+    const [name = '', inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (BOOLEAN_FLAGS.includes(name) && inlineValue === undefined) {
+      args.flags[name] = true;
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value === '') throw new UsageError(`--${name} needs a value`);
+      args.flags[name] = value;
+    } else {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+  }
+
+  return args;
+}
+
+function stringFlag(args: CliArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberFlag(args: CliArgs, name: string): number | undefined {
+  const raw = stringFlag(args, name);
+  if (raw === undefined) return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) throw new UsageError(`--${name} must be a non-negative number`);
+  return value;
+}
+
+function print(args: CliArgs, data: unknown, text: () => string): void {
+  process.stdout.write(args.flags.json ? `${JSON.stringify(data, null, 2)}\n` : `${text()}\n`);
+}
+
+/**
+ * --origin "Bern" or "47.05,8.31"
+ */
+async function resolveOrigin(args: CliArgs): Promise<Origin | undefined> {
+  const query = stringFlag(args, 'origin');
+  if (!query) return undefined;
+
+  const { findOrigin, createLocationOrigin } = await import('./services/origins.js');
+  const coordinates = query.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  const origin = coordinates ? createLocationOrigin(Number(coordinates[1]), Number(coordinates[2])) : findOrigin(query);
+  if (!origin) throw new UsageError(`Unknown origin "${query}" - use a named origin or "lat,lng"`);
+  return origin;
+}
+
+async function resolveProfile(args: CliArgs): Promise<string | undefined> {
+  const profile = stringFlag(args, 'profile');
+  if (!profile) return undefined;
+
+  const { isScoringProfile } = await import('./services/scoringProfiles.js');
+  if (!isScoringProfile(profile)) throw new UsageError(`Unknown scoring profile "${profile}"`);
+  return profile.toLowerCase();
+}
+
+async function recsCommand(args: CliArgs): Promise<void> {
+  const { getRecommendations, formatRecommendations } = await import('./services/recommendations.js');
+  const result = await getRecommendations({
+    maxDriveTime: numberFlag(args, 'max-drive'),
+    minScore: numberFlag(args, 'min-score'),
+    limit: numberFlag(args, 'limit'),
+    includeClosed: args.flags['include-closed'] === true,
+    origin: await resolveOrigin(args),
+    profile: await resolveProfile(args)
+  });
+  print(args, result, () => formatRecommendations(result));
+}
+
+async function resortCommand(args: CliArgs): Promise<void> {
+  const query = args.positional.slice(1).join(' ');
+  if (!query) throw new UsageError('Usage: iceking resort <name>');
+
+  const { findResort } = await import('./services/resortMapping.js');
+  const { getResortDetails, formatResortDetails } = await import('./services/recommendations.js');
+  const { DEFAULT_ORIGIN } = await import('./services/origins.js');
+
+  const resort = findResort(query);
+  if (!resort) throw new Error(`No resort found for "${query}"`);
+
+  const origin = (await resolveOrigin(args)) || DEFAULT_ORIGIN;
+  const details = await getResortDetails(resort.internalId, origin, await resolveProfile(args));
+  if (!details) throw new Error(`Couldn't load ${resort.resort.name}`);
+  print(args, details, () => formatResortDetails(details, origin));
+}
+
+async function closedCommand(args: CliArgs): Promise<void> {
+  const { getClosedResorts, formatClosedResorts } = await import('./services/recommendations.js');
+  const closed = await getClosedResorts(await resolveOrigin(args));
+  print(args, closed, () => closed.length > 0 ? formatClosedResorts(closed) : '✅ All tracked resorts are currently open!');
+}
+
+async function scrapeCommand(args: CliArgs): Promise<void> {
+  const { runFullScrape } = await import('./services/scrapeJob.js');
+  const summary = await runFullScrape();
+  print(args, summary, () =>
+    `✅ Scrape finished: ${summary.conditions} conditions, ${summary.metadata} metadata entries, ` +
+    `${summary.resortPages} resort pages, ${summary.geocoded} newly located resorts, ` +
+    `${summary.snowQuality} snow quality ratings, ${summary.forecasts} forecasts`
+  );
+}
+
+async function statsCommand(args: CliArgs): Promise<void> {
+  const { DataStorageService } = await import('./services/dataStorage.js');
+  const stats = DataStorageService.getStats();
+  print(args, stats, () => [
+    `🏂 Resorts tracked: ${stats.resorts}${stats.unlocated > 0 ? ` (${stats.unlocated} without location)` : ''}`,
+    `❄️ Snow conditions: ${stats.conditions}`,
+    `🗂️ History entries: ${stats.history}`,
+    `🚗 Drive times cached: ${stats.driveTimes}`,
+    `📈 Scores calculated: ${stats.scores}`
+  ].join('\n'));
+}
+
+async function cacheCommand(args: CliArgs): Promise<void> {
+  if (args.positional[1] !== 'clear') throw new UsageError('Usage: iceking cache clear');
+
+  const { DataStorageService } = await import('./services/dataStorage.js');
+  const before = DataStorageService.getStats().driveTimes;
+  DataStorageService.clearDriveTimes();
+  const cleared = before - DataStorageService.getStats().driveTimes;
+  print(args, { cleared }, () => `🧹 Cleared ${cleared} cached drive times`);
+}
+
+async function dbCommand(args: CliArgs): Promise<void> {
+  if (args.positional[1] !== 'migrate') throw new UsageError('Usage: iceking db migrate [--dry-run] [--status]');
+
+  const { Database } = await import('bun:sqlite');
+  const { MIGRATIONS, getPendingMigrations, getSchemaVersion, runMigrations } = await import('./database/migrations.js');
+  const path = process.env.DATABASE_PATH || 'iceking.db';
+  const db = new Database(path);
+
+  try {
+    const latest = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+    if (args.flags.status) {
+      const version = getSchemaVersion(db);
+      const pending = getPendingMigrations(db).map(m => ({ version: m.version, name: m.name }));
+      print(args, { path, version, latest, pending }, () =>
+        `🗄️ ${path}: schema version ${version} (latest ${latest})\n` +
+        (pending.length === 0 ? '✅ Up to date' : pending.map(m => `   ⏳ ${m.version}: ${m.name}`).join('\n'))
+      );
+      return;
+    }
+
+    const result = runMigrations(db, { dryRun: args.flags['dry-run'] === true });
+    const applied = result.applied.map(m => ({ version: m.version, name: m.name }));
+    print(args, { path, from: result.from, to: result.to, dryRun: result.dryRun, applied }, () => {
+      if (applied.length === 0) return `✅ ${path} is at version ${result.from}, nothing to migrate`;
+      return result.dryRun
+        ? `✅ Dry run: ${result.from} → ${result.to} would succeed (rolled back)`
+        : `✅ Migrated ${path} ${result.from} → ${result.to}`;
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function exportCommand(args: CliArgs): Promise<void> {
+  const { buildExport, parseExportArgs } = await import('./services/exporters.js');
+  const request = parseExportArgs(args.positional.slice(1).join(' '));
+  if ('error' in request) throw new UsageError(request.error);
+
+  const format = stringFlag(args, 'format') || (args.flags.json ? 'json' : undefined);
+  if (format && !['csv', 'json', 'ical'].includes(format)) throw new UsageError('--format must be csv, json or ical');
+  if (format) request.format = format as typeof request.format;
+
+  const days = numberFlag(args, 'days');
+  if (days !== undefined) request.days = days;
+
+  request.options = {
+    maxDriveTime: numberFlag(args, 'max-drive'),
+    minScore: numberFlag(args, 'min-score'),
+    limit: numberFlag(args, 'limit'),
+    includeClosed: args.flags['include-closed'] === true,
+    origin: await resolveOrigin(args),
+    profile: await resolveProfile(args)
+  };
+
+  const file = await buildExport(request);
+  process.stdout.write(file.content);
+  console.error(`📤 ${file.filename}: ${file.count} ${request.dataset === 'calendar' ? 'events' : 'rows'}`);
+}
+
+const COMMANDS: Record<string, (args: CliArgs) => Promise<void>> = {
+  recs: recsCommand,
+  resort: resortCommand,
+  closed: closedCommand,
+  scrape: scrapeCommand,
+  stats: statsCommand,
+  cache: cacheCommand,
+  db: dbCommand,
+  export: exportCommand
+};
+
+async function main(): Promise<void> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const command = COMMANDS[args.positional[0] || ''];
+  if (args.flags.help || !command) {
+    if (args.positional[0] && args.positional[0] !== 'help' && !args.flags.help) {
+      console.error(`❌ Unknown command "${args.positional[0]}"\n`);
+      process.exitCode = 2;
+    }
+    console.error(USAGE);
+    return;
+  }
+
+  const db = stringFlag(args, 'db');
+  if (db) process.env.DATABASE_PATH = db;
+
+  // Keep stdout for results so it can be piped; service progress logs are noise here
+  console.log = args.flags.verbose ? console.error : () => {};
+
+  try {
+    await command(args);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exitCode = error instanceof UsageError ? 2 : 1;
+  }
+}
+
+await main();
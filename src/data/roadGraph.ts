@@ -0,0 +1,409 @@
+/**
+ * Simplified Swiss road network for offline drive times (winter routing)
+ * Nodes are motorway junctions, valley towns and the villages at the end of ski valleys;
+ * edges are roads as driven in winter - passes that close for the season (Furka, Grimsel,
+ * Susten, Oberalp, Klausen, Albula, Gotthard pass...) are left out, their car trains are in
+ * Edges work both ways. Without `km` the length is the straight line times a detour factor per kind
+ */
+
+export interface RoadNode {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export type RoadKind = 'motorway' | 'expressway' | 'main' | 'mountain' | 'pass' | 'carTrain' | 'shuttle';
+
+export interface RoadEdge {
+  from: string;
+  to: string;
+  kind: RoadKind;
+  road?: string;    // shown in route descriptions ("A2", "Lötschberg car train"); unnamed local roads are skipped
+  km?: number;      // road length when the straight line is far off (serpentines, valleys)
+  minutes?: number; // fixed time for car trains and shuttles, including loading and waiting
+}
+
+// Average winter speeds including traffic, junctions and villages
+export const ROAD_SPEEDS_KMH: Record<Exclude<RoadKind, 'carTrain' | 'shuttle'>, number> = {
+  motorway: 100,
+  expressway: 80,
+  main: 60,
+  mountain: 40,
+  pass: 35
+};
+
+// Road length / straight line, when an edge has no explicit km
+export const DETOUR_FACTORS: Record<RoadKind, number> = {
+  motorway: 1.1,
+  expressway: 1.2,
+  main: 1.25,
+  mountain: 1.5,
+  pass: 1.5,
+  carTrain: 1,
+  shuttle: 1
+};
+
+const node = (id: string, name: string, lat: number, lng: number): RoadNode => ({ id, name, lat, lng });
+
+export const ROAD_NODES: RoadNode[] = [
+  // Plateau and motorway junctions
+  node('basel', 'Basel', 47.547, 7.600),
+  node('augst', 'Augst', 47.530, 7.720),
+  node('brugg', 'Brugg', 47.480, 8.200),
+  node('limmattal', 'Limmattal', 47.410, 8.400),
+  node('zurich', 'Zürich', 47.360, 8.520),
+  node('winterthur', 'Winterthur', 47.500, 8.720),
+  node('wil', 'Wil', 47.461, 9.045),
+  node('stgallen', 'St. Gallen', 47.424, 9.377),
+  node('stmargrethen', 'St. Margrethen', 47.452, 9.637),
+  node('aarau', 'Aarau', 47.392, 8.044),
+  node('haerkingen', 'Härkingen', 47.305, 7.820),
+  node('bern', 'Bern', 46.948, 7.447),
+  node('fribourg', 'Fribourg', 46.806, 7.161),
+  node('bulle', 'Bulle', 46.619, 7.057),
+  node('chateldenis', 'Châtel-St-Denis', 46.527, 6.900),
+  node('lausanne', 'Lausanne', 46.520, 6.633),
+  node('vevey', 'Vevey', 46.463, 6.843),
+  node('sursee', 'Sursee', 47.171, 8.107),
+  node('luzern', 'Luzern', 47.050, 8.310),
+  node('affoltern', 'Affoltern am Albis', 47.277, 8.450),
+  node('rotkreuz', 'Rotkreuz', 47.150, 8.430),
+  node('zug', 'Zug', 47.166, 8.516),
+  node('arth', 'Arth-Goldau', 47.050, 8.550),
+  node('pfaeffikon', 'Pfäffikon SZ', 47.201, 8.778),
+  node('rapperswil', 'Rapperswil', 47.227, 8.818),
+  node('niederurnen', 'Niederurnen', 47.127, 9.054),
+  node('flums', 'Flums', 47.093, 9.343),
+  node('sargans', 'Sargans', 47.048, 9.440),
+  node('buchs', 'Buchs SG', 47.167, 9.478),
+
+  // Central Switzerland and Gotthard
+  node('schwyz', 'Schwyz', 47.020, 8.650),
+  node('stoos', 'Stoos (Schlattli)', 46.998, 8.664),
+  node('sattel', 'Sattel', 47.080, 8.636),
+  node('biberbrugg', 'Biberbrugg', 47.155, 8.720),
+  node('einsiedeln', 'Einsiedeln', 47.128, 8.748),
+  node('hochybrig', 'Hoch-Ybrig (Weglosen)', 47.020, 8.800),
+  node('stans', 'Stans', 46.958, 8.366),
+  node('engelberg', 'Engelberg', 46.820, 8.404),
+  node('sarnen', 'Sarnen', 46.896, 8.246),
+  node('stoeckalp', 'Stöckalp', 46.830, 8.280),
+  node('schuepfheim', 'Schüpfheim', 46.952, 8.017),
+  node('soerenberg', 'Sörenberg', 46.823, 8.036),
+  node('altdorf', 'Altdorf', 46.880, 8.640),
+  node('goeschenen', 'Göschenen', 46.667, 8.587),
+  node('andermatt', 'Andermatt', 46.636, 8.594),
+  node('realp', 'Realp', 46.598, 8.503),
+  node('airolo', 'Airolo', 46.528, 8.610),
+  node('biasca', 'Biasca', 46.359, 8.970),
+  node('bellinzona', 'Bellinzona', 46.195, 9.023),
+  node('locarno', 'Locarno', 46.170, 8.795),
+  node('boscogurin', 'Bosco Gurin', 46.317, 8.492),
+
+  // Eastern Switzerland and Glarus
+  node('wattwil', 'Wattwil', 47.300, 9.087),
+  node('unterwasser', 'Unterwasser', 47.197, 9.309),
+  node('wildhaus', 'Wildhaus', 47.204, 9.352),
+  node('gams', 'Gams', 47.204, 9.441),
+  node('atzmaennig', 'Atzmännig', 47.287, 8.974),
+  node('weesen', 'Weesen', 47.134, 9.097),
+  node('amden', 'Amden', 47.149, 9.146),
+  node('glarus', 'Glarus', 47.040, 9.068),
+  node('schwanden', 'Schwanden', 46.995, 9.072),
+  node('elm', 'Elm', 46.918, 9.176),
+  node('linthal', 'Linthal', 46.920, 8.998),
+  node('flumserberg', 'Flumserberg', 47.092, 9.283),
+  node('badragaz', 'Bad Ragaz', 47.003, 9.503),
+
+  // Graubünden
+  node('landquart', 'Landquart', 46.967, 9.555),
+  node('chur', 'Chur', 46.850, 9.530),
+  node('arosa', 'Arosa', 46.780, 9.679),
+  node('lenzerheide', 'Lenzerheide', 46.728, 9.558),
+  node('tiefencastel', 'Tiefencastel', 46.660, 9.578),
+  node('savognin', 'Savognin', 46.596, 9.598),
+  node('bivio', 'Bivio', 46.469, 9.651),
+  node('silvaplana', 'Silvaplana', 46.459, 9.795),
+  node('stmoritz', 'St. Moritz', 46.498, 9.839),
+  node('samedan', 'Samedan', 46.533, 9.870),
+  node('pontresina', 'Pontresina', 46.496, 9.901),
+  node('zernez', 'Zernez', 46.699, 10.093),
+  node('sagliains', 'Sagliains (Vereina)', 46.775, 10.085),
+  node('scuol', 'Scuol', 46.797, 10.298),
+  node('samnaun', 'Samnaun', 46.943, 10.361),
+  node('klosters', 'Klosters', 46.869, 9.881),
+  node('davos', 'Davos', 46.803, 9.836),
+  node('reichenau', 'Reichenau', 46.823, 9.408),
+  node('flims', 'Flims', 46.836, 9.284),
+  node('laax', 'Laax', 46.807, 9.258),
+  node('ilanz', 'Ilanz', 46.774, 9.204),
+  node('obersaxen', 'Obersaxen', 46.747, 9.100),
+  node('brigels', 'Brigels', 46.769, 9.063),
+  node('vals', 'Vals', 46.616, 9.180),
+  node('disentis', 'Disentis', 46.704, 8.853),
+  node('sedrun', 'Sedrun', 46.680, 8.774),
+  node('thusis', 'Thusis', 46.697, 9.440),
+  node('splugen', 'Splügen', 46.551, 9.319),
+  node('sanbernardino', 'San Bernardino', 46.462, 9.187),
+
+  // Bernese Oberland and Fribourg Alps
+  node('thun', 'Thun', 46.758, 7.628),
+  node('spiez', 'Spiez', 46.686, 7.680),
+  node('interlaken', 'Interlaken', 46.686, 7.863),
+  node('brienz', 'Brienz', 46.754, 8.036),
+  node('bruenig', 'Brünig', 46.757, 8.138),
+  node('meiringen', 'Meiringen', 46.727, 8.187),
+  node('grindelwald', 'Grindelwald', 46.624, 8.041),
+  node('lauterbrunnen', 'Lauterbrunnen', 46.594, 7.909),
+  node('frutigen', 'Frutigen', 46.588, 7.648),
+  node('adelboden', 'Adelboden', 46.493, 7.559),
+  node('kandersteg', 'Kandersteg', 46.495, 7.674),
+  node('zweisimmen', 'Zweisimmen', 46.554, 7.373),
+  node('lenk', 'Lenk', 46.456, 7.443),
+  node('saanenmoeser', 'Saanenmöser', 46.514, 7.306),
+  node('gstaad', 'Gstaad', 46.475, 7.286),
+  node('pillon', 'Col du Pillon', 46.355, 7.212),
+  node('diablerets', 'Les Diablerets', 46.349, 7.159),
+
+  // Chablais and Lower Valais
+  node('aigle', 'Aigle', 46.318, 6.964),
+  node('leysin', 'Leysin', 46.345, 7.011),
+  node('bex', 'Bex', 46.252, 7.010),
+  node('villars', 'Villars', 46.299, 7.056),
+  node('monthey', 'Monthey', 46.254, 6.954),
+  node('vionnaz', 'Vionnaz', 46.311, 6.900),
+  node('champery', 'Champéry', 46.178, 6.870),
+  node('morgins', 'Morgins', 46.238, 6.855),
+  node('martigny', 'Martigny', 46.102, 7.073),
+  node('lechable', 'Le Châble', 46.080, 7.210),
+  node('verbier', 'Verbier', 46.096, 7.229),
+  node('orsieres', 'Orsières', 46.029, 7.145),
+  node('lafouly', 'La Fouly', 45.933, 7.095),
+  node('riddes', 'Riddes', 46.172, 7.222),
+  node('ovronnaz', 'Ovronnaz', 46.197, 7.170),
+  node('sion', 'Sion', 46.233, 7.360),
+  node('nendaz', 'Haute-Nendaz', 46.187, 7.293),
+  node('veysonnaz', 'Veysonnaz', 46.195, 7.336),
+  node('thyon', 'Thyon', 46.180, 7.370),
+  node('anzere', 'Anzère', 46.296, 7.398),
+  node('nax', 'Nax', 46.228, 7.428),
+
+  // Upper Valais
+  node('sierre', 'Sierre', 46.292, 7.535),
+  node('crans', 'Crans-Montana', 46.312, 7.480),
+  node('vissoie', 'Vissoie', 46.216, 7.585),
+  node('stluc', 'St-Luc', 46.219, 7.598),
+  node('grimentz', 'Grimentz', 46.180, 7.576),
+  node('zinal', 'Zinal', 46.135, 7.625),
+  node('leuk', 'Leuk', 46.310, 7.640),
+  node('leukerbad', 'Leukerbad', 46.380, 7.627),
+  node('gampel', 'Gampel', 46.313, 7.741),
+  node('goppenstein', 'Goppenstein', 46.368, 7.755),
+  node('wiler', 'Wiler (Lötschental)', 46.405, 7.783),
+  node('visp', 'Visp', 46.293, 7.882),
+  node('stalden', 'Stalden', 46.233, 7.872),
+  node('graechen', 'Grächen', 46.195, 7.838),
+  node('taesch', 'Täsch', 46.068, 7.777),
+  node('zermatt', 'Zermatt', 46.021, 7.749),
+  node('saasgrund', 'Saas-Grund', 46.123, 7.937),
+  node('saasfee', 'Saas-Fee', 46.108, 7.928),
+  node('brig', 'Brig', 46.317, 7.988),
+  node('blatten', 'Blatten bei Naters', 46.357, 7.983),
+  node('moerel', 'Mörel', 46.356, 8.045),
+  node('fiesch', 'Fiesch', 46.400, 8.135),
+  node('oberwald', 'Oberwald', 46.533, 8.349)
+];
+
+const edge = (from: string, to: string, kind: RoadKind, road?: string, extra: Pick<RoadEdge, 'km' | 'minutes'> = {}): RoadEdge =>
+  ({ from, to, kind, road, ...extra });
+
+export const ROAD_EDGES: RoadEdge[] = [
+  // A1 / A2 / A3 / A4 / A14 across the plateau
+  edge('basel', 'augst', 'motorway', 'A2'),
+  edge('augst', 'haerkingen', 'motorway', 'A2', { km: 35 }),
+  edge('haerkingen', 'sursee', 'motorway', 'A2'),
+  edge('sursee', 'luzern', 'motorway', 'A2'),
+  edge('augst', 'brugg', 'motorway', 'A3', { km: 45 }),
+  edge('brugg', 'limmattal', 'motorway', 'A3'),
+  edge('haerkingen', 'aarau', 'motorway', 'A1'),
+  edge('aarau', 'limmattal', 'motorway', 'A1'),
+  edge('limmattal', 'zurich', 'motorway', 'A1'),
+  edge('zurich', 'winterthur', 'motorway', 'A1'),
+  edge('winterthur', 'wil', 'motorway', 'A1'),
+  edge('wil', 'stgallen', 'motorway', 'A1'),
+  edge('stgallen', 'stmargrethen', 'motorway', 'A1'),
+  edge('haerkingen', 'bern', 'motorway', 'A1'),
+  edge('limmattal', 'affoltern', 'motorway', 'A4', { km: 17 }),
+  edge('zurich', 'affoltern', 'motorway', 'A4', { km: 13 }),
+  edge('affoltern', 'rotkreuz', 'motorway', 'A4'),
+  edge('rotkreuz', 'luzern', 'motorway', 'A14'),
+  edge('rotkreuz', 'zug', 'motorway', 'A4'),
+  edge('zug', 'arth', 'motorway', 'A4'),
+  edge('arth', 'schwyz', 'motorway', 'A4'),
+  edge('zurich', 'pfaeffikon', 'motorway', 'A3', { km: 30 }),
+  edge('pfaeffikon', 'niederurnen', 'motorway', 'A3'),
+  edge('niederurnen', 'flums', 'motorway', 'A3'),
+  edge('flums', 'sargans', 'motorway', 'A3'),
+
+  // West: A12 / A9
+  edge('bern', 'fribourg', 'motorway', 'A12'),
+  edge('fribourg', 'bulle', 'motorway', 'A12'),
+  edge('bulle', 'chateldenis', 'motorway', 'A12'),
+  edge('chateldenis', 'vevey', 'motorway', 'A12'),
+  edge('lausanne', 'vevey', 'motorway', 'A9'),
+  edge('vevey', 'aigle', 'motorway', 'A9'),
+  edge('aigle', 'bex', 'motorway', 'A9'),
+  edge('bex', 'martigny', 'motorway', 'A9'),
+  edge('martigny', 'riddes', 'motorway', 'A9'),
+  edge('riddes', 'sion', 'motorway', 'A9'),
+  edge('sion', 'sierre', 'motorway', 'A9'),
+  edge('sierre', 'leuk', 'expressway', 'A9'),
+  edge('leuk', 'gampel', 'expressway', 'A9'),
+  edge('gampel', 'visp', 'motorway', 'A9'),
+  edge('visp', 'brig', 'main'),
+
+  // Bern - Oberland: A6 / A8
+  edge('bern', 'thun', 'motorway', 'A6'),
+  edge('thun', 'spiez', 'motorway', 'A6'),
+  edge('spiez', 'interlaken', 'motorway', 'A8'),
+  edge('interlaken', 'brienz', 'motorway', 'A8'),
+  edge('luzern', 'sarnen', 'expressway', 'A8'),
+  edge('sarnen', 'bruenig', 'main', 'Brünig'),
+  edge('bruenig', 'brienz', 'main', 'Brünig'),
+  edge('bruenig', 'meiringen', 'main'),
+  edge('interlaken', 'grindelwald', 'main', undefined, { km: 20 }),
+  edge('interlaken', 'lauterbrunnen', 'main', undefined, { km: 12 }),
+  edge('spiez', 'frutigen', 'expressway'),
+  edge('frutigen', 'kandersteg', 'main'),
+  edge('frutigen', 'adelboden', 'mountain', undefined, { km: 16 }),
+  edge('spiez', 'zweisimmen', 'main', undefined, { km: 30 }),
+  edge('zweisimmen', 'lenk', 'main'),
+  edge('zweisimmen', 'saanenmoeser', 'main'),
+  edge('saanenmoeser', 'gstaad', 'main'),
+  edge('gstaad', 'pillon', 'mountain', 'Col du Pillon', { km: 16 }),
+  edge('pillon', 'diablerets', 'mountain', 'Col du Pillon'),
+  edge('diablerets', 'aigle', 'mountain', undefined, { km: 22 }),
+
+  // Car trains through the Alps
+  edge('kandersteg', 'goppenstein', 'carTrain', 'Lötschberg car train', { km: 16, minutes: 30 }),
+  edge('realp', 'oberwald', 'carTrain', 'Furka car train', { km: 15, minutes: 30 }),
+  edge('klosters', 'sagliains', 'carTrain', 'Vereina car train', { km: 19, minutes: 30 }),
+  edge('andermatt', 'sedrun', 'carTrain', 'Oberalp car train', { km: 20, minutes: 60 }),
+
+  // Central Switzerland, Gotthard, Ticino
+  edge('luzern', 'stans', 'motorway', 'A2'),
+  edge('stans', 'altdorf', 'motorway', 'A2', { km: 25 }),
+  edge('altdorf', 'goeschenen', 'motorway', 'A2', { km: 27 }),
+  edge('goeschenen', 'airolo', 'motorway', 'A2', { km: 17 }),
+  edge('airolo', 'biasca', 'motorway', 'A2'),
+  edge('biasca', 'bellinzona', 'motorway', 'A2'),
+  edge('bellinzona', 'locarno', 'expressway'),
+  edge('locarno', 'boscogurin', 'mountain', undefined, { km: 45 }),
+  edge('biasca', 'disentis', 'pass', 'Lukmanier', { km: 66 }),
+  edge('schwyz', 'altdorf', 'main', 'Axenstrasse', { km: 20 }),
+  edge('schwyz', 'stoos', 'mountain'),
+  edge('schwyz', 'sattel', 'main'),
+  edge('sattel', 'biberbrugg', 'main'),
+  edge('pfaeffikon', 'biberbrugg', 'main'),
+  edge('biberbrugg', 'einsiedeln', 'main'),
+  edge('einsiedeln', 'hochybrig', 'mountain', undefined, { km: 16 }),
+  edge('stans', 'engelberg', 'main', undefined, { km: 20 }),
+  edge('sarnen', 'stoeckalp', 'mountain', undefined, { km: 13 }),
+  edge('luzern', 'schuepfheim', 'main', undefined, { km: 30 }),
+  edge('schuepfheim', 'soerenberg', 'mountain', undefined, { km: 16 }),
+  edge('goeschenen', 'andermatt', 'main'),
+  edge('andermatt', 'realp', 'main'),
+
+  // Eastern Switzerland, Glarus, Rhine valley
+  edge('pfaeffikon', 'rapperswil', 'main'),
+  edge('rapperswil', 'atzmaennig', 'mountain', undefined, { km: 17 }),
+  edge('rapperswil', 'wattwil', 'main', undefined, { km: 23 }),
+  edge('wil', 'wattwil', 'main', undefined, { km: 21 }),
+  edge('wattwil', 'unterwasser', 'main', undefined, { km: 23 }),
+  edge('unterwasser', 'wildhaus', 'main'),
+  edge('wildhaus', 'gams', 'mountain'),
+  edge('niederurnen', 'weesen', 'main'),
+  edge('weesen', 'amden', 'mountain', undefined, { km: 8 }),
+  edge('niederurnen', 'glarus', 'main'),
+  edge('glarus', 'schwanden', 'main'),
+  edge('schwanden', 'elm', 'mountain'),
+  edge('schwanden', 'linthal', 'main'),
+  edge('flums', 'flumserberg', 'mountain', undefined, { km: 12 }),
+  edge('stmargrethen', 'buchs', 'motorway', 'A13'),
+  edge('buchs', 'gams', 'main'),
+  edge('buchs', 'sargans', 'motorway', 'A13'),
+  edge('sargans', 'badragaz', 'motorway', 'A13'),
+  edge('badragaz', 'landquart', 'motorway', 'A13'),
+
+  // Graubünden
+  edge('landquart', 'chur', 'motorway', 'A13'),
+  edge('chur', 'reichenau', 'motorway', 'A13'),
+  edge('reichenau', 'thusis', 'motorway', 'A13'),
+  edge('thusis', 'splugen', 'motorway', 'A13', { km: 27 }),
+  edge('splugen', 'sanbernardino', 'motorway', 'A13', { km: 20 }),
+  edge('sanbernardino', 'bellinzona', 'motorway', 'A13', { km: 45 }),
+  edge('chur', 'arosa', 'mountain', undefined, { km: 31 }),
+  edge('chur', 'lenzerheide', 'main', undefined, { km: 18 }),
+  edge('lenzerheide', 'tiefencastel', 'main'),
+  edge('tiefencastel', 'savognin', 'main'),
+  edge('savognin', 'bivio', 'mountain', undefined, { km: 18 }),
+  edge('bivio', 'silvaplana', 'pass', 'Julier', { km: 20 }),
+  edge('silvaplana', 'stmoritz', 'main'),
+  edge('stmoritz', 'samedan', 'main'),
+  edge('samedan', 'pontresina', 'main'),
+  edge('samedan', 'zernez', 'main', undefined, { km: 30 }),
+  edge('zernez', 'sagliains', 'main'),
+  edge('sagliains', 'scuol', 'main', undefined, { km: 18 }),
+  edge('scuol', 'samnaun', 'mountain', undefined, { km: 45 }),
+  edge('davos', 'sagliains', 'pass', 'Flüela', { km: 27 }),
+  edge('landquart', 'klosters', 'expressway', undefined, { km: 29 }),
+  edge('klosters', 'davos', 'main', undefined, { km: 11 }),
+  edge('davos', 'tiefencastel', 'main', undefined, { km: 30 }),
+  edge('reichenau', 'flims', 'main', undefined, { km: 11 }),
+  edge('flims', 'laax', 'main'),
+  edge('laax', 'ilanz', 'main'),
+  edge('ilanz', 'obersaxen', 'mountain', undefined, { km: 12 }),
+  edge('ilanz', 'brigels', 'mountain', undefined, { km: 16 }),
+  edge('ilanz', 'vals', 'mountain', undefined, { km: 21 }),
+  edge('ilanz', 'disentis', 'main', undefined, { km: 30 }),
+  edge('disentis', 'sedrun', 'main'),
+
+  // Chablais and Lower Valais
+  edge('aigle', 'leysin', 'mountain', undefined, { km: 15 }),
+  edge('bex', 'villars', 'mountain', undefined, { km: 14 }),
+  edge('aigle', 'monthey', 'main'),
+  edge('monthey', 'vionnaz', 'main'),
+  edge('monthey', 'champery', 'mountain', undefined, { km: 13 }),
+  edge('monthey', 'morgins', 'mountain', undefined, { km: 15 }),
+  edge('martigny', 'lechable', 'main', undefined, { km: 18 }),
+  edge('lechable', 'verbier', 'mountain', undefined, { km: 10 }),
+  edge('martigny', 'orsieres', 'main', undefined, { km: 18 }),
+  edge('orsieres', 'lafouly', 'mountain', undefined, { km: 14 }),
+  edge('riddes', 'ovronnaz', 'mountain', undefined, { km: 15 }),
+  edge('sion', 'nendaz', 'mountain', undefined, { km: 15 }),
+  edge('sion', 'veysonnaz', 'mountain', undefined, { km: 13 }),
+  edge('sion', 'thyon', 'mountain', undefined, { km: 19 }),
+  edge('sion', 'anzere', 'mountain', undefined, { km: 14 }),
+  edge('sion', 'nax', 'mountain', undefined, { km: 13 }),
+
+  // Upper Valais
+  edge('sierre', 'crans', 'mountain', undefined, { km: 15 }),
+  edge('sierre', 'vissoie', 'mountain', undefined, { km: 14 }),
+  edge('vissoie', 'stluc', 'mountain'),
+  edge('vissoie', 'grimentz', 'mountain', undefined, { km: 7 }),
+  edge('vissoie', 'zinal', 'mountain', undefined, { km: 14 }),
+  edge('leuk', 'leukerbad', 'mountain', undefined, { km: 15 }),
+  edge('gampel', 'goppenstein', 'mountain', undefined, { km: 10 }),
+  edge('goppenstein', 'wiler', 'mountain', undefined, { km: 6 }),
+  edge('visp', 'stalden', 'main', undefined, { km: 8 }),
+  edge('stalden', 'graechen', 'mountain', undefined, { km: 9 }),
+  edge('stalden', 'taesch', 'main', undefined, { km: 24 }),
+  edge('taesch', 'zermatt', 'shuttle', 'Täsch–Zermatt shuttle train', { km: 6, minutes: 20 }),
+  edge('stalden', 'saasgrund', 'main', undefined, { km: 17 }),
+  edge('saasgrund', 'saasfee', 'mountain', undefined, { km: 4 }),
+  edge('brig', 'blatten', 'mountain', undefined, { km: 8 }),
+  edge('brig', 'moerel', 'main', undefined, { km: 8 }),
+  edge('moerel', 'fiesch', 'main', undefined, { km: 9 }),
+  edge('fiesch', 'oberwald', 'main', undefined, { km: 24 })
+];
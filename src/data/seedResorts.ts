@@ -0,0 +1,258 @@
+import type { ResortSeed } from '../services/resortMapping.js';
+
+/**
+ * Curated resorts seeded into the resorts table on startup
+ * Static fields (name, coordinates, aliases, difficulty, features) are owned by this list;
+ * season status and metadata are kept up to date by the scrapers
+ * Based on Swiss ski resorts with drive times from Dietikon
+ */
+
+export const SEED_RESORTS: ResortSeed[] = [
+  // High-priority resorts with accurate coordinates
+  {
+    bergfexName: "Engelberg Titlis",
+    internalId: "engelberg-titlis",
+    aliases: ["titlis", "engelberg"],
+    resort: {
+      id: "engelberg-titlis",
+      name: "Engelberg Titlis",
+      bergfexId: "engelberg-titlis",
+      coordinates: { lat: 46.8217, lng: 8.4017 },
+      seasonStatus: "OPEN",
+      priority: 10,
+      difficulty: "mixed",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Zermatt",
+    internalId: "zermatt",
+    aliases: ["matterhorn", "matterhorn paradise"],
+    resort: {
+      id: "zermatt",
+      name: "Zermatt",
+      bergfexId: "zermatt",
+      coordinates: { lat: 46.0244, lng: 7.7486 },
+      seasonStatus: "OPEN",
+      priority: 10,
+      difficulty: "advanced",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Saas-Fee",
+    internalId: "saas-fee",
+    aliases: ["saas fee", "saasfee"],
+    resort: {
+      id: "saas-fee",
+      name: "Saas-Fee",
+      bergfexId: "saas-fee",
+      coordinates: { lat: 46.1080, lng: 7.9276 },
+      seasonStatus: "OPEN",
+      priority: 9,
+      difficulty: "mixed",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Davos Klosters Parsenn",
+    internalId: "davos-parsenn",
+    aliases: ["parsenn", "klosters", "davos klosters"],
+    resort: {
+      id: "davos-parsenn",
+      name: "Davos Parsenn",
+      bergfexId: "davos-klosters-parsenn",
+      coordinates: { lat: 46.7974, lng: 9.8209 },
+      seasonStatus: "OPEN",
+      priority: 8,
+      difficulty: "mixed",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Glacier 3000 - Les Diablerets",
+    internalId: "glacier-3000",
+    aliases: ["glacier 3000", "les diablerets", "diablerets"],
+    resort: {
+      id: "glacier-3000",
+      name: "Glacier 3000",
+      bergfexId: "glacier-3000-les-diablerets",
+      coordinates: { lat: 46.3317, lng: 7.2044 },
+      seasonStatus: "OPEN",
+      priority: 8,
+      difficulty: "mixed",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Arosa Lenzerheide",
+    internalId: "arosa-lenzerheide",
+    aliases: ["arosa", "lenzerheide"],
+    resort: {
+      id: "arosa-lenzerheide",
+      name: "Arosa Lenzerheide",
+      bergfexId: "arosa-lenzerheide",
+      coordinates: { lat: 46.7824, lng: 9.6849 },
+      seasonStatus: "OPEN",
+      priority: 7,
+      difficulty: "mixed",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Andermatt - Gemsstock",
+    internalId: "andermatt",
+    aliases: ["gemsstock", "andermatt sedrun"],
+    resort: {
+      id: "andermatt",
+      name: "Andermatt",
+      bergfexId: "andermatt-gemsstock",
+      coordinates: { lat: 46.6356, lng: 8.5939 },
+      seasonStatus: "OPEN",
+      priority: 7,
+      difficulty: "advanced",
+      hasPark: true,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Gstaad",
+    internalId: "gstaad",
+    aliases: ["saanenland"],
+    resort: {
+      id: "gstaad",
+      name: "Gstaad",
+      bergfexId: "gstaad",
+      coordinates: { lat: 46.4700, lng: 7.2831 },
+      seasonStatus: "OPEN",
+      priority: 6,
+      difficulty: "mixed",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+
+  // Add major resorts from the scraped data with estimated coordinates
+  {
+    bergfexName: "Survih - Samedan",
+    internalId: "survih-samedan",
+    aliases: ["survih", "samedan"],
+    resort: {
+      id: "survih-samedan",
+      name: "Survih Samedan",
+      bergfexId: "survih-samedan",
+      coordinates: { lat: 46.5339, lng: 9.8717 }, // Estimated coordinates
+      seasonStatus: "OPEN",
+      priority: 6,
+      difficulty: "mixed",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Lauchernalp - Lötschental",
+    internalId: "lauchernalp-loetschental",
+    aliases: ["lauchernalp", "loetschental", "lötschental"],
+    resort: {
+      id: "lauchernalp-loetschental",
+      name: "Lauchernalp Lötschental",
+      bergfexId: "lauchernalp-loetschental",
+      coordinates: { lat: 46.4167, lng: 7.7667 }, // Estimated coordinates
+      seasonStatus: "OPEN",
+      priority: 5,
+      difficulty: "mixed",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Sörenberg",
+    internalId: "soerenberg",
+    aliases: ["sorenberg", "soerenberg"],
+    resort: {
+      id: "soerenberg",
+      name: "Sörenberg",
+      bergfexId: "soerenberg",
+      coordinates: { lat: 46.8333, lng: 8.0333 }, // Estimated coordinates
+      seasonStatus: "OPEN",
+      priority: 5,
+      difficulty: "mixed",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Davos Schatzalp - Strela",
+    internalId: "davos-schatzalp-strela",
+    aliases: ["schatzalp", "strela"],
+    resort: {
+      id: "davos-schatzalp-strela",
+      name: "Davos Schatzalp Strela",
+      bergfexId: "davos-schatzalp-strela",
+      coordinates: { lat: 46.8000, lng: 9.8167 }, // Estimated coordinates
+      seasonStatus: "OPEN",
+      priority: 5,
+      difficulty: "mixed",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Davos Rinerhorn",
+    internalId: "davos-rinerhorn",
+    aliases: ["rinerhorn"],
+    resort: {
+      id: "davos-rinerhorn",
+      name: "Davos Rinerhorn",
+      bergfexId: "davos-rinerhorn",
+      coordinates: { lat: 46.8167, lng: 9.8333 }, // Estimated coordinates
+      seasonStatus: "OPEN",
+      priority: 5,
+      difficulty: "mixed",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+
+  // Closed resorts
+  {
+    bergfexName: "Hoch-Ybrig",
+    internalId: "hoch-ybrig",
+    aliases: ["ybrig", "hochybrig"],
+    resort: {
+      id: "hoch-ybrig",
+      name: "Hoch-Ybrig",
+      bergfexId: "hoch-ybrig",
+      coordinates: { lat: 47.0139, lng: 8.8581 },
+      seasonStatus: "CLOSED",
+      openingDate: new Date("2025-12-07"),
+      priority: 5,
+      difficulty: "beginner",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  },
+  {
+    bergfexName: "Flumserberg",
+    internalId: "flumserberg",
+    aliases: ["flumsi", "flums"],
+    resort: {
+      id: "flumserberg",
+      name: "Flumserberg",
+      bergfexId: "flumserberg",
+      coordinates: { lat: 47.0867, lng: 9.3344 },
+      seasonStatus: "CLOSED",
+      openingDate: new Date("2025-12-15"),
+      priority: 4,
+      difficulty: "beginner",
+      hasPark: false,
+      hasNightRiding: false
+    }
+  }
+];
@@ -0,0 +1,109 @@
+/**
+ * Small gazetteer of Swiss ski villages and areas, used to place resorts bergfex lists
+ * but we have no curated data for. Coordinates are village centres - good enough
+ * for drive time estimates, not for navigation
+ */
+
+export interface SwissPlace {
+  name: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export const SWISS_PLACES: SwissPlace[] = [
+  // Valais
+  { name: "Zermatt", lat: 46.0207, lng: 7.7491 },
+  { name: "Saas-Fee", lat: 46.1087, lng: 7.9277 },
+  { name: "Saas-Grund", lat: 46.1230, lng: 7.9370 },
+  { name: "Verbier", lat: 46.0961, lng: 7.2286 },
+  { name: "Bruson", lat: 46.0640, lng: 7.2230 },
+  { name: "La Fouly", lat: 45.9330, lng: 7.0950 },
+  { name: "Crans-Montana", lat: 46.3117, lng: 7.4795 },
+  { name: "Anzère", lat: 46.2958, lng: 7.3983 },
+  { name: "Nax", lat: 46.2280, lng: 7.4280 },
+  { name: "Leukerbad", lat: 46.3795, lng: 7.6267 },
+  { name: "Grächen", lat: 46.1953, lng: 7.8377 },
+  { name: "Belalp", lat: 46.3739, lng: 7.9773, aliases: ["Blatten-Belalp"] },
+  { name: "Riederalp", lat: 46.3808, lng: 8.0262 },
+  { name: "Bettmeralp", lat: 46.3925, lng: 8.0636 },
+  { name: "Fiesch", lat: 46.4001, lng: 8.1352, aliases: ["Fiescheralp", "Aletsch Arena"] },
+  { name: "Lauchernalp", lat: 46.4167, lng: 7.7833, aliases: ["Lötschental", "Wiler"] },
+  { name: "Obergoms", lat: 46.5330, lng: 8.3490, aliases: ["Oberwald", "Goms"] },
+  { name: "Veysonnaz", lat: 46.1950, lng: 7.3360 },
+  { name: "Nendaz", lat: 46.1866, lng: 7.2929 },
+  { name: "Thyon", lat: 46.1800, lng: 7.3700 },
+  { name: "Ovronnaz", lat: 46.1970, lng: 7.1700 },
+  { name: "Zinal", lat: 46.1347, lng: 7.6247 },
+  { name: "Grimentz", lat: 46.1800, lng: 7.5760 },
+  { name: "St-Luc", lat: 46.2189, lng: 7.5979, aliases: ["Saint-Luc", "Chandolin"] },
+  { name: "Champéry", lat: 46.1776, lng: 6.8695, aliases: ["Portes du Soleil"] },
+  { name: "Morgins", lat: 46.2383, lng: 6.8548 },
+  { name: "Torgon", lat: 46.3200, lng: 6.8770 },
+
+  // Vaud and Fribourg
+  { name: "Villars", lat: 46.2986, lng: 7.0556, aliases: ["Villars-sur-Ollon", "Gryon"] },
+  { name: "Les Diablerets", lat: 46.3497, lng: 7.1591, aliases: ["Glacier 3000"] },
+  { name: "Leysin", lat: 46.3450, lng: 7.0110 },
+  { name: "Charmey", lat: 46.6190, lng: 7.1660 },
+  { name: "Moléson", lat: 46.5490, lng: 7.0180 },
+  { name: "Les Paccots", lat: 46.5230, lng: 6.9450 },
+
+  // Bernese Oberland
+  { name: "Grindelwald", lat: 46.6242, lng: 8.0414, aliases: ["First", "Jungfrau"] },
+  { name: "Wengen", lat: 46.6083, lng: 7.9222, aliases: ["Kleine Scheidegg", "Männlichen"] },
+  { name: "Mürren", lat: 46.5589, lng: 7.8919, aliases: ["Schilthorn"] },
+  { name: "Lauterbrunnen", lat: 46.5936, lng: 7.9091 },
+  { name: "Adelboden", lat: 46.4930, lng: 7.5590 },
+  { name: "Lenk", lat: 46.4560, lng: 7.4430 },
+  { name: "Gstaad", lat: 46.4750, lng: 7.2860 },
+  { name: "Saanenmöser", lat: 46.5140, lng: 7.3060 },
+  { name: "Zweisimmen", lat: 46.5540, lng: 7.3730 },
+  { name: "Kandersteg", lat: 46.4950, lng: 7.6740 },
+  { name: "Meiringen", lat: 46.7300, lng: 8.1900, aliases: ["Hasliberg"] },
+
+  // Central Switzerland
+  { name: "Engelberg", lat: 46.8196, lng: 8.4036, aliases: ["Titlis"] },
+  { name: "Melchsee-Frutt", lat: 46.7750, lng: 8.2680 },
+  { name: "Sörenberg", lat: 46.8230, lng: 8.0360 },
+  { name: "Stoos", lat: 46.9770, lng: 8.6630 },
+  { name: "Hoch-Ybrig", lat: 47.0180, lng: 8.7910 },
+  { name: "Sattel", lat: 47.0800, lng: 8.6360, aliases: ["Hochstuckli"] },
+  { name: "Andermatt", lat: 46.6356, lng: 8.5939, aliases: ["Gemsstock"] },
+
+  // Eastern Switzerland
+  { name: "Flumserberg", lat: 47.0920, lng: 9.2800 },
+  { name: "Pizol", lat: 47.0000, lng: 9.5000, aliases: ["Bad Ragaz"] },
+  { name: "Wildhaus", lat: 47.2040, lng: 9.3520 },
+  { name: "Unterwasser", lat: 47.1970, lng: 9.3090, aliases: ["Toggenburg", "Chäserrugg"] },
+  { name: "Amden", lat: 47.1490, lng: 9.1460 },
+  { name: "Atzmännig", lat: 47.2870, lng: 8.9740 },
+  { name: "Braunwald", lat: 46.9400, lng: 9.0000 },
+  { name: "Elm", lat: 46.9180, lng: 9.1760 },
+
+  // Graubünden
+  { name: "Laax", lat: 46.8070, lng: 9.2580 },
+  { name: "Flims", lat: 46.8360, lng: 9.2840 },
+  { name: "Disentis", lat: 46.7040, lng: 8.8530 },
+  { name: "Sedrun", lat: 46.6800, lng: 8.7740 },
+  { name: "Obersaxen", lat: 46.7470, lng: 9.1000 },
+  { name: "Brigels", lat: 46.7690, lng: 9.0630, aliases: ["Breil"] },
+  { name: "Vals", lat: 46.6160, lng: 9.1800 },
+  { name: "Splügen", lat: 46.5510, lng: 9.3190 },
+  { name: "Arosa", lat: 46.7833, lng: 9.6789 },
+  { name: "Lenzerheide", lat: 46.7286, lng: 9.5578 },
+  { name: "Savognin", lat: 46.5960, lng: 9.5980 },
+  { name: "Bivio", lat: 46.4690, lng: 9.6510 },
+  { name: "Davos", lat: 46.8027, lng: 9.8360, aliases: ["Parsenn", "Jakobshorn"] },
+  { name: "Klosters", lat: 46.8694, lng: 9.8806 },
+  { name: "St. Moritz", lat: 46.4983, lng: 9.8390, aliases: ["Corviglia"] },
+  { name: "Pontresina", lat: 46.4960, lng: 9.9010, aliases: ["Diavolezza"] },
+  { name: "Samedan", lat: 46.5333, lng: 9.8667 },
+  { name: "Celerina", lat: 46.5120, lng: 9.8570 },
+  { name: "Scuol", lat: 46.7970, lng: 10.2980, aliases: ["Motta Naluns"] },
+  { name: "Samnaun", lat: 46.9433, lng: 10.3614 },
+
+  // Ticino
+  { name: "Airolo", lat: 46.5280, lng: 8.6100 },
+  { name: "Bosco Gurin", lat: 46.3170, lng: 8.4920 }
+];
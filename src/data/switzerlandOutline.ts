@@ -0,0 +1,20 @@
+/**
+ * Simplified outline of Switzerland for the dashboard map, [lng, lat] clockwise from Basel
+ * About 2-5km accurate - enough to place resorts, not to draw borders
+ */
+
+export const SWITZERLAND_OUTLINE: Array<[number, number]> = [
+  [7.59, 47.58], [7.80, 47.56], [8.23, 47.61], [8.45, 47.57], [8.57, 47.80],
+  [8.68, 47.69], [8.88, 47.66], [9.18, 47.66], [9.56, 47.54], [9.64, 47.35],
+  [9.53, 47.27], [9.47, 47.05], [9.60, 47.06], [9.87, 46.98], [10.16, 46.85],
+  [10.47, 46.95], [10.49, 46.62], [10.25, 46.60], [10.10, 46.23], [9.95, 46.38],
+  [9.46, 46.50], [9.28, 46.50], [9.04, 45.84], [8.91, 45.96], [8.72, 46.10],
+  [8.44, 46.26], [8.46, 46.46], [8.08, 46.26], [7.85, 45.92], [7.54, 45.98],
+  [7.04, 45.93], [6.80, 46.13], [6.86, 46.28], [6.78, 46.41], [6.52, 46.45],
+  [6.23, 46.31], [5.96, 46.14], [6.07, 46.46], [6.14, 46.58], [6.44, 46.76],
+  [6.70, 47.04], [6.99, 47.30], [6.88, 47.36], [7.06, 47.49], [7.20, 47.49],
+  [7.50, 47.45], [7.59, 47.58]
+];
+
+// Map bounds around the outline
+export const SWITZERLAND_BOUNDS = { minLng: 5.9, maxLng: 10.55, minLat: 45.8, maxLat: 47.85 };
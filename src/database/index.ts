@@ -1,48 +1,25 @@
 // Bun's built-in SQLite database
 import { Database } from "bun:sqlite";
-const db = new Database('iceking.db');
+import { runMigrations } from "./migrations.js";
+
+const DATABASE_PATH = process.env.DATABASE_PATH || 'iceking.db';
+const db = new Database(DATABASE_PATH);
 
 // Keep mockDb for backward compatibility with existing code
 export const mockDb = {
-  resorts: [] as any[],
   conditions: [] as any[],
   driveTimes: [] as any[],
   scores: [] as any[]
 };
 
-// Create tables
-db.exec(`
-  CREATE TABLE IF NOT EXISTS drive_times (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    resort_id TEXT NOT NULL,
-    origin TEXT NOT NULL DEFAULT 'Hedingen',
-    drive_time_minutes INTEGER NOT NULL,
-    distance_km REAL NOT NULL,
-    cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(resort_id, origin)
-  );
-
-  CREATE TABLE IF NOT EXISTS resort_conditions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    resort_id TEXT NOT NULL,
-    mountain_depth INTEGER,
-    valley_depth INTEGER,
-    new_snow INTEGER,
-    lifts_open INTEGER,
-    lifts_total INTEGER,
-    last_update DATETIME DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(resort_id)
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_drive_times_resort_origin ON drive_times(resort_id, origin);
-  CREATE INDEX IF NOT EXISTS idx_conditions_resort ON resort_conditions(resort_id);
-`);
+// Create or upgrade tables before preparing statements against them
+runMigrations(db);
 
 // Prepared statements for drive times
 export const driveTimeStatements = {
   insertOrUpdate: db.prepare(`
-    INSERT OR REPLACE INTO drive_times (resort_id, origin, drive_time_minutes, distance_km, cached_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO drive_times (resort_id, origin, drive_time_minutes, distance_km, source, route, cached_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `),
   getByResortAndOrigin: db.prepare(`
     SELECT * FROM drive_times WHERE resort_id = ? AND origin = ?
@@ -52,14 +29,17 @@ export const driveTimeStatements = {
   `),
   deleteOld: db.prepare(`
     DELETE FROM drive_times WHERE cached_at < datetime('now', '-1 year')
+  `),
+  deleteByResort: db.prepare(`
+    DELETE FROM drive_times WHERE resort_id = ?
   `)
 };
 
 // Prepared statements for conditions
 export const conditionStatements = {
   insertOrUpdate: db.prepare(`
-    INSERT OR REPLACE INTO resort_conditions (resort_id, mountain_depth, valley_depth, new_snow, lifts_open, lifts_total, last_update)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO resort_conditions (resort_id, mountain_depth, valley_depth, new_snow, lifts_open, lifts_total, last_update, provenance, disagreements)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `),
   getByResort: db.prepare(`
     SELECT * FROM resort_conditions WHERE resort_id = ?
@@ -72,45 +52,271 @@ export const conditionStatements = {
   `)
 };
 
-// Initialize mock database with some sample data
-mockDb.resorts = [
-  {
-    id: "engelberg-titlis",
-    name: "Engelberg Titlis",
-    bergfex_id: "engelberg-titlis",
-    latitude: 46.8217,
-    longitude: 8.4017,
-    priority: 10,
-    difficulty: "mixed",
-    has_park: true,
-    has_night_riding: false,
-    season_status: "OPEN"
-  },
-  {
-    id: "saas-fee",
-    name: "Saas-Fee",
-    bergfex_id: "saas-fee",
-    latitude: 46.1080,
-    longitude: 7.9276,
-    priority: 9,
-    difficulty: "mixed",
-    has_park: true,
-    has_night_riding: false,
-    season_status: "OPEN"
-  },
-  {
-    id: "zermatt",
-    name: "Zermatt",
-    bergfex_id: "zermatt",
-    latitude: 46.0244,
-    longitude: 7.7486,
-    priority: 10,
-    difficulty: "advanced",
-    has_park: true,
-    has_night_riding: false,
-    season_status: "OPEN"
-  }
-];
+// Prepared statements for the resort catalogue (curated seed list + resorts discovered by scraping)
+export const resortStatements = {
+  // Seed fields win over existing rows; season status, dates and metadata stay scraper-owned
+  upsertSeed: db.prepare(`
+    INSERT INTO resorts (id, bergfex_id, bergfex_name, name, aliases, lat, lng, season_status, opening_date, closing_date,
+                         priority, difficulty, has_park, has_night_riding, is_curated, coordinates_source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 'curated')
+    ON CONFLICT(id) DO UPDATE SET
+      bergfex_id = excluded.bergfex_id,
+      bergfex_name = excluded.bergfex_name,
+      name = excluded.name,
+      aliases = excluded.aliases,
+      lat = excluded.lat,
+      lng = excluded.lng,
+      coordinates_source = 'curated',
+      opening_date = COALESCE(resorts.opening_date, excluded.opening_date),
+      closing_date = COALESCE(resorts.closing_date, excluded.closing_date),
+      priority = excluded.priority,
+      difficulty = excluded.difficulty,
+      has_park = excluded.has_park,
+      has_night_riding = excluded.has_night_riding,
+      is_curated = 1,
+      updated_at = CURRENT_TIMESTAMP
+  `),
+  insertDiscovered: db.prepare(`
+    INSERT OR IGNORE INTO resorts (id, bergfex_id, bergfex_name, name, season_status, is_curated)
+    VALUES (?, ?, ?, ?, ?, 0)
+  `),
+  getAll: db.prepare(`
+    SELECT * FROM resorts ORDER BY priority DESC, name ASC
+  `),
+  getCurated: db.prepare(`
+    SELECT * FROM resorts WHERE is_curated = 1 ORDER BY priority DESC, name ASC
+  `),
+  getById: db.prepare(`
+    SELECT * FROM resorts WHERE id = ?
+  `),
+  getByBergfexName: db.prepare(`
+    SELECT * FROM resorts WHERE bergfex_name = ? COLLATE NOCASE ORDER BY is_curated DESC LIMIT 1
+  `),
+  updateSeasonStatus: db.prepare(`
+    UPDATE resorts SET season_status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `),
+  updateMetadata: db.prepare(`
+    UPDATE resorts SET
+      elevation = COALESCE(?, elevation),
+      pistes_km = COALESCE(?, pistes_km),
+      lifts_total = COALESCE(?, lifts_total),
+      price = COALESCE(?, price),
+      metadata_updated_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `),
+  updateDetailUrl: db.prepare(`
+    UPDATE resorts SET detail_url = ? WHERE id = ? AND (detail_url IS NULL OR detail_url != ?)
+  `),
+  // Resorts without coordinates, skipping ones that failed geocoding in the last week
+  getUngeocoded: db.prepare(`
+    SELECT * FROM resorts
+    WHERE lat IS NULL AND (geocoded_at IS NULL OR geocoded_at < datetime('now', '-7 days'))
+    ORDER BY geocoded_at IS NOT NULL, name ASC
+    LIMIT ?
+  `),
+  updateCoordinates: db.prepare(`
+    UPDATE resorts SET lat = ?, lng = ?, coordinates_source = ?, geocoded_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `),
+  markGeocodeAttempt: db.prepare(`
+    UPDATE resorts SET geocoded_at = CURRENT_TIMESTAMP WHERE id = ?
+  `),
+  // Resorts with a bergfex page whose details are missing or older than a week (curated first)
+  getDetailsDue: db.prepare(`
+    SELECT * FROM resorts
+    WHERE detail_url IS NOT NULL AND (details_scraped_at IS NULL OR details_scraped_at < datetime('now', '-7 days'))
+    ORDER BY is_curated DESC, details_scraped_at IS NOT NULL, priority DESC
+    LIMIT ?
+  `),
+  // Page values fill in, but never erase, what we already know
+  updateDetails: db.prepare(`
+    UPDATE resorts SET
+      hours_weekdays = COALESCE(?, hours_weekdays),
+      hours_weekends = COALESCE(?, hours_weekends),
+      hours_notes = COALESCE(?, hours_notes),
+      opening_date = COALESCE(?, opening_date),
+      closing_date = COALESCE(?, closing_date),
+      today_status = ?,
+      today_status_date = ?,
+      details_scraped_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `),
+  markDetailsAttempt: db.prepare(`
+    UPDATE resorts SET details_scraped_at = CURRENT_TIMESTAMP WHERE id = ?
+  `),
+  countUnlocated: db.prepare(`
+    SELECT COUNT(*) AS count FROM resorts WHERE lat IS NULL
+  `),
+  deleteDiscovered: db.prepare(`
+    DELETE FROM resorts WHERE is_curated = 0
+  `),
+  count: db.prepare(`
+    SELECT COUNT(*) AS count FROM resorts
+  `)
+};
+
+// Prepared statements for calculated scores (latest per resort and scoring profile, breakdown as JSON)
+export const scoreStatements = {
+  upsert: db.prepare(`
+    INSERT OR REPLACE INTO scores (resort_id, profile, score, status, reason, breakdown, calculated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `),
+  getByResort: db.prepare(`
+    SELECT * FROM scores WHERE resort_id = ? AND profile = ?
+  `),
+  count: db.prepare(`
+    SELECT COUNT(*) as count FROM scores
+  `)
+};
+
+// Prepared statements for conditions history (append-only, never pruned)
+export const historyStatements = {
+  insert: db.prepare(`
+    INSERT INTO conditions_history (resort_id, mountain_depth, valley_depth, new_snow, lifts_open, lifts_total, reported_at, recorded_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+  getByResortSince: db.prepare(`
+    SELECT * FROM conditions_history
+    WHERE resort_id = ? AND recorded_at >= ?
+    ORDER BY recorded_at ASC
+  `),
+  // bergfex repeats the same report across scrapes, so count each report once
+  sumNewSnowSince: db.prepare(`
+    SELECT COALESCE(SUM(new_snow), 0) AS total FROM (
+      SELECT MAX(COALESCE(new_snow, 0)) AS new_snow
+      FROM conditions_history
+      WHERE resort_id = ? AND COALESCE(reported_at, recorded_at) >= ?
+      GROUP BY COALESCE(reported_at, recorded_at)
+    )
+  `),
+  // A storm starts at the first reading with new snow after the last dry reading
+  getStormStart: db.prepare(`
+    SELECT MIN(recorded_at) AS storm_start FROM conditions_history
+    WHERE resort_id = ?1 AND COALESCE(new_snow, 0) > 0
+      AND recorded_at > COALESCE(
+        (SELECT MAX(recorded_at) FROM conditions_history WHERE resort_id = ?1 AND COALESCE(new_snow, 0) = 0),
+        ''
+      )
+  `),
+  count: db.prepare(`
+    SELECT COUNT(*) AS count FROM conditions_history
+  `)
+};
+
+// Prepared statements for daily snapshots (one row per resort and Swiss calendar day)
+export const snapshotStatements = {
+  // Latest reading of the day wins, except new snow which keeps the day's maximum
+  upsert: db.prepare(`
+    INSERT INTO daily_snapshots (resort_id, day, mountain_depth, valley_depth, new_snow, lifts_open, lifts_total, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(resort_id, day) DO UPDATE SET
+      mountain_depth = excluded.mountain_depth,
+      valley_depth = excluded.valley_depth,
+      new_snow = MAX(COALESCE(daily_snapshots.new_snow, 0), COALESCE(excluded.new_snow, 0)),
+      lifts_open = excluded.lifts_open,
+      lifts_total = excluded.lifts_total,
+      updated_at = excluded.updated_at
+  `),
+  getByResortSince: db.prepare(`
+    SELECT * FROM daily_snapshots WHERE resort_id = ? AND day >= ? ORDER BY day ASC
+  `)
+};
+
+// Prepared statements for named drive origins
+export const originStatements = {
+  insertIfMissing: db.prepare(`
+    INSERT OR IGNORE INTO origins (name, label, lat, lng, aliases, is_adhoc)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `),
+  getByName: db.prepare(`
+    SELECT * FROM origins WHERE name = ?
+  `),
+  getAll: db.prepare(`
+    SELECT * FROM origins ORDER BY is_adhoc ASC, name ASC
+  `)
+};
+
+// Prepared statements for weather forecasts (one row per resort and forecast day)
+export const forecastStatements = {
+  upsert: db.prepare(`
+    INSERT OR REPLACE INTO forecasts (resort_id, forecast_date, lat, lng, snowfall_cm, temp_min, temp_max, wind_max, freezing_level, provider, fetched_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `),
+  getByResortFrom: db.prepare(`
+    SELECT * FROM forecasts WHERE resort_id = ? AND forecast_date >= ? ORDER BY forecast_date ASC
+  `),
+  deleteBefore: db.prepare(`
+    DELETE FROM forecasts WHERE forecast_date < ?
+  `)
+};
+
+// Prepared statements for snow quality ratings (0-10, one row per resort and day)
+export const qualityStatements = {
+  upsert: db.prepare(`
+    INSERT OR REPLACE INTO snow_quality (resort_id, rating_date, powder, freestyle, source, recorded_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `),
+  getByResortDate: db.prepare(`
+    SELECT * FROM snow_quality WHERE resort_id = ? AND rating_date = ?
+  `),
+  deleteBefore: db.prepare(`
+    DELETE FROM snow_quality WHERE rating_date < ?
+  `)
+};
+
+// Prepared statements for per-chat user preferences
+export const userStatements = {
+  getByChatId: db.prepare(`
+    SELECT * FROM users WHERE chat_id = ?
+  `),
+  upsert: db.prepare(`
+    INSERT INTO users (chat_id, home_name, home_lat, home_lng, max_drive_time, min_score, result_count, favourite_resorts, riding_style, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(chat_id) DO UPDATE SET
+      home_name = excluded.home_name,
+      home_lat = excluded.home_lat,
+      home_lng = excluded.home_lng,
+      max_drive_time = excluded.max_drive_time,
+      min_score = excluded.min_score,
+      result_count = excluded.result_count,
+      favourite_resorts = excluded.favourite_resorts,
+      riding_style = excluded.riding_style,
+      updated_at = CURRENT_TIMESTAMP
+  `),
+  count: db.prepare(`
+    SELECT COUNT(*) AS count FROM users
+  `)
+};
+
+// Prepared statements for powder alert subscriptions
+export const alertStatements = {
+  upsertSubscription: db.prepare(`
+    INSERT INTO alert_subscriptions (chat_id, min_score, min_new_snow, quiet_start, quiet_end, active, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(chat_id) DO UPDATE SET
+      min_score = excluded.min_score,
+      min_new_snow = excluded.min_new_snow,
+      quiet_start = excluded.quiet_start,
+      quiet_end = excluded.quiet_end,
+      active = excluded.active,
+      updated_at = CURRENT_TIMESTAMP
+  `),
+  getSubscription: db.prepare(`
+    SELECT * FROM alert_subscriptions WHERE chat_id = ?
+  `),
+  getActiveSubscriptions: db.prepare(`
+    SELECT * FROM alert_subscriptions WHERE active = 1
+  `),
+  hasAlerted: db.prepare(`
+    SELECT 1 FROM alert_log WHERE chat_id = ? AND resort_id = ? AND storm_started_at = ?
+  `),
+  logAlert: db.prepare(`
+    INSERT OR IGNORE INTO alert_log (chat_id, resort_id, storm_started_at, score, new_snow, sent_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+};
 
 // Mock drive times (from Hedingen)
 mockDb.driveTimes = [
@@ -153,13 +359,24 @@ mockDb.conditions = [
   }
 ];
 
+// Prepared statements for scraped page layouts (drift detection)
+export const layoutStatements = {
+  insert: db.prepare(`
+    INSERT INTO scrape_layouts (source, headers, row_count, empty_rows, recorded_at)
+    VALUES (?, ?, ?, ?, ?)
+  `),
+  getLatest: db.prepare(`
+    SELECT * FROM scrape_layouts WHERE source = ? ORDER BY recorded_at DESC, id DESC LIMIT 1
+  `),
+  deleteOld: db.prepare(`
+    DELETE FROM scrape_layouts WHERE recorded_at < ?
+  `)
+};
+
 export default db;
 
 // Mock prepared statements
 export const statements = {
-  getAllResorts: {
-    all: () => mockDb.resorts
-  },
   getLatestConditions: {
     get: (resortId: string) => mockDb.conditions.find(c => c.resort_id === resortId) || null
   },
@@ -0,0 +1,505 @@
+import type { Database } from "bun:sqlite";
+import { calculateDistance } from "../utils/geo.js";
+import { SEED_RESORTS } from "../data/seedResorts.js";
+
+/**
+ * Versioned schema migrations for iceking.db
+ * Each migration runs once, in order, inside its own transaction; schema_version records what ran
+ * Never edit a migration that has shipped - add a new one instead
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database): void;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean; // apply pending migrations, then roll everything back
+}
+
+export interface MigrationResult {
+  from: number;
+  to: number;
+  applied: Migration[];
+  dryRun: boolean;
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some(c => c.name === column);
+}
+
+// Preset origins as of migration 17 - the origins table is only filled after migrations run
+const PRESET_ORIGIN_COORDINATES: Record<string, { lat: number; lng: number }> = {
+  'Hedingen': { lat: 47.2981, lng: 8.4483 },
+  'Zürich': { lat: 47.3769, lng: 8.5417 },
+  'Bern': { lat: 46.9480, lng: 7.4474 },
+  'Basel': { lat: 47.5596, lng: 7.5886 },
+  'Luzern': { lat: 47.0502, lng: 8.3093 },
+  'St. Gallen': { lat: 47.4245, lng: 9.3767 },
+  'Winterthur': { lat: 47.4988, lng: 8.7237 },
+  'Zug': { lat: 47.1662, lng: 8.5155 },
+  'Aarau': { lat: 47.3925, lng: 8.0442 }
+};
+
+// Early migrations use IF NOT EXISTS so databases created before versioning adopt them unchanged
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'drive times and conditions',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS drive_times (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          resort_id TEXT NOT NULL,
+          origin TEXT NOT NULL DEFAULT 'Hedingen',
+          drive_time_minutes INTEGER NOT NULL,
+          distance_km REAL NOT NULL,
+          cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(resort_id, origin)
+        );
+
+        CREATE TABLE IF NOT EXISTS resort_conditions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          resort_id TEXT NOT NULL,
+          mountain_depth INTEGER,
+          valley_depth INTEGER,
+          new_snow INTEGER,
+          lifts_open INTEGER,
+          lifts_total INTEGER,
+          last_update DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(resort_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_drive_times_resort_origin ON drive_times(resort_id, origin);
+        CREATE INDEX IF NOT EXISTS idx_conditions_resort ON resort_conditions(resort_id);
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'conditions history and daily snapshots',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS conditions_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          resort_id TEXT NOT NULL,
+          mountain_depth INTEGER,
+          valley_depth INTEGER,
+          new_snow INTEGER,
+          lifts_open INTEGER,
+          lifts_total INTEGER,
+          reported_at DATETIME,
+          recorded_at DATETIME NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS daily_snapshots (
+          resort_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          mountain_depth INTEGER,
+          valley_depth INTEGER,
+          new_snow INTEGER,
+          lifts_open INTEGER,
+          lifts_total INTEGER,
+          updated_at DATETIME NOT NULL,
+          PRIMARY KEY (resort_id, day)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_history_resort_recorded ON conditions_history(resort_id, recorded_at);
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'users',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          chat_id INTEGER PRIMARY KEY,
+          home_name TEXT NOT NULL DEFAULT 'Hedingen',
+          home_lat REAL NOT NULL DEFAULT 47.2981,
+          home_lng REAL NOT NULL DEFAULT 8.4483,
+          max_drive_time INTEGER NOT NULL DEFAULT 180,
+          min_score INTEGER NOT NULL DEFAULT 10,
+          result_count INTEGER NOT NULL DEFAULT 5,
+          favourite_resorts TEXT NOT NULL DEFAULT '[]',
+          riding_style TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: 'origins',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS origins (
+          name TEXT PRIMARY KEY,
+          label TEXT,
+          lat REAL NOT NULL,
+          lng REAL NOT NULL,
+          aliases TEXT NOT NULL DEFAULT '[]',
+          is_adhoc INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'alert subscriptions and log',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS alert_subscriptions (
+          chat_id INTEGER PRIMARY KEY,
+          min_score INTEGER NOT NULL DEFAULT 75,
+          min_new_snow INTEGER NOT NULL DEFAULT 10,
+          quiet_start TEXT,
+          quiet_end TEXT,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS alert_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chat_id INTEGER NOT NULL,
+          resort_id TEXT NOT NULL,
+          storm_started_at TEXT NOT NULL,
+          score REAL NOT NULL,
+          new_snow INTEGER,
+          sent_at DATETIME NOT NULL,
+          UNIQUE(chat_id, resort_id, storm_started_at)
+        );
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'forecasts',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS forecasts (
+          resort_id TEXT NOT NULL,
+          forecast_date TEXT NOT NULL,
+          lat REAL NOT NULL,
+          lng REAL NOT NULL,
+          snowfall_cm REAL,
+          temp_min REAL,
+          temp_max REAL,
+          wind_max REAL,
+          freezing_level REAL,
+          provider TEXT NOT NULL,
+          fetched_at DATETIME NOT NULL,
+          PRIMARY KEY (resort_id, forecast_date)
+        );
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'scores',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scores (
+          resort_id TEXT NOT NULL,
+          profile TEXT NOT NULL DEFAULT 'default',
+          score REAL NOT NULL,
+          status TEXT NOT NULL,
+          reason TEXT,
+          breakdown TEXT,
+          calculated_at DATETIME NOT NULL,
+          PRIMARY KEY (resort_id, profile)
+        );
+      `);
+
+      // Scores were briefly keyed by riding style before scoring profiles existed
+      if (hasColumn(db, 'scores', 'riding_style')) {
+        db.exec(`ALTER TABLE scores RENAME COLUMN riding_style TO profile`);
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'resort catalogue',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS resorts (
+          id TEXT PRIMARY KEY,
+          bergfex_id TEXT,
+          bergfex_name TEXT NOT NULL,
+          name TEXT NOT NULL,
+          aliases TEXT NOT NULL DEFAULT '[]',
+          lat REAL,
+          lng REAL,
+          season_status TEXT NOT NULL DEFAULT 'OPEN',
+          opening_date TEXT,
+          closing_date TEXT,
+          hours_weekdays TEXT,
+          hours_weekends TEXT,
+          hours_notes TEXT,
+          priority INTEGER NOT NULL DEFAULT 3,
+          difficulty TEXT NOT NULL DEFAULT 'mixed',
+          has_park INTEGER NOT NULL DEFAULT 0,
+          has_night_riding INTEGER NOT NULL DEFAULT 0,
+          elevation INTEGER,
+          pistes_km REAL,
+          lifts_total INTEGER,
+          price TEXT,
+          metadata_updated_at DATETIME,
+          is_curated INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_resorts_bergfex_name ON resorts(bergfex_name COLLATE NOCASE);
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: 'resort geocoding',
+    up(db) {
+      db.exec(`
+        ALTER TABLE resorts ADD COLUMN detail_url TEXT;
+        ALTER TABLE resorts ADD COLUMN coordinates_source TEXT;
+        ALTER TABLE resorts ADD COLUMN geocoded_at DATETIME;
+
+        UPDATE resorts SET coordinates_source = 'curated' WHERE is_curated = 1 AND lat IS NOT NULL;
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'resort page details',
+    up(db) {
+      db.exec(`
+        ALTER TABLE resorts ADD COLUMN today_status TEXT;
+        ALTER TABLE resorts ADD COLUMN today_status_date TEXT;
+        ALTER TABLE resorts ADD COLUMN details_scraped_at DATETIME;
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'scrape layouts',
+    up(db) {
+      db.exec(`
+        CREATE TABLE scrape_layouts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source TEXT NOT NULL,
+          headers TEXT NOT NULL,
+          row_count INTEGER NOT NULL,
+          empty_rows INTEGER NOT NULL,
+          recorded_at DATETIME NOT NULL
+        );
+
+        CREATE INDEX idx_scrape_layouts_source ON scrape_layouts(source, recorded_at);
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'conditions provenance',
+    up(db) {
+      db.exec(`
+        ALTER TABLE resort_conditions ADD COLUMN provenance TEXT;
+        ALTER TABLE resort_conditions ADD COLUMN disagreements TEXT;
+      `);
+    }
+  },
+  {
+    version: 13,
+    name: 'snow quality ratings',
+    up(db) {
+      db.exec(`
+        CREATE TABLE snow_quality (
+          resort_id TEXT NOT NULL,
+          rating_date TEXT NOT NULL,
+          powder REAL,
+          freestyle REAL,
+          source TEXT NOT NULL,
+          recorded_at DATETIME NOT NULL,
+          PRIMARY KEY (resort_id, rating_date)
+        );
+      `);
+    }
+  },
+  {
+    version: 14,
+    name: 'drop straight-line drive time estimates',
+    up(db) {
+      // The old offline fallback cached its guesses with the straight-line distance (rounded to 0.1 km);
+      // Google results never match it, so only those rows go and the road graph takes over
+      const rows = db.query(`
+        SELECT d.id, d.distance_km, o.lat AS origin_lat, o.lng AS origin_lng, r.lat AS resort_lat, r.lng AS resort_lng
+        FROM drive_times d
+        JOIN origins o ON o.name = d.origin
+        JOIN resorts r ON r.id = d.resort_id
+        WHERE r.lat IS NOT NULL AND r.lng IS NOT NULL
+      `).all() as Array<{ id: number; distance_km: number; origin_lat: number; origin_lng: number; resort_lat: number; resort_lng: number }>;
+
+      const remove = db.prepare('DELETE FROM drive_times WHERE id = ?');
+      for (const row of rows) {
+        const straight = Math.round(calculateDistance(row.origin_lat, row.origin_lng, row.resort_lat, row.resort_lng) * 10) / 10;
+        if (Math.abs(straight - row.distance_km) <= 0.1) remove.run(row.id);
+      }
+    }
+  },
+  {
+    version: 15,
+    name: 'scores keyed by scoring profile',
+    up(db) {
+      // Migration 7 renamed a riding_style key to profile in place, keeping its '' default and '' rows;
+      // a revised copy of it kept riding_style. Rebuild from whichever column is there so both end up alike
+      // ('' was "no riding style"; park, powder and beginner are profile names too). Where a resort has
+      // both a '' and a 'default' row, the newer one wins
+      const key = hasColumn(db, 'scores', 'riding_style') ? 'riding_style' : 'profile';
+      db.exec(`
+        CREATE TABLE scores_by_profile (
+          resort_id TEXT NOT NULL,
+          profile TEXT NOT NULL DEFAULT 'default',
+          score REAL NOT NULL,
+          status TEXT NOT NULL,
+          reason TEXT,
+          breakdown TEXT,
+          calculated_at DATETIME NOT NULL,
+          PRIMARY KEY (resort_id, profile)
+        );
+        INSERT OR REPLACE INTO scores_by_profile (resort_id, profile, score, status, reason, breakdown, calculated_at)
+          SELECT resort_id, CASE WHEN ${key} = '' THEN 'default' ELSE ${key} END,
+                 score, status, reason, breakdown, calculated_at
+          FROM scores
+          ORDER BY calculated_at;
+        DROP TABLE scores;
+        ALTER TABLE scores_by_profile RENAME TO scores;
+      `);
+    }
+  },
+  {
+    version: 16,
+    name: 'drive time sources',
+    up(db) {
+      // Road graph results are cached next to Google's; rows cached so far were taken for Google's
+      // (migration 17 corrects that)
+      db.exec(`
+        ALTER TABLE drive_times ADD COLUMN source TEXT NOT NULL DEFAULT 'google';
+        ALTER TABLE drive_times ADD COLUMN route TEXT;
+      `);
+    }
+  },
+  {
+    version: 17,
+    name: 'recheck drive time estimates without seeded tables',
+    up(db) {
+      // Migration 14 looked coordinates up in origins and resorts, which are seeded after migrations run,
+      // so upgraded databases kept their straight-line guesses and migration 16 labelled them google.
+      // Check again with the built-in coordinates, plus whatever the tables already hold
+      const origins = new Map(Object.entries(PRESET_ORIGIN_COORDINATES));
+      for (const row of db.query(`SELECT name, lat, lng FROM origins`).all() as Array<{ name: string; lat: number; lng: number }>) {
+        origins.set(row.name, { lat: row.lat, lng: row.lng });
+      }
+      const resorts = new Map(SEED_RESORTS.map(seed => [seed.internalId, seed.resort.coordinates]));
+      for (const row of db.query(`SELECT id, lat, lng FROM resorts WHERE lat IS NOT NULL AND lng IS NOT NULL`).all() as Array<{ id: string; lat: number; lng: number }>) {
+        resorts.set(row.id, { lat: row.lat, lng: row.lng });
+      }
+
+      const rows = db.query(`SELECT id, resort_id, origin, distance_km FROM drive_times`).all() as Array<{ id: number; resort_id: string; origin: string; distance_km: number }>;
+      const remove = db.prepare('DELETE FROM drive_times WHERE id = ?');
+      for (const row of rows) {
+        // Shared locations carry their coordinates in the name: "loc:47.377,8.542"
+        const shared = row.origin.match(/^loc:(-?[\d.]+),(-?[\d.]+)$/);
+        const origin = shared ? { lat: Number(shared[1]), lng: Number(shared[2]) } : origins.get(row.origin);
+        const resort = resorts.get(row.resort_id);
+        if (!origin || !resort) continue;
+
+        const straight = Math.round(calculateDistance(origin.lat, origin.lng, resort.lat, resort.lng) * 10) / 10;
+        if (Math.abs(straight - row.distance_km) <= 0.1) remove.run(row.id);
+      }
+
+      // Rows cached before migration 16 have no route and may still be guesses for resorts or origins
+      // not known here - they stop counting as Google results and get looked up again
+      db.exec(`UPDATE drive_times SET source = 'legacy' WHERE route IS NULL`);
+    }
+  }
+];
+
+function ensureVersionTable(db: Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME NOT NULL
+    )
+  `);
+}
+
+/**
+ * Highest applied migration (0 for a fresh database)
+ */
+export function getSchemaVersion(db: Database): number {
+  ensureVersionTable(db);
+  const row = db.query(`SELECT MAX(version) AS version FROM schema_version`).get() as { version: number | null } | null;
+  return row?.version ?? 0;
+}
+
+/**
+ * Migrations newer than the database, in order
+ */
+export function getPendingMigrations(db: Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const current = getSchemaVersion(db);
+  return migrations
+    .filter(m => m.version > current)
+    .sort((a, b) => a.version - b.version);
+}
+
+function applyMigration(db: Database, migration: Migration): void {
+  migration.up(db);
+  db.query(`INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)`)
+    .run(migration.version, migration.name, new Date().toISOString());
+}
+
+/**
+ * Bring the database up to the latest version
+ * A failing migration rolls back on its own and stops the run; earlier migrations stay applied
+ * Dry runs apply everything inside one transaction and roll it back, so broken SQL still shows up
+ */
+export function runMigrations(db: Database, options: MigrationOptions = {}, migrations: Migration[] = MIGRATIONS): MigrationResult {
+  const dryRun = options.dryRun ?? false;
+  const from = getSchemaVersion(db);
+  const pending = getPendingMigrations(db, migrations);
+  const applied: Migration[] = [];
+
+  if (pending.length === 0) {
+    return { from, to: from, applied, dryRun };
+  }
+
+  if (dryRun) {
+    db.exec('BEGIN');
+    try {
+      for (const migration of pending) {
+        applyMigration(db, migration);
+        applied.push(migration);
+      }
+    } finally {
+      db.exec('ROLLBACK');
+    }
+
+    return { from, to: applied[applied.length - 1]!.version, applied, dryRun };
+  }
+
+  for (const migration of pending) {
+    try {
+      db.transaction(() => applyMigration(db, migration))();
+      applied.push(migration);
+      console.log(`🗄️ Applied migration ${migration.version}: ${migration.name}`);
+    } catch (error) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { from, to: getSchemaVersion(db), applied, dryRun };
+}
@@ -1,7 +1,21 @@
-import { Bot } from "gramio";
-import { getRecommendations, getResortDetails, getClosedResorts, formatRecommendations, formatRecommendation } from './services/recommendations.js';
+import { Bot, InlineKeyboard, MediaUpload } from "gramio";
+import { getRecommendations, getResortDetails, getClosedResorts, getDayPlan, formatRecommendations, formatRecommendation, formatClosedResorts, formatResortDetails, formatScoreComparison, formatDayPlan } from './services/recommendations.js';
 import { DataStorageService } from './services/dataStorage.js';
-import { scrapeAllBergfexConditions, scrapeBergfexResortMetadata } from './scrapers/bergfex.js';
+import { scheduler } from './services/scheduler.js';
+import { registerScrapeJob, getLastScrapeSummary, SCRAPE_JOB_NAME } from './services/scrapeJob.js';
+import { formatSwissTime } from './utils/time.js';
+import { findResort, searchResorts } from './services/resortMapping.js';
+import { getResortTrend, formatTrend, renderTrendChartPng } from './services/trends.js';
+import { UserPreferencesService } from './services/userPreferences.js';
+import { renderSettingsMenu, handleSettingsAction, SETTINGS_CALLBACK_PATTERN } from './services/settingsMenu.js';
+import { findOrigin, createLocationOrigin } from './services/origins.js';
+import { getForecastProvider, refreshResortForecast, formatForecast } from './services/forecast.js';
+import { getIntentParser, parsePlanDay, MAX_PLAN_DAYS } from './services/queryParser.js';
+import { isScoringProfile } from './services/scoringProfiles.js';
+import { AlertService, createBotAlertSender, registerAlertJobs, parseSubscribeArgs } from './services/alerts.js';
+import { registerDriftReporter } from './services/scrapeDrift.js';
+import { startApiServer } from './services/api.js';
+import { buildExport, parseExportArgs, describeExport } from './services/exporters.js';
 
 // Initialize the bot with token from environment variable
 const bot = new Bot(process.env.TELEGRAM_BOT_TOKEN || "");
@@ -17,15 +31,32 @@ DataStorageService.initializePersistentDriveTimes().then(() => {
   console.error('❌ Drive time initialization failed:', error);
 });
 
+// Register scheduled scraping and powder alerts (timers start once the bot is up)
+registerScrapeJob();
+registerAlertJobs(createBotAlertSender(bot));
+registerDriftReporter(createBotAlertSender(bot));
+
+// Local JSON API for dashboards and shortcuts (only when API_PORT is set)
+const apiServer = startApiServer();
+
 // Commands
 bot
     .command("start", (context) => {
         return context.send(
             "🏔️ *IceKing - Your Swiss Snowboard Advisor*\n\n" +
-            "Get real-time snowboarding recommendations for weekday rides from Hedingen.\n\n" +
+            "Get real-time snowboarding recommendations for weekday rides from your home (Hedingen until you change it in /settings).\n\n" +
             "Available commands:\n" +
-            "/recs - Get today's top recommendations\n" +
+            "/recs [profile] [origin] - Get today's top recommendations\n" +
+            "/plan <day> - Plan a day and when to leave\n" +
             "/closed - Show resorts that are closed\n" +
+            "/resort <name> - Conditions, score breakdown and drive for one resort\n" +
+            "/why <resort> [vs <resort>] - Explain a score\n" +
+            "/trend <resort> - 7-day snow and lift trend\n" +
+            "/forecast <resort> - 3-day snow, wind and temperature forecast\n" +
+            "/export [conditions|history|recs|calendar] - CSV, JSON or calendar file\n" +
+            "/settings - Home location, drive limit, favourites\n" +
+            "/subscribe - Powder alerts (score ≥75, new snow ≥10cm)\n" +
+            "/unsubscribe - Stop powder alerts\n" +
             "/scrape - Update snow conditions\n" +
             "/stats - Show database statistics\n" +
             "/help - Show all commands"
@@ -33,7 +64,26 @@ bot
     })
     .command("recs", async (context) => {
         try {
-            const result = await getRecommendations({ maxDriveTime: 180, limit: 5 });
+            const preferences = UserPreferencesService.get(context.chatId);
+            const options = UserPreferencesService.toRecommendationOptions(preferences);
+
+            // "/recs powder Bern" ranks with another profile and/or origin without changing settings
+            let originQuery = context.args?.trim() || "";
+            const [firstWord = "", ...rest] = originQuery.split(/\s+/);
+            if (isScoringProfile(firstWord)) {
+                options.profile = firstWord.toLowerCase();
+                originQuery = rest.join(" ");
+            }
+
+            if (originQuery) {
+                const origin = findOrigin(originQuery);
+                if (!origin) {
+                    return context.send(`❓ Unknown origin "${originQuery}". Try e.g. /recs Bern or /recs powder Basel, or share your location.`);
+                }
+                options.origin = origin;
+            }
+
+            const result = await getRecommendations(options);
             const message = formatRecommendations(result);
             return context.send(message);
         } catch (error) {
@@ -41,41 +91,230 @@ bot
             return context.send("❌ Sorry, couldn't get recommendations right now. Try again later!");
         }
     })
+    .command("plan", async (context) => {
+        const query = context.args?.trim() || "";
+        const day = parsePlanDay(query);
+        if (!day) {
+            return context.send(
+                `Usage: /plan <day>, e.g. /plan friday, /plan tomorrow or /plan 24.1.\n` +
+                `Any day from today up to ${MAX_PLAN_DAYS} days ahead.`
+            );
+        }
+
+        try {
+            const options = UserPreferencesService.toRecommendationOptions(UserPreferencesService.get(context.chatId));
+            const result = await getDayPlan(day, options);
+            return context.send(formatDayPlan(result, day));
+        } catch (error) {
+            console.error("Error planning day:", error);
+            return context.send("❌ Sorry, couldn't plan that day right now. Try again later!");
+        }
+    })
     .command("closed", async (context) => {
         try {
-            const closed = await getClosedResorts();
+            const { origin } = UserPreferencesService.toRecommendationOptions(UserPreferencesService.get(context.chatId));
+            const closed = await getClosedResorts(origin);
             if (closed.length === 0) {
                 return context.send("✅ All tracked resorts are currently open!");
             }
 
-            let message = "❌ CLOSED FOR SEASON\n\n";
-            closed.forEach((rec, i) => {
-                const opening = rec.resort.openingDate
-                    ? `Opens: ${rec.resort.openingDate.toLocaleDateString()}`
-                    : "Opening date unknown";
-                message += `${i + 1}. ${rec.resort.name}\n📅 ${opening}\n\n`;
-            });
-
-            return context.send(message);
+            return context.send(formatClosedResorts(closed));
         } catch (error) {
             console.error("Error getting closed resorts:", error);
             return context.send("❌ Sorry, couldn't check closed resorts.");
         }
     })
-    .command("scrape", async (context) => {
+    .command("resort", async (context) => {
+        const query = context.args?.trim();
+        if (!query) {
+            return context.send("Usage: /resort <name>, e.g. /resort titlis");
+        }
+
         try {
-            await context.send("🌐 Scraping latest snow conditions and resort metadata...");
+            const resort = findResort(query);
+            if (!resort) {
+                return context.send(`❓ No resort found for "${query}". Try the name as shown in /recs.`);
+            }
+
+            const preferences = UserPreferencesService.get(context.chatId);
+            const { origin, profile } = UserPreferencesService.toRecommendationOptions(preferences);
+            const details = await getResortDetails(resort.internalId, origin, profile);
+            if (!details) {
+                return context.send(`❌ Couldn't load ${resort.resort.name} right now.`);
+            }
+            details.isFavourite = preferences.favouriteResorts.includes(resort.internalId);
 
-            // Clean up expired data before storing new data
-            DataStorageService.cleanupExpiredData();
+            // Mention close alternatives when the query was ambiguous ("davos")
+            const others = searchResorts(query, 3).filter(r => r.internalId !== resort.internalId);
+            const alsoMatched = others.length > 0
+                ? `\n\n🔎 Also matching: ${others.map(r => r.resort.name).join(", ")}`
+                : "";
 
-            // Scrape snow conditions from schneewerte page
-            const snowData = await scrapeAllBergfexConditions();
-            DataStorageService.storeBergfexConditions(snowData);
+            return context.send(formatResortDetails(details, origin) + alsoMatched);
+        } catch (error) {
+            console.error("Error getting resort details:", error);
+            return context.send("❌ Couldn't load resort details right now.");
+        }
+    })
+    .command("why", async (context) => {
+        const query = context.args?.trim();
+        if (!query) {
+            return context.send("Usage: /why <resort> [vs <resort>], e.g. /why zermatt vs titlis");
+        }
 
-            // Scrape comprehensive metadata from main page
-            const metadata = await scrapeBergfexResortMetadata();
-            DataStorageService.storeResortMetadata(metadata);
+        try {
+            const names = query.split(/\s+vs\.?\s+/i).slice(0, 2);
+            const resorts = names.map(name => findResort(name));
+            const missing = names.find((_, i) => !resorts[i]);
+            if (missing) {
+                return context.send(`❓ No resort found for "${missing}".`);
+            }
+
+            const { origin, profile } = UserPreferencesService.toRecommendationOptions(UserPreferencesService.get(context.chatId));
+            const details = await Promise.all(resorts.map(resort => getResortDetails(resort!.internalId, origin, profile)));
+            if (details.some(d => !d)) {
+                return context.send("❌ Couldn't score that right now.");
+            }
+
+            const [first, second] = details;
+            if (!second) {
+                return context.send(formatRecommendation(first!, { explain: true }));
+            }
+
+            return context.send(
+                `${formatScoreComparison(first!, second)}\n\n` +
+                `${formatRecommendation(first!, { explain: true })}\n\n` +
+                `${formatRecommendation(second, { explain: true })}`
+            );
+        } catch (error) {
+            console.error("Error explaining score:", error);
+            return context.send("❌ Couldn't explain the score right now.");
+        }
+    })
+    .command("trend", async (context) => {
+        const query = context.args?.trim();
+        if (!query) {
+            return context.send("Usage: /trend <resort>, e.g. /trend titlis");
+        }
+
+        try {
+            const resort = findResort(query);
+            if (!resort) {
+                return context.send(`❓ No resort found for "${query}". Try the name as shown in /recs.`);
+            }
+
+            const trend = getResortTrend(resort.internalId, resort.resort.name);
+            await context.send(formatTrend(trend));
+
+            const chart = renderTrendChartPng(trend);
+            return context.sendPhoto(MediaUpload.buffer(chart, `trend-${resort.internalId}.png`), {
+                caption: `${resort.resort.name} – 7-day trend`
+            });
+        } catch (error) {
+            console.error("Error building trend:", error);
+            return context.send("❌ Couldn't build the trend right now.");
+        }
+    })
+    .command("forecast", async (context) => {
+        const query = context.args?.trim();
+        if (!query) {
+            return context.send("Usage: /forecast <resort>, e.g. /forecast titlis");
+        }
+
+        try {
+            const resort = findResort(query);
+            if (!resort) {
+                return context.send(`❓ No resort found for "${query}". Try the name as shown in /recs.`);
+            }
+
+            // Forecasts are refreshed with every scrape - fetch on demand if we have none yet
+            const forecast = DataStorageService.getForecast(resort.internalId) || await refreshResortForecast(resort);
+            if (!forecast) {
+                return context.send(`❌ No forecast available for ${resort.resort.name} (${getForecastProvider().name}).`);
+            }
+
+            return context.send(formatForecast(resort.resort.name, forecast));
+        } catch (error) {
+            console.error("Error getting forecast:", error);
+            return context.send("❌ Couldn't get the forecast right now. Try again later!");
+        }
+    })
+    .command("export", async (context) => {
+        const request = parseExportArgs(context.args || "");
+        if ("error" in request) {
+            return context.send(
+                `❓ ${request.error}\n\n` +
+                "Usage: /export [conditions|history|recs|calendar] [csv|json] [resort or day]\n" +
+                "e.g. /export recs, /export conditions json, /export history laax, /export calendar friday"
+            );
+        }
+
+        try {
+            request.options = UserPreferencesService.toRecommendationOptions(UserPreferencesService.get(context.chatId));
+            const file = await buildExport(request);
+            return context.sendDocument(MediaUpload.text(file.content, file.filename), {
+                caption: describeExport(request, file)
+            });
+        } catch (error) {
+            console.error("Error building export:", error);
+            return context.send("❌ Couldn't build that export right now.");
+        }
+    })
+    .command("settings", (context) => {
+        const { text, keyboard } = renderSettingsMenu(UserPreferencesService.get(context.chatId));
+        return context.send(text, { reply_markup: keyboard });
+    })
+    .callbackQuery(SETTINGS_CALLBACK_PATTERN, async (context) => {
+        const chatId = context.message?.chatId ?? context.senderId;
+        try {
+            const [, section = "menu", value] = context.queryData;
+            const { text, keyboard } = handleSettingsAction(chatId, section, value);
+            await context.answer();
+            return context.editText(text, { reply_markup: keyboard });
+        } catch (error) {
+            console.error("Error updating settings:", error);
+            return context.answer("❌ Couldn't save that setting");
+        }
+    })
+    .command("subscribe", (context) => {
+        const changes = parseSubscribeArgs(context.args || "");
+        if (!changes) {
+            return context.send(
+                "Usage: /subscribe [min score] [min new snow cm] [quiet HH:MM-HH:MM]\n" +
+                "e.g. /subscribe 70 15 22:00-07:00, or /subscribe quiet off"
+            );
+        }
+
+        const subscription = AlertService.subscribe(context.chatId, changes);
+        const quiet = subscription.quietStart && subscription.quietEnd
+            ? `${subscription.quietStart}–${subscription.quietEnd}`
+            : "none";
+
+        return context.send(
+            "🔔 Powder alerts on!\n\n" +
+            `• Score ≥${subscription.minScore}\n` +
+            `• New snow ≥${subscription.minNewSnow}cm\n` +
+            `• Quiet hours: ${quiet}\n\n` +
+            "Alerts use your /settings home and max drive time. Each storm is announced once per resort."
+        );
+    })
+    .command("unsubscribe", (context) => {
+        const removed = AlertService.unsubscribe(context.chatId);
+        return context.send(removed ? "🔕 Powder alerts off." : "You weren't subscribed to alerts.");
+    })
+    .command("scrape", async (context) => {
+        try {
+            if (scheduler.isRunning(SCRAPE_JOB_NAME)) {
+                return context.send("⏳ A scrape is already running, try /stats in a minute.");
+            }
+
+            await context.send("🌐 Scraping latest snow conditions and resort metadata...");
+
+            const result = await scheduler.runNow(SCRAPE_JOB_NAME, { retries: 0 });
+            const summary = getLastScrapeSummary();
+            if (!result.success || !summary) {
+                return context.send(`❌ Failed to update data: ${result.error || "unknown error"}`);
+            }
 
             const stats = DataStorageService.getStats();
             return context.send(
@@ -84,7 +323,7 @@ bot
                 `• Resorts tracked: ${stats.resorts}\n` +
                 `• Snow conditions: ${stats.conditions}\n` +
                 `• Drive times cached: ${stats.driveTimes}\n\n` +
-                `Enhanced with ${metadata.length} resort metadata entries!\n\n` +
+                `Enhanced with ${summary.metadata} resort metadata entries, ${summary.resortPages} resort pages, ${summary.geocoded} newly located resorts, ${summary.snowQuality} snow quality ratings and ${summary.forecasts} forecasts!\n\n` +
                 `Use /recs to see improved recommendations!`
             );
         } catch (error) {
@@ -95,13 +334,29 @@ bot
     .command("stats", async (context) => {
         try {
             const stats = DataStorageService.getStats();
+            const scrapeJob = scheduler.getStatus().find(job => job.name === SCRAPE_JOB_NAME);
+
+            let scheduleText = "";
+            if (scrapeJob) {
+                const lastRun = scrapeJob.lastRun
+                    ? `${formatSwissTime(scrapeJob.lastRun)} ${scrapeJob.lastError ? `❌ (${scrapeJob.lastError})` : "✅"}`
+                    : "never";
+                const nextRun = scrapeJob.nextRun ? formatSwissTime(scrapeJob.nextRun) : "not scheduled";
+                scheduleText =
+                    `\n⏰ Scheduled scraping\n` +
+                    `• Last run: ${scrapeJob.running ? "running now..." : lastRun}\n` +
+                    `• Next run: ${nextRun}\n`;
+            }
+
             return context.send(
                 "📊 IceKing Database Stats\n\n" +
-                `🏂 Resorts tracked: ${stats.resorts}\n` +
+                `🏂 Resorts tracked: ${stats.resorts}${stats.unlocated > 0 ? ` (${stats.unlocated} without location)` : ""}\n` +
                 `❄️ Snow conditions: ${stats.conditions}\n` +
+                `🗂️ History entries: ${stats.history}\n` +
                 `🚗 Drive times cached: ${stats.driveTimes}\n` +
-                `📈 Scores calculated: ${stats.scores}\n\n` +
-                `Last updated: ${new Date().toLocaleString()}`
+                `📈 Scores calculated: ${stats.scores}\n` +
+                scheduleText +
+                `\nLast updated: ${formatSwissTime(new Date())}`
             );
         } catch (error) {
             console.error("Error getting stats:", error);
@@ -111,19 +366,115 @@ bot
     .command("help", (context) => {
         return context.send(
             "*🏔️ IceKing Commands:*\n\n" +
-            "/recs - Get today's top snowboarding recommendations\n" +
+            "/recs [profile] [origin] - Top recommendations (e.g. /recs Basel, /recs powder Bern)\n" +
+            "/plan <day> - Plan a day: who's open, ranked, and when to leave (e.g. /plan friday)\n" +
             "/closed - Show resorts that are closed for season\n" +
+            "/resort <name> - Full details: conditions, score breakdown, drive, hours, season\n" +
+            "/why <resort> [vs <resort>] - Score breakdown, or why one resort beats another\n" +
+            "/trend <resort> - 7-day depth, new snow and lifts chart\n" +
+            "/forecast <resort> - 3-day snowfall, temperature, wind and freezing level\n" +
+            "/export [conditions|history|recs|calendar] [csv|json] - Spreadsheet or calendar file\n" +
+            "/settings - Change home, max drive, min score, results, style and favourites\n" +
+            "/subscribe [score] [snow] [HH:MM-HH:MM] - Powder alerts with quiet hours\n" +
+            "/unsubscribe - Stop powder alerts\n" +
             "/scrape - Update snow conditions from bergfex.com\n" +
             "/stats - Show database statistics\n" +
             "/help - Show this help message\n\n" +
             "*Tips:*\n" +
-            "• Recommendations are filtered to ≤180min drive from Hedingen\n" +
-            "• Scores consider snow depth, lift status, and distance\n" +
-            "• Use /scrape regularly to get fresh data!"
+            "• Recommendations use your /settings (default ≤180min from Hedingen)\n" +
+            "• Share a location to get recommendations from wherever you are\n" +
+            "• Or just ask: \"powder within 90 min tomorrow\", \"is Laax open?\", \"park near Lucerne\"\n" +
+            "• Scores consider snow depth, lift status, forecast snowfall and distance\n" +
+            "• Profiles: park, powder, beginner, cruiser (default is all-round) – set yours in /settings\n" +
+            "• Snow data refreshes automatically, /scrape forces an update"
         );
     });
 
-// TODO: Add natural language resort queries later
+// Shared locations become ad-hoc drive origins
+bot.on("message", async (context, next) => {
+    if (!context.location) return next();
+
+    try {
+        const origin = createLocationOrigin(context.location.latitude, context.location.longitude);
+        await context.send("📍 Got your location – calculating drive times from there...");
+
+        const preferences = UserPreferencesService.get(context.chatId);
+        const result = await getRecommendations({
+            ...UserPreferencesService.toRecommendationOptions(preferences),
+            origin
+        });
+
+        return context.send(formatRecommendations(result), {
+            reply_markup: new InlineKeyboard().text("🏠 Save as my home", `settings:home:${origin.name}`)
+        });
+    } catch (error) {
+        console.error("Error handling shared location:", error);
+        return context.send("❌ Couldn't use that location right now.");
+    }
+});
+
+// Plain text questions ("powder within 90 min tomorrow", "is Laax open?", "park near Lucerne")
+bot.on("message", async (context, next) => {
+    const text = context.text?.trim();
+    if (!text || text.startsWith("/")) return next();
+
+    try {
+        const intent = await getIntentParser().parse(text);
+        const preferences = UserPreferencesService.get(context.chatId);
+        const defaults = UserPreferencesService.toRecommendationOptions(preferences);
+
+        switch (intent.type) {
+            case "recommendations": {
+                if (intent.day === "tomorrow") {
+                    const tomorrow = parsePlanDay("tomorrow")!;
+                    const plan = await getDayPlan(tomorrow, { ...defaults, ...intent.options });
+                    return context.send(formatDayPlan(plan, tomorrow));
+                }
+                const result = await getRecommendations({ ...defaults, ...intent.options });
+                return context.send(formatRecommendations(result));
+            }
+
+            case "resort": {
+                const details = await getResortDetails(intent.resortId, defaults.origin, defaults.profile);
+                if (details) {
+                    if (intent.question === "details") {
+                        return context.send(formatResortDetails(details, defaults.origin));
+                    }
+                    const answer = details.score.status === "OPEN" ? "✅ Yes, it's open!\n\n" : "❌ Not today.\n\n";
+                    return context.send(answer + formatRecommendation(details));
+                }
+
+                // Scraped by bergfex but not mapped yet - answer from raw conditions
+                const conditions = DataStorageService.getLatestConditions(intent.resortId);
+                if (!conditions) {
+                    return context.send("❓ I don't have data for that resort yet.");
+                }
+                const open = (conditions.liftsOpen || 0) > 0;
+                return context.send(
+                    `${open ? "✅" : "❌"} ${intent.resortId}: ${conditions.liftsOpen ?? "?"}/${conditions.liftsTotal ?? "?"} lifts open, ` +
+                    `${conditions.mountainDepth ?? 0}cm on the mountain (bergfex)`
+                );
+            }
+
+            case "closed": {
+                const closed = await getClosedResorts(defaults.origin);
+                if (closed.length === 0) {
+                    return context.send("✅ All tracked resorts are currently open!");
+                }
+                return context.send(formatClosedResorts(closed));
+            }
+
+            default:
+                return context.send(
+                    "🤔 I didn't get that. Try e.g. \"powder within 90 min tomorrow\", \"is Laax open?\" " +
+                    "or \"park near Lucerne\" – or see /help."
+                );
+        }
+    } catch (error) {
+        console.error("Error answering text query:", error);
+        return context.send("❌ Sorry, couldn't answer that right now. Try /recs instead!");
+    }
+});
 
 // Error handling
 bot.onError((error) => {
@@ -133,11 +484,18 @@ bot.onError((error) => {
 // Start the bot
 bot.onStart(() => {
     console.log("🤖 IceKing bot started successfully!");
-    console.log("Commands loaded: /start, /recs, /closed, /scrape, /stats, /help");
+    console.log("Commands loaded: /start, /recs, /plan, /closed, /resort, /why, /trend, /forecast, /export, /settings, /subscribe, /unsubscribe, /scrape, /stats, /help");
 
     // Show initial stats
     const stats = DataStorageService.getStats();
     console.log(`📊 Initial database: ${stats.resorts} resorts, ${stats.conditions} conditions, ${stats.driveTimes} drive times`);
+
+    scheduler.start();
+});
+
+bot.onStop(() => {
+    scheduler.stop();
+    apiServer?.stop();
 });
 
 bot.start();
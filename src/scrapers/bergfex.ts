@@ -1,6 +1,8 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
 import type { Conditions } from '../types/index.js';
+import { atSwissTime, getZonedParts, zonedTimeToDate } from '../utils/time.js';
 
 export interface ResortMetadata {
   name: string;
@@ -22,120 +24,214 @@ export interface ScrapedResortData {
   liftsTotal: number | null;
   lastUpdate: Date | null;
   seasonStatus: 'OPEN' | 'CLOSED' | null; // Based on bergfex status indicators
+  detailUrl: string | null; // resort page on bergfex (coordinates, hours, season dates)
   rawData: {
     rowHtml: string;
     parsedAt: Date;
   };
 }
 
+export type ConditionsColumn = 'name' | 'valley' | 'mountain' | 'newSnow' | 'lifts' | 'date';
+
 /**
- * Scrape all snow conditions from bergfex.com
- * Returns all available resort data from the main table
+ * Shape of the snow conditions table as found on the page
+ * Kept per scrape so drift detection can compare it with the previous run
  */
-export async function scrapeAllBergfexConditions(): Promise<ScrapedResortData[]> {
-  try {
-    const url = 'https://www.bergfex.com/schweiz/schneewerte/';
-    console.log(`🌐 Scraping bergfex: ${url}`);
+export interface ConditionsTableLayout {
+  found: boolean;           // a table with all required columns was found
+  headers: string[];        // header texts as they appear on the page
+  columns: Partial<Record<ConditionsColumn, number>>; // column index per field
+  missingColumns: ConditionsColumn[];
+  rowCount: number;         // data rows in the table
+  emptyRows: number;        // rows without depth or lift values
+}
 
-    const response = await axios.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; IceKing/1.0)'
-      },
-      timeout: 10000
-    });
+export interface ConditionsPage {
+  resorts: ScrapedResortData[];
+  layout: ConditionsTableLayout;
+}
 
-    const $ = cheerio.load(response.data);
-    const results: ScrapedResortData[] = [];
+export const CONDITIONS_URL = 'https://www.bergfex.com/schweiz/schneewerte/';
 
-    // Debug: Check for status indicators (will be improved later)
+// Header texts per field (English, German and French bergfex pages)
+const COLUMN_PATTERNS: Array<[ConditionsColumn, RegExp]> = [
+  ['newSnow', /\bnew\b|neu|fresh|frais|nouvelle/i],
+  ['valley', /valley|\btal\b|vallée|vallee/i],
+  ['mountain', /mountain|\bberg\b|montagne|sommet/i],
+  ['lifts', /lift|remont/i],
+  ['date', /date|datum|report|meldung|bericht|update|aktualisiert/i],
+  ['name', /resort|ski ?area|skigebiet|station|domaine|\bname\b/i]
+];
 
-    // Find the main snow conditions table
-    const table = $('table.snow, table').first();
-    if (!table.length) {
-      console.warn('No snow conditions table found');
-      return results;
+// Without these the scores would be built from zeros
+const REQUIRED_COLUMNS: ConditionsColumn[] = ['name', 'mountain', 'lifts'];
+const ALL_COLUMNS: ConditionsColumn[] = ['name', 'valley', 'mountain', 'newSnow', 'lifts', 'date'];
+
+/**
+ * Map header texts to fields; each header is used for one field at most
+ */
+export function matchConditionsColumns(headers: string[]): Partial<Record<ConditionsColumn, number>> {
+  const columns: Partial<Record<ConditionsColumn, number>> = {};
+  const used = new Set<number>();
+
+  for (const [column, pattern] of COLUMN_PATTERNS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && pattern.test(header));
+    if (index >= 0) {
+      columns[column] = index;
+      used.add(index);
     }
+  }
 
-    // Parse each table row (skip header row)
-    const rows = table.find('tbody tr');
-    console.log(`📋 Found ${rows.length} resort rows to parse`);
+  // The resort name column often has no header text - it's the first one left over
+  if (columns.name === undefined && headers.length > 0 && !used.has(0)) {
+    columns.name = 0;
+  }
 
-    rows.each((index, row) => {
-      try {
-        const $row = $(row);
-        const cells = $row.find('td');
+  return columns;
+}
 
-        if (cells.length < 6) {
-          console.warn(`Row ${index + 1}: Insufficient cells (${cells.length})`);
-          return; // continue to next row
-        }
+interface ConditionsTableMatch {
+  table: cheerio.Cheerio<Element>;
+  headers: string[];
+  columns: Partial<Record<ConditionsColumn, number>>;
+}
+
+/**
+ * Parse the bergfex snow conditions page
+ * Columns are located by header text, so reordered or added columns don't shift the values
+ */
+export function parseBergfexConditionsPage(html: string, pageUrl: string = CONDITIONS_URL): ConditionsPage {
+  const $ = cheerio.load(html);
+  const resorts: ScrapedResortData[] = [];
+
+  // Pick the table whose headers we recognise best
+  let best: ConditionsTableMatch | null = null;
+  $('table').each((_, table) => {
+    const $table = $(table);
+    const headerCells = $table.find('thead tr').first().find('th, td');
+    const cells = headerCells.length ? headerCells : $table.find('tr').first().find('th');
+    const headers = cells.map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim()).get();
+    const columns = matchConditionsColumns(headers);
+
+    if (!best || Object.keys(columns).length > Object.keys(best.columns).length) {
+      best = { table: $table, headers, columns };
+    }
+  });
+
+  const match = best as ConditionsTableMatch | null;
+  const columns = match?.columns ?? {};
+  const layout: ConditionsTableLayout = {
+    found: !!match && REQUIRED_COLUMNS.every(column => columns[column] !== undefined),
+    headers: match?.headers ?? [],
+    columns,
+    missingColumns: ALL_COLUMNS.filter(column => columns[column] === undefined),
+    rowCount: 0,
+    emptyRows: 0
+  };
 
-        // Extract data from each column (based on discovered structure)
-        const $firstCell = $(cells[0]);
-        const resortName = $firstCell.text().trim();
+  if (!match || !layout.found) {
+    console.warn(`⚠️ Snow conditions table not recognised (missing: ${layout.missingColumns.join(', ') || 'table'})`);
+    return { resorts, layout };
+  }
 
-        const valleyText = $(cells[1]).text().trim();
-        const mountainText = $(cells[2]).text().trim();
-        const newSnowText = $(cells[3]).text().trim();
-        const liftsText = $(cells[4]).text().trim();
-        const dateText = $(cells[5]).text().trim();
+  const rows = match.table.find('tbody tr').length ? match.table.find('tbody tr') : match.table.find('tr').slice(1);
+  console.log(`📋 Found ${rows.length} resort rows to parse`);
+
+  rows.each((index, row) => {
+    try {
+      const $row = $(row);
+      const cells = $row.find('td');
+      if (cells.length === 0) return; // header or spacer row
+      layout.rowCount++;
+
+      const cellText = (column: ConditionsColumn): string => {
+        const i = columns[column];
+        return i === undefined ? '' : $(cells[i]).text().replace(/\s+/g, ' ').trim();
+      };
+
+      const $nameCell = $(cells[columns.name!]);
+      const resortName = $nameCell.text().replace(/\s+/g, ' ').trim();
+      if (!resortName) {
+        console.warn(`Row ${index + 1}: No resort name found`);
+        return;
+      }
 
-        if (!resortName) {
-          console.warn(`Row ${index + 1}: No resort name found`);
-          return;
-        }
+      const href = $nameCell.find('a').attr('href');
+      const detailUrl = href ? new URL(href, pageUrl).toString() : null;
+
+      // Parse snow depths (handle "-" as null)
+      const valleyDepth = parseSnowDepth(cellText('valley'));
+      const mountainDepth = parseSnowDepth(cellText('mountain'));
+      const newSnow = parseSnowDepth(cellText('newSnow'));
 
-        // Parse snow depths (handle "-" as null)
-        const valleyDepth = parseSnowDepth(valleyText);
-        const mountainDepth = parseSnowDepth(mountainText);
-        const newSnow = parseSnowDepth(newSnowText);
-
-        // Parse lift status
-        const [liftsOpen, liftsTotal] = parseLifts(liftsText);
-
-        // Parse date
-        const lastUpdate = parseBergfexDate(dateText);
-
-        // Determine season status based on lift operations
-        // 0 operating lifts = CLOSED, 2+ operating lifts = OPEN
-        let seasonStatus: 'OPEN' | 'CLOSED' | null = null;
-        if (liftsOpen === 0 || liftsOpen === null) {
-          seasonStatus = 'CLOSED';
-        } else if (liftsOpen >= 2) {
-          seasonStatus = 'OPEN';
-        } // Single lift operating = uncertain status
-
-
-        // Create resort ID from name (simplified mapping)
-        const resortId = createResortId(resortName);
-
-        const result: ScrapedResortData = {
-          name: resortName,
-          resortId,
-          valleyDepth,
-          mountainDepth,
-          newSnow,
-          liftsOpen,
-          liftsTotal,
-          lastUpdate,
-          seasonStatus,
-          rawData: {
-            rowHtml: $row.html() || '',
-            parsedAt: new Date()
-          }
-        };
-
-        results.push(result);
-        console.log(`✅ Parsed: ${resortName} (${valleyDepth || 0}cm/${mountainDepth || 0}cm, ${liftsOpen || 0}/${liftsTotal || 0} lifts)`);
-
-      } catch (rowError) {
-        console.error(`❌ Error parsing row ${index + 1}:`, rowError);
+      // Parse lift status
+      const [liftsOpen, liftsTotal] = parseLifts(cellText('lifts'));
+
+      // Parse date
+      const lastUpdate = parseBergfexDate(cellText('date'));
+
+      if (valleyDepth === null && mountainDepth === null && liftsOpen === null) {
+        layout.emptyRows++;
       }
-    });
 
-    console.log(`🎯 Successfully parsed ${results.length} resorts from bergfex`);
-    return results;
+      // Determine season status based on lift operations
+      // 0 operating lifts = CLOSED, 2+ operating lifts = OPEN
+      let seasonStatus: 'OPEN' | 'CLOSED' | null = null;
+      if (liftsOpen === 0 || liftsOpen === null) {
+        seasonStatus = 'CLOSED';
+      } else if (liftsOpen >= 2) {
+        seasonStatus = 'OPEN';
+      } // Single lift operating = uncertain status
+
+      resorts.push({
+        name: resortName,
+        resortId: createResortId(resortName),
+        valleyDepth,
+        mountainDepth,
+        newSnow,
+        liftsOpen,
+        liftsTotal,
+        lastUpdate,
+        seasonStatus,
+        detailUrl,
+        rawData: {
+          rowHtml: $row.html() || '',
+          parsedAt: new Date()
+        }
+      });
+    } catch (rowError) {
+      console.error(`❌ Error parsing row ${index + 1}:`, rowError);
+    }
+  });
+
+  return { resorts, layout };
+}
+
+/**
+ * Fetch and parse the snow conditions page, keeping the table layout for drift checks
+ */
+export async function scrapeBergfexConditionsPage(): Promise<ConditionsPage> {
+  console.log(`🌐 Scraping bergfex: ${CONDITIONS_URL}`);
+
+  const response = await axios.get(CONDITIONS_URL, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; IceKing/1.0)'
+    },
+    timeout: 10000
+  });
+
+  const page = parseBergfexConditionsPage(response.data, CONDITIONS_URL);
+  console.log(`🎯 Successfully parsed ${page.resorts.length} resorts from bergfex`);
+  return page;
+}
 
+/**
+ * Scrape all snow conditions from bergfex.com
+ * Returns all available resort data from the main table
+ */
+export async function scrapeAllBergfexConditions(): Promise<ScrapedResortData[]> {
+  try {
+    return (await scrapeBergfexConditionsPage()).resorts;
   } catch (error) {
     console.error(`❌ Error scraping bergfex:`, error);
     return [];
@@ -207,7 +303,7 @@ function parseLifts(text: string): [number | null, number | null] {
 }
 
 /**
- * Parse bergfex date formats into Date objects
+ * Parse bergfex date formats into Date objects (times on the page are Swiss local time)
  */
 function parseBergfexDate(text: string): Date | null {
   if (!text || text.trim() === '') {
@@ -217,51 +313,41 @@ function parseBergfexDate(text: string): Date | null {
   const now = new Date();
   const lowerText = text.toLowerCase();
 
-  // Handle "Today, HH:MM" format
-  if (lowerText.includes('today')) {
+  // Handle "Today, HH:MM" format (German pages: "Heute, HH:MM")
+  if (lowerText.includes('today') || lowerText.includes('heute')) {
     const timeMatch = text.match(/(\d{1,2}):(\d{2})/);
     if (timeMatch && timeMatch[1] && timeMatch[2]) {
-      const hours = parseInt(timeMatch[1], 10);
-      const minutes = parseInt(timeMatch[2], 10);
-      const date = new Date(now);
-      date.setHours(hours, minutes, 0, 0);
-      return date;
+      // A report time later today can only be clock skew - never report from the future
+      const reported = atSwissTime(now, 0, parseInt(timeMatch[1], 10), parseInt(timeMatch[2], 10));
+      return reported > now ? now : reported;
     }
     return now;
   }
 
-  // Handle "Yesterday, HH:MM" format
-  if (lowerText.includes('yesterday')) {
+  // Handle "Yesterday, HH:MM" format (German pages: "Gestern, HH:MM")
+  if (lowerText.includes('yesterday') || lowerText.includes('gestern')) {
     const timeMatch = text.match(/(\d{1,2}):(\d{2})/);
     if (timeMatch && timeMatch[1] && timeMatch[2]) {
-      const hours = parseInt(timeMatch[1], 10);
-      const minutes = parseInt(timeMatch[2], 10);
-      const date = new Date(now);
-      date.setDate(date.getDate() - 1);
-      date.setHours(hours, minutes, 0, 0);
-      return date;
+      return atSwissTime(now, -1, parseInt(timeMatch[1], 10), parseInt(timeMatch[2], 10));
     }
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-    return yesterday;
+    return new Date(now.getTime() - 24 * 60 * 60 * 1000);
   }
 
   // Handle absolute dates like "11/02/2025" (DD/MM/YYYY)
   const dateMatch = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
   if (dateMatch && dateMatch[1] && dateMatch[2] && dateMatch[3]) {
-    const day = parseInt(dateMatch[1], 10);
-    const month = parseInt(dateMatch[2], 10) - 1; // JS months are 0-based
-    const year = parseInt(dateMatch[3], 10);
-    return new Date(year, month, day);
+    return zonedTimeToDate(parseInt(dateMatch[3], 10), parseInt(dateMatch[2], 10), parseInt(dateMatch[1], 10), 0, 0);
   }
 
   // Handle "Tue, 04.11." format (day, DD.MM.)
   const shortDateMatch = text.match(/(\d{1,2})\.(\d{1,2})\./);
   if (shortDateMatch && shortDateMatch[1] && shortDateMatch[2]) {
+    // No year given: this year, unless that's still ahead (a November report read in January)
+    const year = getZonedParts(now).year;
+    const month = parseInt(shortDateMatch[2], 10);
     const day = parseInt(shortDateMatch[1], 10);
-    const month = parseInt(shortDateMatch[2], 10) - 1;
-    const year = now.getFullYear(); // Assume current year
-    return new Date(year, month, day);
+    const reported = zonedTimeToDate(year, month, day, 0, 0);
+    return reported > now ? zonedTimeToDate(year - 1, month, day, 0, 0) : reported;
   }
 
   // If we can't parse it, return current date as fallback
@@ -269,97 +355,101 @@ function parseBergfexDate(text: string): Date | null {
   return now;
 }
 
+export const METADATA_URL = 'https://www.bergfex.com/schweiz/';
+
+// "Laax (1.100 m)" - the heading that starts every resort card
+const CARD_HEADING = /^([^(]+?)\s*\(\s*(\d[\d.,'’]*)\s*m\s*\)/;
+const CARD_LABEL = /^(pistes|pisten|lifts|lifte|snow|schnee|price|preis)\s*:/i;
+
+function parseLabelled(text: string, labels: string, value: string): RegExpMatchArray | null {
+  return text.match(new RegExp(`(?:${labels})\\s*:\\s*${value}`, 'i'));
+}
+
 /**
- * Create a simplified resort ID from resort name
- * This is a basic implementation - in production you'd want proper mapping
+ * Parse resort cards ("Name (elevation)" plus labelled values) from the bergfex country page
+ * Starts from each labelled value and climbs to the smallest element that also holds
+ * the heading, so every card is read once instead of once per ancestor
  */
+export function parseBergfexMetadataPage(html: string): ResortMetadata[] {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+
+  const cards: AnyNode[] = [];
+  $('body *').each((_, el) => {
+    const $el = $(el);
+    if ($el.children().length > 0 || !CARD_LABEL.test($el.text().trim())) return;
+
+    let $card = $el.parent();
+    while ($card.length && !$card.is('body') && !CARD_HEADING.test($card.text().trim())) {
+      $card = $card.parent();
+    }
+    const card = $card.get(0);
+    if (card && !$card.is('body') && !cards.includes(card)) {
+      cards.push(card);
+    }
+  });
+
+  const resorts: ResortMetadata[] = [];
+  for (const card of cards) {
+    const text = $(card).text().replace(/\s+/g, ' ').trim();
+    const heading = text.match(CARD_HEADING);
+    if (!heading || !heading[1] || !heading[2]) continue;
+
+    const resortName = heading[1].trim();
+    const elevation = parseInt(heading[2].replace(/[.,'’]/g, ''), 10) || null;
+
+    const pistesMatch = parseLabelled(text, 'pistes|pisten', '(\\d+(?:[.,]\\d+)?)\\s*km');
+    const pistesKm = pistesMatch?.[1] ? parseFloat(pistesMatch[1].replace(',', '.')) : null;
+
+    // Lifts: only the total, not operating
+    const liftsMatch = parseLabelled(text, 'lifts|lifte', '\\d+\\s*\\/\\s*(\\d+)');
+    const liftsTotal = liftsMatch?.[1] ? parseInt(liftsMatch[1], 10) : null;
+
+    const snowMatch = parseLabelled(text, 'snow|schnee', '(\\d+)\\s*cm');
+    const snowDepth = snowMatch?.[1] ? parseInt(snowMatch[1], 10) : null;
+
+    // Price runs until the next label
+    const priceMatch = parseLabelled(text, 'price|preis', '(.+?)(?=\\s*(?:pistes|pisten|lifts|lifte|snow|schnee)\\s*:|$)');
+    const price = priceMatch?.[1] ? priceMatch[1].trim() : null;
+
+    // Skip if we don't have meaningful data
+    if (!pistesKm && !liftsTotal && !snowDepth) continue;
+
+    const resort: ResortMetadata = {
+      name: resortName,
+      elevation,
+      pistesKm,
+      liftsTotal,
+      snowDepth,
+      price,
+      resortId: createResortId(resortName)
+    };
+
+    // Avoid duplicates
+    if (!resorts.find(r => r.resortId === resort.resortId)) {
+      resorts.push(resort);
+    }
+  }
+
+  return resorts;
+}
+
 /**
  * Scrape comprehensive resort metadata from bergfex main page
  */
 export async function scrapeBergfexResortMetadata(): Promise<ResortMetadata[]> {
-  const url = 'https://www.bergfex.com/schweiz/';
-  console.log(`🗻 Scraping resort metadata from: ${url}`);
+  console.log(`🗻 Scraping resort metadata from: ${METADATA_URL}`);
 
   try {
-    const response = await axios.get(url, {
+    const response = await axios.get(METADATA_URL, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (compatible; IceKing/1.0)'
       },
       timeout: 10000
     });
 
-    const $ = cheerio.load(response.data);
-    const resorts: ResortMetadata[] = [];
-
-    // Find elements containing resort data patterns
-    const resortPatterns = [
-      /(\w+.*)\s+\(\d+\.\d+\s*m\)/,  // Name (elevation)
-      /Pistes:\s*\d+/,                // Pistes data
-      /Lifts:\s*\d+\/\d+/,           // Lifts data
-      /Snow:\s*\d+/,                 // Snow data
-      /CHF\s+\d+,\d+|€\s+\d+|dynamic|-/  // Price data
-    ];
-
-    $('*').each((i, el) => {
-      const text = $(el).text().trim();
-      if (text.length > 20) {
-        const matches = resortPatterns.filter(pattern => pattern.test(text));
-        if (matches.length >= 2) { // Must match at least 2 patterns
-          try {
-            // Extract resort name (first part before elevation)
-            const nameMatch = text.match(/^([^(\n]+)\s*\(/m);
-            const resortName = nameMatch ? nameMatch[1].trim() : 'Unknown';
-
-            if (resortName === 'Unknown' || resortName.length < 2) return;
-
-            // Extract elevation
-            const elevationMatch = text.match(/(\d+(?:\.\d+)?)\s*m/);
-            const elevation = elevationMatch ? parseFloat(elevationMatch[1]) : null;
-
-            // Extract pistes
-            const pistesMatch = text.match(/Pistes:\s*(\d+(?:\.\d+)?)\s*km/);
-            const pistesKm = pistesMatch ? parseFloat(pistesMatch[1]) : null;
-
-            // Extract lifts (only total, not operating)
-            const liftsMatch = text.match(/Lifts:\s*\d+\/(\d+)/);
-            const liftsTotal = liftsMatch ? parseInt(liftsMatch[1]) : null;
-
-            // Extract snow depth
-            const snowMatch = text.match(/Snow:\s*(\d+)\s*cm/);
-            const snowDepth = snowMatch ? parseInt(snowMatch[1]) : null;
-
-            // Extract price
-            const priceMatch = text.match(/Price:\s*([^,\n]+)/);
-            const price = priceMatch ? priceMatch[1].trim() : null;
-
-            // Skip if we don't have meaningful data
-            if (!elevation && !pistesKm && !liftsTotal && !snowDepth) {
-              return;
-            }
-
-            const resort: ResortMetadata = {
-              name: resortName,
-              elevation,
-              pistesKm,
-              liftsTotal,
-              snowDepth,
-              price,
-              resortId: createResortId(resortName)
-            };
-
-            // Avoid duplicates
-            if (!resorts.find(r => r.resortId === resort.resortId)) {
-              resorts.push(resort);
-              console.log(`✅ ${resortName}: ${elevation}m, ${pistesKm}km pistes, ${liftsTotal} lifts, ${snowDepth}cm snow`);
-            }
-
-          } catch (error) {
-            // Skip malformed entries
-          }
-        }
-      }
-    });
-
+    const resorts = parseBergfexMetadataPage(response.data);
+    resorts.forEach(r => console.log(`✅ ${r.name}: ${r.elevation}m, ${r.pistesKm}km pistes, ${r.liftsTotal} lifts, ${r.snowDepth}cm snow`));
     console.log(`🎯 Successfully extracted metadata for ${resorts.length} resorts`);
     return resorts;
 
@@ -369,6 +459,182 @@ export async function scrapeBergfexResortMetadata(): Promise<ResortMetadata[]> {
   }
 }
 
+// Switzerland's bounding box - anything outside is a parsing mistake
+const SWISS_BOUNDS = { minLat: 45.8, maxLat: 47.9, minLng: 5.9, maxLng: 10.6 };
+
+/**
+ * Pull the resort's coordinates out of a bergfex resort page
+ * Tries geo meta tags, map data attributes and embedded JSON, in that order
+ */
+export function parseBergfexCoordinates(html: string): { lat: number; lng: number } | null {
+  const $ = cheerio.load(html);
+  const candidates: Array<[string | undefined, string | undefined]> = [];
+
+  const position = $('meta[name="geo.position"]').attr('content') || $('meta[name="ICBM"]').attr('content');
+  if (position) {
+    const [lat, lng] = position.split(/[;,]/);
+    candidates.push([lat, lng]);
+  }
+
+  candidates.push([$('meta[property="place:location:latitude"]').attr('content'), $('meta[property="place:location:longitude"]').attr('content')]);
+
+  $('[data-lat][data-lng], [data-lat][data-lon], [data-latitude][data-longitude]').each((_, el) => {
+    const $el = $(el);
+    candidates.push([
+      $el.attr('data-lat') ?? $el.attr('data-latitude'),
+      $el.attr('data-lng') ?? $el.attr('data-lon') ?? $el.attr('data-longitude')
+    ]);
+  });
+
+  const json = html.match(/"lat(?:itude)?"\s*:\s*"?(\d+\.\d+)"?\s*,\s*"(?:lng|lon|longitude)"\s*:\s*"?(\d+\.\d+)/);
+  if (json) candidates.push([json[1], json[2]]);
+
+  for (const [rawLat, rawLng] of candidates) {
+    const lat = Number(rawLat?.trim());
+    const lng = Number(rawLng?.trim());
+    if (!rawLat || !rawLng || !Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    if (lat < SWISS_BOUNDS.minLat || lat > SWISS_BOUNDS.maxLat || lng < SWISS_BOUNDS.minLng || lng > SWISS_BOUNDS.maxLng) continue;
+    return { lat, lng };
+  }
+
+  return null;
+}
+
+/**
+ * Fetch a bergfex resort page and read its coordinates (null when the page has none)
+ */
+export async function scrapeBergfexResortCoordinates(detailUrl: string): Promise<{ lat: number; lng: number } | null> {
+  const response = await axios.get(detailUrl, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; IceKing/1.0)'
+    },
+    timeout: 10000
+  });
+
+  return parseBergfexCoordinates(response.data);
+}
+
+export interface ResortPageDetails {
+  hoursWeekdays: string | null;  // "08:30-16:15" or "closed"
+  hoursWeekends: string | null;
+  hoursNotes: string | null;     // night riding and similar extras
+  seasonStart: string | null;    // YYYY-MM-DD
+  seasonEnd: string | null;
+  todayStatus: 'OPEN' | 'CLOSED' | null;
+  coordinates: { lat: number; lng: number } | null;
+}
+
+const TIME = String.raw`(\d{1,2})[:.](\d{2})\s*(am|pm)?\s*(?:uhr|h)?`;
+const TIME_RANGE = new RegExp(`${TIME}\\s*(?:-|–|bis|to)\\s*${TIME}`, 'i');
+const WEEKDAY_LABEL = /(?:mo(?:ntag)?\.?\s*(?:-|–|bis)\s*fr(?:eitag)?\.?|mon(?:day)?\s*(?:-|–|to)\s*fri(?:day)?|weekdays?|werktags?|lu(?:ndi)?\.?\s*(?:-|–|au)\s*ve(?:ndredi)?\.?)/i;
+const WEEKEND_LABEL = /(?:sa(?:mstag)?\.?\s*(?:-|–|bis|\+|&|und)\s*so(?:nntag)?\.?|sat(?:urday)?\s*(?:-|–|to|\+|&|and)\s*sun(?:day)?|weekends?|wochenende|sa(?:medi)?\.?\s*(?:-|–|au|\+|&|et)\s*di(?:manche)?\.?)/i;
+const CLOSED_WORD = /^\s*[:\s]*(?:geschlossen|closed|fermé|ferme|kein betrieb)/i;
+
+function toClock(hours: string, minutes: string, meridiem: string | undefined): string {
+  let h = Number(hours);
+  if (meridiem?.toLowerCase() === 'pm' && h < 12) h += 12;
+  if (meridiem?.toLowerCase() === 'am' && h === 12) h = 0;
+  return `${String(h).padStart(2, '0')}:${minutes}`;
+}
+
+/**
+ * First "08:30 - 16:15" style range in a piece of text
+ */
+function parseTimeRange(text: string): string | null {
+  const match = text.match(TIME_RANGE);
+  if (!match || !match[1] || !match[2] || !match[4] || !match[5]) return null;
+  return `${toClock(match[1], match[2], match[3])}-${toClock(match[4], match[5], match[6])}`;
+}
+
+/**
+ * Hours after a day label ("Mo-Fr: 09:00-16:00", "Sa-So geschlossen")
+ */
+function parseLabelledHours(text: string, label: RegExp): string | null {
+  const match = label.exec(text);
+  if (!match) return null;
+
+  const rest = text.slice(match.index + match[0].length, match.index + match[0].length + 40);
+  if (CLOSED_WORD.test(rest)) return 'closed';
+  return parseTimeRange(rest);
+}
+
+function toIsoDate(day: string, month: string, year: string): string | null {
+  const d = Number(day);
+  const m = Number(month);
+  if (d < 1 || d > 31 || m < 1 || m > 12) return null;
+  return `${year}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/**
+ * Read operating hours, season dates and today's status from a bergfex resort page
+ * bergfex serves German, French and English pages, so labels are matched in all three
+ */
+export function parseBergfexResortPage(html: string): ResortPageDetails {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  const text = $('body').text().replace(/\s+/g, ' ');
+
+  // Season: "Saison: 07.12.2024 - 21.04.2025" / "Season: 07/12/2024 - 21/04/2025"
+  let seasonStart: string | null = null;
+  let seasonEnd: string | null = null;
+  const season = text.match(/(?:saison|season)[^0-9]{0,40}(\d{1,2})[./](\d{1,2})[./](\d{4})\s*(?:-|–|bis|to|au)\s*(\d{1,2})[./](\d{1,2})[./](\d{4})/i);
+  if (season) {
+    seasonStart = toIsoDate(season[1]!, season[2]!, season[3]!);
+    seasonEnd = toIsoDate(season[4]!, season[5]!, season[6]!);
+  }
+
+  // Hours: look inside the operating hours section when there is one
+  const hoursSection = text.match(/(?:betriebszeiten|öffnungszeiten|operating hours|opening hours|horaires)(.{0,250})/i)?.[1] ?? '';
+  let hoursWeekdays = parseLabelledHours(hoursSection, WEEKDAY_LABEL);
+  let hoursWeekends = parseLabelledHours(hoursSection, WEEKEND_LABEL);
+  if (!hoursWeekdays && !hoursWeekends) {
+    // One range for every day ("täglich 08:30 - 16:30")
+    const daily = parseTimeRange(hoursSection);
+    hoursWeekdays = daily;
+    hoursWeekends = daily;
+  }
+
+  const night = text.match(/(?:nachtskifahren|nachtski|night skiing|night riding|ski nocturne)[^.]{0,60}/i);
+  const nightHours = night ? parseTimeRange(night[0]) : null;
+  const hoursNotes = night ? `Night riding${nightHours ? ` ${nightHours}` : ''}` : null;
+
+  let todayStatus: ResortPageDetails['todayStatus'] = null;
+  if (/(?:heute|today|aujourd'hui)\s*(?:geschlossen|closed|fermé)|(?:geschlossen|closed|fermé)\s*(?:heute|today|aujourd'hui)/i.test(text)) {
+    todayStatus = 'CLOSED';
+  } else if (/(?:heute|today|aujourd'hui)\s*(?:geöffnet|offen|in betrieb|open|ouvert)|(?:geöffnet|open|ouvert)\s*(?:heute|today|aujourd'hui)/i.test(text)) {
+    todayStatus = 'OPEN';
+  }
+
+  return {
+    hoursWeekdays,
+    hoursWeekends,
+    hoursNotes,
+    seasonStart,
+    seasonEnd,
+    todayStatus,
+    coordinates: parseBergfexCoordinates(html)
+  };
+}
+
+/**
+ * Fetch and parse a bergfex resort page
+ */
+export async function scrapeBergfexResortPage(detailUrl: string): Promise<ResortPageDetails> {
+  console.log(`📄 Scraping resort page: ${detailUrl}`);
+  const response = await axios.get(detailUrl, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; IceKing/1.0)'
+    },
+    timeout: 10000
+  });
+
+  return parseBergfexResortPage(response.data);
+}
+
+/**
+ * Create a simplified resort ID from resort name
+ * This is a basic implementation - in production you'd want proper mapping
+ */
 function createResortId(resortName: string): string {
   return resortName
     .toLowerCase()
@@ -0,0 +1,126 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import type { ScrapedResortData } from './bergfex.js';
+import { zonedTimeToDate } from '../utils/time.js';
+
+/**
+ * MySwitzerland snow report (Switzerland Tourism)
+ * Figures are reported by the resorts themselves, which makes it a useful cross-check for bergfex
+ * Each resort is a card with labelled values; labels are matched by text, not position
+ */
+
+export const MYSWITZERLAND_URL = 'https://www.myswitzerland.com/en-ch/experiences/winter/snow-report/';
+
+type ReportField = 'mountainDepth' | 'valleyDepth' | 'newSnow' | 'lifts' | 'date';
+
+// Label texts per field (English, German and French pages)
+const LABEL_PATTERNS: Array<[ReportField, RegExp]> = [
+  ['newSnow', /new snow|fresh snow|neuschnee|neige fraîche|neige fraiche/i],
+  ['mountainDepth', /mountain|summit|\bberg\b|montagne|sommet/i],
+  ['valleyDepth', /valley|village|\btal\b|vallée|vallee|station/i],
+  ['lifts', /lift|anlagen|remont|installations/i],
+  ['date', /updated|update|stand|aktualisiert|mise à jour/i]
+];
+
+function parseCentimetres(text: string): number | null {
+  const match = text.match(/(\d+)\s*cm/i) || text.match(/^\s*(\d+)\s*$/);
+  return match && match[1] ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * "22 of 28", "22 / 28", "22 von 28"
+ */
+function parseLiftCount(text: string): [number | null, number | null] {
+  const match = text.match(/(\d+)\s*(?:\/|of|von|sur)\s*(\d+)/i);
+  if (match && match[1] && match[2]) return [parseInt(match[1], 10), parseInt(match[2], 10)];
+  const single = text.match(/(\d+)/);
+  return single && single[1] ? [parseInt(single[1], 10), null] : [null, null];
+}
+
+/**
+ * "18.10.2026 07:30" (Swiss local time)
+ */
+function parseReportDate(text: string): Date | null {
+  const match = text.match(/(\d{1,2})\.(\d{1,2})\.(\d{4})(?:\s+(\d{1,2}):(\d{2}))?/);
+  if (!match || !match[1] || !match[2] || !match[3]) return null;
+  return zonedTimeToDate(Number(match[3]), Number(match[2]), Number(match[1]), Number(match[4] || 0), Number(match[5] || 0));
+}
+
+function createResortId(resortName: string): string {
+  return resortName
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Parse the snow report page into the same shape as bergfex rows
+ */
+export function parseMySwitzerlandSnowReport(html: string): ScrapedResortData[] {
+  const $ = cheerio.load(html);
+  const results: ScrapedResortData[] = [];
+
+  $('article, li, .snow-report-item').has('dt').each((index, card) => {
+    const $card = $(card);
+    // Nested matches (an <li> inside an <article>) would be read twice
+    if ($card.parents().filter((_, parent) => $(parent).has('dt').length > 0 && $(parent).is('article, li, .snow-report-item')).length > 0) return;
+
+    const resortName = $card.find('h2, h3, h4').first().text().replace(/\s+/g, ' ').trim();
+    if (!resortName) return;
+
+    const values: Partial<Record<ReportField, string>> = {};
+    $card.find('dt').each((_, dt) => {
+      const label = $(dt).text().trim();
+      const value = $(dt).next('dd').text().replace(/\s+/g, ' ').trim();
+      const field = LABEL_PATTERNS.find(([key, pattern]) => !values[key] && pattern.test(label))?.[0];
+      if (field) values[field] = value;
+    });
+
+    const [liftsOpen, liftsTotal] = parseLiftCount(values.lifts || '');
+
+    let seasonStatus: 'OPEN' | 'CLOSED' | null = null;
+    if (liftsOpen === 0) {
+      seasonStatus = 'CLOSED';
+    } else if (liftsOpen !== null && liftsOpen >= 2) {
+      seasonStatus = 'OPEN';
+    }
+
+    results.push({
+      name: resortName,
+      resortId: createResortId(resortName),
+      valleyDepth: parseCentimetres(values.valleyDepth || ''),
+      mountainDepth: parseCentimetres(values.mountainDepth || ''),
+      newSnow: parseCentimetres(values.newSnow || ''),
+      liftsOpen,
+      liftsTotal,
+      lastUpdate: parseReportDate(values.date || ''),
+      seasonStatus,
+      detailUrl: null,
+      rawData: {
+        rowHtml: $card.html() || '',
+        parsedAt: new Date()
+      }
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Fetch and parse the MySwitzerland snow report
+ */
+export async function scrapeMySwitzerlandSnowReport(): Promise<ScrapedResortData[]> {
+  console.log(`🌐 Scraping MySwitzerland snow report: ${MYSWITZERLAND_URL}`);
+
+  const response = await axios.get(MYSWITZERLAND_URL, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; IceKing/1.0)'
+    },
+    timeout: 10000
+  });
+
+  const results = parseMySwitzerlandSnowReport(response.data);
+  console.log(`🎯 Parsed ${results.length} resorts from MySwitzerland`);
+  return results;
+}
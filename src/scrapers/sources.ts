@@ -0,0 +1,73 @@
+import { scrapeAllBergfexConditions, scrapeBergfexConditionsPage, type ConditionsPage, type ScrapedResortData } from './bergfex.js';
+import { scrapeMySwitzerlandSnowReport } from './myswitzerland.js';
+
+/**
+ * Snow report sources
+ * bergfex is the primary source: it defines the resort catalogue and gets a layout drift check
+ * The others are cross-checks, merged per resort by the reconciler
+ */
+
+export interface ConditionsSource {
+  name: string;
+  fetchConditions(): Promise<ScrapedResortData[]>;
+}
+
+/**
+ * The primary source also returns its table layout, for the drift check
+ */
+export interface PrimaryConditionsSource extends ConditionsSource {
+  fetchConditionsPage(): Promise<ConditionsPage>;
+}
+
+export const bergfexSource: PrimaryConditionsSource = {
+  name: 'bergfex',
+  fetchConditions: scrapeAllBergfexConditions,
+  fetchConditionsPage: scrapeBergfexConditionsPage
+};
+
+export const mySwitzerlandSource: ConditionsSource = {
+  name: 'myswitzerland',
+  fetchConditions: scrapeMySwitzerlandSnowReport
+};
+
+const SECONDARY_SOURCES: ConditionsSource[] = [mySwitzerlandSource];
+
+let primarySource: PrimaryConditionsSource = bergfexSource;
+let secondarySources: ConditionsSource[] | null = null;
+
+/**
+ * Source that decides the resort list (bergfex)
+ */
+export function getPrimarySource(): PrimaryConditionsSource {
+  return primarySource;
+}
+
+/**
+ * Cross-check sources (CONDITIONS_SOURCES=myswitzerland, in priority order; empty disables)
+ */
+export function getSecondarySources(): ConditionsSource[] {
+  if (!secondarySources) {
+    const names = (process.env.CONDITIONS_SOURCES ?? 'myswitzerland').split(',').map(n => n.trim()).filter(Boolean);
+    secondarySources = names.flatMap(name => {
+      const source = SECONDARY_SOURCES.find(s => s.name === name);
+      if (source) return [source];
+      console.warn(`⚠️ Unknown conditions source "${name}" in CONDITIONS_SOURCES, skipping`);
+      return [];
+    });
+  }
+  return secondarySources;
+}
+
+/**
+ * Swap the primary source (scripts and local testing)
+ */
+export function setPrimarySource(next: PrimaryConditionsSource): void {
+  primarySource = next;
+}
+
+/**
+ * Swap the cross-check sources (scripts and local testing)
+ */
+export function setSecondarySources(next: ConditionsSource[]): void {
+  secondarySources = next;
+}
@@ -0,0 +1,288 @@
+import type { Bot } from 'gramio';
+import { alertStatements } from '../database/index.js';
+import { DataStorageService } from './dataStorage.js';
+import { calculateScore } from './scoring.js';
+import { findResortById } from './resortMapping.js';
+import { getDriveEstimate } from './driveTimes.js';
+import { UserPreferencesService } from './userPreferences.js';
+import { formatRecommendation } from './recommendations.js';
+import { scheduler } from './scheduler.js';
+import { onScrapeComplete } from './scrapeJob.js';
+import { isWithinClockRange, parseClockTime, toSwissDateKey } from '../utils/time.js';
+import type { AlertSubscription, Resort, ResortRecommendation } from '../types/index.js';
+
+/**
+ * Powder push alerts
+ * Evaluated after every scrape: score ≥ threshold AND new snow ≥ threshold,
+ * announced once per storm per chat, held back during quiet hours
+ */
+
+/**
+ * Anything that can deliver a message to a chat (the bot, or a fake in tests)
+ */
+export interface AlertSender {
+  sendMessage(chatId: number, text: string): Promise<void>;
+}
+
+export interface AlertRunSummary {
+  subscriptions: number;
+  sent: number;
+  duplicates: number;
+  deferred: number;
+  failed: number;
+}
+
+export const DEFAULT_ALERT_THRESHOLDS = {
+  minScore: 75,
+  minNewSnow: 10
+};
+
+/**
+ * Deliver alerts through the gramio bot
+ */
+export function createBotAlertSender(bot: Bot): AlertSender {
+  return {
+    async sendMessage(chatId: number, text: string): Promise<void> {
+      await bot.api.sendMessage({ chat_id: chatId, text });
+    }
+  };
+}
+
+function rowToSubscription(row: any): AlertSubscription {
+  return {
+    chatId: row.chat_id,
+    minScore: row.min_score,
+    minNewSnow: row.min_new_snow,
+    quietStart: row.quiet_start,
+    quietEnd: row.quiet_end,
+    active: row.active === 1
+  };
+}
+
+export class AlertService {
+  /**
+   * Get a chat's subscription (null if it never subscribed)
+   */
+  static getSubscription(chatId: number): AlertSubscription | null {
+    const row = alertStatements.getSubscription.get(chatId);
+    return row ? rowToSubscription(row) : null;
+  }
+
+  /**
+   * Subscribe (or resubscribe) a chat, keeping previous thresholds unless overridden
+   */
+  static subscribe(chatId: number, changes: Partial<Omit<AlertSubscription, 'chatId' | 'active'>> = {}): AlertSubscription {
+    const existing = this.getSubscription(chatId);
+    const subscription: AlertSubscription = {
+      chatId,
+      minScore: existing?.minScore ?? DEFAULT_ALERT_THRESHOLDS.minScore,
+      minNewSnow: existing?.minNewSnow ?? DEFAULT_ALERT_THRESHOLDS.minNewSnow,
+      quietStart: existing?.quietStart ?? null,
+      quietEnd: existing?.quietEnd ?? null,
+      ...changes,
+      active: true
+    };
+
+    this.save(subscription);
+    return subscription;
+  }
+
+  /**
+   * Stop alerts for a chat (thresholds are kept for a later /subscribe)
+   */
+  static unsubscribe(chatId: number): boolean {
+    const existing = this.getSubscription(chatId);
+    if (!existing || !existing.active) return false;
+
+    this.save({ ...existing, active: false });
+    return true;
+  }
+
+  static getActiveSubscriptions(): AlertSubscription[] {
+    return (alertStatements.getActiveSubscriptions.all() as any[]).map(rowToSubscription);
+  }
+
+  private static save(subscription: AlertSubscription): void {
+    alertStatements.upsertSubscription.run(
+      subscription.chatId,
+      subscription.minScore,
+      subscription.minNewSnow,
+      subscription.quietStart,
+      subscription.quietEnd,
+      subscription.active ? 1 : 0
+    );
+  }
+}
+
+/**
+ * Whether a subscription is currently inside its quiet hours
+ */
+export function isInQuietHours(subscription: AlertSubscription, now: Date = new Date()): boolean {
+  if (!subscription.quietStart || !subscription.quietEnd) return false;
+  return isWithinClockRange(now, subscription.quietStart, subscription.quietEnd);
+}
+
+/**
+ * Find resorts that qualify for a subscription right now
+ */
+async function findAlertCandidates(subscription: AlertSubscription): Promise<ResortRecommendation[]> {
+  const preferences = UserPreferencesService.get(subscription.chatId);
+  const { origin, maxDriveTime = 180, profile } = UserPreferencesService.toRecommendationOptions(preferences);
+  const candidates: ResortRecommendation[] = [];
+
+  for (const [resortId, conditions] of DataStorageService.getAllLatestConditions()) {
+    // Cheap check first - most days nothing has enough new snow
+    if ((conditions.newSnow || 0) < subscription.minNewSnow) continue;
+
+    const mapping = findResortById(resortId);
+    if (!mapping || !mapping.coordinatesKnown) continue; // discovered resorts have no reliable location
+
+    const resort: Resort = {
+      ...mapping.resort,
+      mountainDepth: conditions.mountainDepth || 0,
+      valleyDepth: conditions.valleyDepth || 0,
+      newSnow: conditions.newSnow || 0,
+      liftsOpen: conditions.liftsOpen || 0,
+      liftsTotal: conditions.liftsTotal || 0,
+      lastUpdate: conditions.lastUpdate
+    };
+
+    const score = calculateScore(resort, { profile });
+    if (score.status !== 'OPEN' || score.score < subscription.minScore) continue;
+
+    const estimate = await getDriveEstimate(mapping, origin);
+    if (estimate.driveTimeMinutes > maxDriveTime) continue;
+
+    candidates.push({
+      resort,
+      score,
+      driveTime: estimate.driveTimeMinutes,
+      distance: estimate.distanceKm,
+      isFavourite: preferences.favouriteResorts.includes(resortId)
+    });
+  }
+
+  return candidates.sort((a, b) => b.score.score - a.score.score);
+}
+
+/**
+ * Evaluate all subscriptions and send powder alerts
+ */
+export async function evaluateAlerts(sender: AlertSender, now: Date = new Date()): Promise<AlertRunSummary> {
+  const subscriptions = AlertService.getActiveSubscriptions();
+  const summary: AlertRunSummary = { subscriptions: subscriptions.length, sent: 0, duplicates: 0, deferred: 0, failed: 0 };
+
+  for (const subscription of subscriptions) {
+    try {
+      const candidates = await findAlertCandidates(subscription);
+
+      for (const rec of candidates) {
+        // One alert per storm: key on when the current snowfall started
+        const stormStart = DataStorageService.getStormStart(rec.resort.id);
+        const stormKey = stormStart ? stormStart.toISOString() : toSwissDateKey(now);
+
+        if (alertStatements.hasAlerted.get(subscription.chatId, rec.resort.id, stormKey)) {
+          summary.duplicates++;
+          continue;
+        }
+
+        // Quiet hours: don't log it, so the next evaluation picks it up again
+        if (isInQuietHours(subscription, now)) {
+          summary.deferred++;
+          continue;
+        }
+
+        try {
+          await sender.sendMessage(
+            subscription.chatId,
+            `❄️ POWDER ALERT\n\n${formatRecommendation(rec)}\n\n🔕 /unsubscribe to stop alerts`
+          );
+          alertStatements.logAlert.run(
+            subscription.chatId,
+            rec.resort.id,
+            stormKey,
+            rec.score.score,
+            rec.resort.newSnow ?? null,
+            now.toISOString()
+          );
+          summary.sent++;
+        } catch (error) {
+          summary.failed++;
+          console.error(`❌ Failed to send alert for ${rec.resort.id} to ${subscription.chatId}:`, error);
+        }
+      }
+    } catch (error) {
+      summary.failed++;
+      console.error(`❌ Failed to evaluate alerts for chat ${subscription.chatId}:`, error);
+    }
+  }
+
+  console.log(`🔔 Alerts: ${summary.sent} sent, ${summary.duplicates} duplicates, ${summary.deferred} deferred, ${summary.failed} failed (${summary.subscriptions} subscriptions)`);
+  return summary;
+}
+
+/**
+ * Evaluate alerts after every scrape, plus a morning run that delivers
+ * anything held back by quiet hours (ALERT_FLUSH_TIMES, default 07:30)
+ */
+export function registerAlertJobs(sender: AlertSender): void {
+  onScrapeComplete(async () => {
+    await evaluateAlerts(sender);
+  });
+
+  const flushTimes = (process.env.ALERT_FLUSH_TIMES ?? '07:30')
+    .split(',')
+    .map(t => t.trim())
+    .filter(Boolean);
+
+  scheduler.addJob({
+    name: 'powder-alerts',
+    times: flushTimes,
+    retries: 0,
+    run: async () => {
+      await evaluateAlerts(sender);
+    }
+  });
+}
+
+/**
+ * Parse /subscribe arguments: "[minScore] [minNewSnow] [HH:MM-HH:MM | quiet off]"
+ * Returns null when the arguments don't make sense
+ */
+export function parseSubscribeArgs(args: string): Partial<Omit<AlertSubscription, 'chatId' | 'active'>> | null {
+  const changes: Partial<Omit<AlertSubscription, 'chatId' | 'active'>> = {};
+  const numbers: number[] = [];
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!.toLowerCase();
+
+    const quietMatch = token.match(/^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})$/);
+    if (quietMatch && quietMatch[1] && quietMatch[2]) {
+      // 25:99 would be stored and then never match in isWithinClockRange
+      if (parseClockTime(quietMatch[1]) === null || parseClockTime(quietMatch[2]) === null) return null;
+      changes.quietStart = quietMatch[1].padStart(5, '0');
+      changes.quietEnd = quietMatch[2].padStart(5, '0');
+      continue;
+    }
+
+    if (token === 'quiet' && tokens[i + 1]?.toLowerCase() === 'off') {
+      changes.quietStart = null;
+      changes.quietEnd = null;
+      i++;
+      continue;
+    }
+
+    if (token === 'quiet') continue;
+
+    const value = Number(token.replace(/cm$/, ''));
+    if (!Number.isFinite(value) || value < 0) return null;
+    numbers.push(value);
+  }
+
+  if (numbers.length > 2) return null;
+  if (numbers[0] !== undefined) changes.minScore = Math.min(100, numbers[0]);
+  if (numbers[1] !== undefined) changes.minNewSnow = numbers[1];
+
+  return changes;
+}
@@ -0,0 +1,210 @@
+import { timingSafeEqual } from 'node:crypto';
+import { getRecommendations, getResortDetails, getClosedResorts, type RecommendationOptions } from './recommendations.js';
+import { DataStorageService } from './dataStorage.js';
+import { scheduler } from './scheduler.js';
+import { getLastScrapeSummary, SCRAPE_JOB_NAME } from './scrapeJob.js';
+import { findResortById } from './resortMapping.js';
+import { findOrigin } from './origins.js';
+import { isScoringProfile } from './scoringProfiles.js';
+import { renderDashboardPage } from './dashboard.js';
+
+/**
+ * Local HTTP API - the bot's services as JSON for dashboards and shortcuts, plus the web dashboard at /
+ * Read endpoints are open (the server binds to localhost by default);
+ * POST /api/scrape needs `Authorization: Bearer <API_TOKEN>` and is disabled without a token
+ */
+
+type Handler = (url: URL, request: Request, params: string[]) => Promise<Response> | Response;
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handler: Handler;
+}
+
+function json(body: unknown, status: number = 200): Response {
+  return Response.json(body, { status });
+}
+
+function error(status: number, message: string): Response {
+  return json({ error: message }, status);
+}
+
+/**
+ * Query params -> RecommendationOptions, or an error message for the first bad one
+ * ?maxDrive=90&minScore=40&limit=3&includeClosed=true&origin=Bern&profile=powder&favourites=laax,zermatt&departure=2026-01-23T07:00:00%2B01:00
+ */
+export function parseRecommendationQuery(params: URLSearchParams): { options: RecommendationOptions } | { error: string } {
+  const options: RecommendationOptions = {};
+
+  const numbers: Array<[string, 'maxDriveTime' | 'minScore' | 'limit']> = [
+    ['maxDrive', 'maxDriveTime'],
+    ['minScore', 'minScore'],
+    ['limit', 'limit']
+  ];
+  for (const [param, key] of numbers) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value) || value < 0) {
+      return { error: `${param} must be a non-negative number` };
+    }
+    options[key] = value;
+  }
+
+  const includeClosed = params.get('includeClosed');
+  if (includeClosed !== null) {
+    if (!['true', 'false', '1', '0'].includes(includeClosed)) {
+      return { error: 'includeClosed must be true or false' };
+    }
+    options.includeClosed = includeClosed === 'true' || includeClosed === '1';
+  }
+
+  const originQuery = params.get('origin');
+  if (originQuery) {
+    const origin = findOrigin(originQuery);
+    if (!origin) return { error: `Unknown origin "${originQuery}"` };
+    options.origin = origin;
+  }
+
+  const profile = params.get('profile');
+  if (profile) {
+    if (!isScoringProfile(profile)) return { error: `Unknown scoring profile "${profile}"` };
+    options.profile = profile.toLowerCase();
+  }
+
+  const favourites = params.get('favourites');
+  if (favourites) {
+    options.favourites = favourites.split(',').map(id => id.trim()).filter(Boolean);
+  }
+
+  const departure = params.get('departure');
+  if (departure) {
+    const date = new Date(departure);
+    if (Number.isNaN(date.getTime())) return { error: 'departure must be an ISO date-time' };
+    options.departure = date;
+  }
+
+  return { options };
+}
+
+/**
+ * Constant-time check of the bearer token against API_TOKEN
+ */
+function isAuthorized(request: Request): boolean {
+  const token = process.env.API_TOKEN;
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!token || !match) return false;
+
+  const given = Buffer.from(match[1]!.trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: /^(\/dashboard)?$/,
+    handler: () => new Response(renderDashboardPage(), { headers: { 'content-type': 'text/html; charset=utf-8' } })
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/recommendations$/,
+    handler: async (url) => {
+      const parsed = parseRecommendationQuery(url.searchParams);
+      if ('error' in parsed) return error(400, parsed.error);
+      return json(await getRecommendations(parsed.options));
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/resorts\/([^/]+)$/,
+    handler: async (url, _request, [id]) => {
+      const resortId = decodeURIComponent(id!);
+      if (!findResortById(resortId)) return error(404, `Unknown resort "${resortId}"`);
+
+      const parsed = parseRecommendationQuery(url.searchParams);
+      if ('error' in parsed) return error(400, parsed.error);
+
+      const details = await getResortDetails(resortId, parsed.options.origin, parsed.options.profile);
+      return details ? json(details) : error(404, `Unknown resort "${resortId}"`);
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/closed$/,
+    handler: async (url) => {
+      const parsed = parseRecommendationQuery(url.searchParams);
+      if ('error' in parsed) return error(400, parsed.error);
+      return json(await getClosedResorts(parsed.options.origin));
+    }
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/conditions$/,
+    handler: () => json(Array.from(DataStorageService.getAllLatestConditions().values()))
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/stats$/,
+    handler: () => json({
+      ...DataStorageService.getStats(),
+      scrape: scheduler.getStatus().find(job => job.name === SCRAPE_JOB_NAME) || null,
+      lastScrape: getLastScrapeSummary()
+    })
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/scrape$/,
+    handler: async (_url, request) => {
+      if (!process.env.API_TOKEN) return error(403, 'Scraping over the API is disabled (set API_TOKEN)');
+      if (!isAuthorized(request)) return error(401, 'Missing or wrong bearer token');
+      if (scheduler.isRunning(SCRAPE_JOB_NAME)) return error(409, 'A scrape is already running');
+
+      const result = await scheduler.runNow(SCRAPE_JOB_NAME, { retries: 0 });
+      if (!result.success) return error(502, result.error || 'Scrape failed');
+      return json({ summary: getLastScrapeSummary(), stats: DataStorageService.getStats() });
+    }
+  }
+];
+
+/**
+ * Route a request - exported so scripts can call the API without opening a port
+ */
+export async function handleApiRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const matching = routes
+    .map(route => ({ route, match: url.pathname.replace(/\/+$/, '').match(route.pattern) }))
+    .filter(({ match }) => match !== null);
+
+  if (matching.length === 0) return error(404, `No endpoint ${url.pathname}`);
+
+  const found = matching.find(({ route }) => route.method === request.method);
+  if (!found) return error(405, `${request.method} not allowed on ${url.pathname}`);
+
+  try {
+    return await found.route.handler(url, request, found.match!.slice(1));
+  } catch (err) {
+    console.error(`❌ API ${request.method} ${url.pathname} failed:`, err);
+    return error(500, 'Internal error');
+  }
+}
+
+/**
+ * Start the HTTP server when API_PORT is set (API_HOST defaults to 127.0.0.1)
+ */
+export function startApiServer(): ReturnType<typeof Bun.serve> | null {
+  const port = Number(process.env.API_PORT);
+  if (!process.env.API_PORT || !Number.isInteger(port)) {
+    return null;
+  }
+
+  const server = Bun.serve({
+    port,
+    hostname: process.env.API_HOST || '127.0.0.1',
+    fetch: handleApiRequest
+  });
+  console.log(`🌐 Dashboard on http://${server.hostname}:${server.port}/, API under /api${process.env.API_TOKEN ? '' : ' (POST /api/scrape disabled, no API_TOKEN)'}`);
+  return server;
+}
@@ -0,0 +1,259 @@
+import { SWITZERLAND_OUTLINE, SWITZERLAND_BOUNDS } from '../data/switzerlandOutline.js';
+import { getScoringProfiles, DEFAULT_PROFILE_NAME } from './scoringProfiles.js';
+
+/**
+ * Self-contained web dashboard served next to the JSON API (no build step, no external assets)
+ * Map of Switzerland with every ranked resort, a sortable table and a refresh button
+ * All data comes from /api/recommendations; the refresh button calls POST /api/scrape with the API token
+ */
+
+const MAP_WIDTH = 640;
+// Degrees of longitude are ~0.68 as long as degrees of latitude at Swiss latitudes
+const LNG_SCALE = Math.cos((46.8 * Math.PI) / 180);
+const MAP_HEIGHT = Math.round(
+  (MAP_WIDTH * (SWITZERLAND_BOUNDS.maxLat - SWITZERLAND_BOUNDS.minLat)) /
+  ((SWITZERLAND_BOUNDS.maxLng - SWITZERLAND_BOUNDS.minLng) * LNG_SCALE)
+);
+
+function project(lng: number, lat: number): [number, number] {
+  const x = ((lng - SWITZERLAND_BOUNDS.minLng) / (SWITZERLAND_BOUNDS.maxLng - SWITZERLAND_BOUNDS.minLng)) * MAP_WIDTH;
+  const y = ((SWITZERLAND_BOUNDS.maxLat - lat) / (SWITZERLAND_BOUNDS.maxLat - SWITZERLAND_BOUNDS.minLat)) * MAP_HEIGHT;
+  return [Math.round(x * 10) / 10, Math.round(y * 10) / 10];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f4f7fa; color: #1d2733; }
+  header { background: #1d3557; color: #fff; padding: 12px 20px; display: flex; gap: 16px; align-items: center; flex-wrap: wrap; }
+  header h1 { font-size: 20px; margin: 0 auto 0 0; }
+  header label { font-size: 14px; }
+  header input, header select, header button { font-size: 14px; padding: 4px 6px; }
+  main { display: flex; gap: 20px; padding: 20px; flex-wrap: wrap; align-items: flex-start; }
+  #map { background: #fff; border-radius: 8px; box-shadow: 0 1px 3px #0002; max-width: 100%; }
+  #map .country { fill: #e8eef3; stroke: #8fa3b5; stroke-width: 1.5; }
+  #map circle { stroke: #fff; stroke-width: 1.5; cursor: pointer; }
+  #map circle.selected { stroke: #1d2733; stroke-width: 3; }
+  .table-wrap { flex: 1; min-width: 480px; background: #fff; border-radius: 8px; box-shadow: 0 1px 3px #0002; overflow: auto; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { padding: 6px 10px; text-align: right; border-bottom: 1px solid #e3e8ee; white-space: nowrap; }
+  th:first-child, td:first-child { text-align: left; }
+  th { cursor: pointer; user-select: none; background: #f0f3f6; position: sticky; top: 0; }
+  th.sorted::after { content: attr(data-dir); }
+  tr.closed td { color: #8a96a3; }
+  tr.selected td { background: #fff4d6; }
+  #status { font-size: 13px; padding: 0 20px; color: #5a6775; }
+`;
+
+// Plain ES5-style script: no template literals, so it can live inside this TS template
+const SCRIPT = `
+  var COLUMNS = [
+    { key: 'name', label: 'Resort' },
+    { key: 'score', label: 'Score' },
+    { key: 'drive', label: 'Drive (min)' },
+    { key: 'mountain', label: 'Mountain (cm)' },
+    { key: 'valley', label: 'Valley (cm)' },
+    { key: 'newSnow', label: 'New snow (cm)' },
+    { key: 'lifts', label: 'Lifts' }
+  ];
+  var rows = [];
+  var sortKey = 'score';
+  var sortDir = -1;
+  var selected = null;
+
+  function $(id) { return document.getElementById(id); }
+  function setStatus(text) { $('status').textContent = text; }
+
+  function scoreColor(row) {
+    if (row.status === 'CLOSED') return '#9aa5b1';
+    if (row.score >= 70) return '#2a9d8f';
+    if (row.score >= 40) return '#e9c46a';
+    return '#e76f51';
+  }
+
+  function load() {
+    var params = new URLSearchParams({
+      includeClosed: 'true',
+      minScore: '0',
+      limit: '200',
+      maxDrive: $('maxDrive').value,
+      profile: $('profile').value
+    });
+    setStatus('Loading...');
+    return fetch('/api/recommendations?' + params).then(function (res) {
+      return res.json().then(function (body) {
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        rows = body.recommendations.map(function (rec) {
+          return {
+            id: rec.resort.id,
+            name: rec.resort.name,
+            score: Math.round(rec.score.score),
+            status: rec.score.status,
+            reason: rec.score.reason,
+            drive: rec.driveTime,
+            mountain: rec.resort.mountainDepth || 0,
+            valley: rec.resort.valleyDepth || 0,
+            newSnow: rec.resort.newSnow || 0,
+            lifts: rec.resort.liftsOpen || 0,
+            liftsTotal: rec.resort.liftsTotal || 0,
+            coordinates: rec.resort.coordinates
+          };
+        });
+        render();
+        setStatus(rows.length + ' resorts within ' + body.summary.maxDriveTime + ' min of ' + body.summary.origin +
+          (body.summary.unlocated > 0 ? ' (' + body.summary.unlocated + ' without a known location left out)' : ''));
+      });
+    }).catch(function (error) {
+      setStatus('Failed to load recommendations: ' + error.message);
+    });
+  }
+
+  function sortedRows() {
+    return rows.slice().sort(function (a, b) {
+      var x = a[sortKey], y = b[sortKey];
+      if (typeof x === 'string') return sortDir * x.localeCompare(y);
+      return sortDir * (x - y) || b.score - a.score;
+    });
+  }
+
+  function select(id) {
+    selected = selected === id ? null : id;
+    render();
+  }
+
+  function renderTable() {
+    var head = $('head');
+    head.innerHTML = '';
+    COLUMNS.forEach(function (column) {
+      var th = document.createElement('th');
+      th.textContent = column.label;
+      if (column.key === sortKey) {
+        th.className = 'sorted';
+        th.setAttribute('data-dir', sortDir > 0 ? ' ▲' : ' ▼');
+      }
+      th.onclick = function () {
+        sortDir = column.key === sortKey ? -sortDir : (column.key === 'name' || column.key === 'drive' ? 1 : -1);
+        sortKey = column.key;
+        render();
+      };
+      head.appendChild(th);
+    });
+
+    var body = $('rows');
+    body.innerHTML = '';
+    sortedRows().forEach(function (row) {
+      var tr = document.createElement('tr');
+      tr.className = (row.status === 'CLOSED' ? 'closed' : '') + (row.id === selected ? ' selected' : '');
+      tr.title = row.reason;
+      [row.name, row.score, row.drive, row.mountain, row.valley, row.newSnow, row.lifts + '/' + row.liftsTotal]
+        .forEach(function (value) {
+          var td = document.createElement('td');
+          td.textContent = value;
+          tr.appendChild(td);
+        });
+      tr.onclick = function () { select(row.id); };
+      body.appendChild(tr);
+    });
+  }
+
+  function renderMap() {
+    var layer = $('markers');
+    layer.innerHTML = '';
+    rows.slice().sort(function (a, b) { return a.score - b.score; }).forEach(function (row) {
+      if (!row.coordinates) return;
+      var point = project(row.coordinates.lng, row.coordinates.lat);
+      var circle = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+      circle.setAttribute('cx', point[0]);
+      circle.setAttribute('cy', point[1]);
+      circle.setAttribute('r', row.id === selected ? 9 : 6);
+      circle.setAttribute('fill', scoreColor(row));
+      if (row.id === selected) circle.setAttribute('class', 'selected');
+      var title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+      title.textContent = row.name + ': ' + row.score + ' (' + row.drive + ' min)';
+      circle.appendChild(title);
+      circle.onclick = function () { select(row.id); };
+      layer.appendChild(circle);
+    });
+  }
+
+  function render() {
+    renderTable();
+    renderMap();
+  }
+
+  function refresh() {
+    var token = $('token').value.trim();
+    localStorage.setItem('icekingApiToken', token);
+    $('refresh').disabled = true;
+    setStatus('Scraping latest conditions, this takes a minute...');
+    fetch('/api/scrape', { method: 'POST', headers: { Authorization: 'Bearer ' + token } })
+      .then(function (res) {
+        return res.json().then(function (body) {
+          if (!res.ok) throw new Error(body.error || res.statusText);
+          return load();
+        });
+      })
+      .catch(function (error) { setStatus('Refresh failed: ' + error.message); })
+      .then(function () { $('refresh').disabled = false; });
+  }
+
+  $('token').value = localStorage.getItem('icekingApiToken') || '';
+  $('maxDrive').onchange = load;
+  $('profile').onchange = load;
+  $('refresh').onclick = refresh;
+  load();
+`;
+
+/**
+ * The dashboard page (GET / and /dashboard)
+ */
+export function renderDashboardPage(): string {
+  const outline = SWITZERLAND_OUTLINE.map(([lng, lat]) => project(lng, lat).join(',')).join(' ');
+  const profiles = getScoringProfiles()
+    .map(p => `<option value="${escapeHtml(p.name)}"${p.name === DEFAULT_PROFILE_NAME ? ' selected' : ''}>${escapeHtml(p.label)}</option>`)
+    .join('');
+  const projection = `
+  var BOUNDS = ${JSON.stringify(SWITZERLAND_BOUNDS)};
+  function project(lng, lat) {
+    return [
+      (lng - BOUNDS.minLng) / (BOUNDS.maxLng - BOUNDS.minLng) * ${MAP_WIDTH},
+      (BOUNDS.maxLat - lat) / (BOUNDS.maxLat - BOUNDS.minLat) * ${MAP_HEIGHT}
+    ];
+  }`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>IceKing Dashboard</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>🏔️ IceKing</h1>
+  <label>Max drive <input id="maxDrive" type="number" min="15" max="600" step="15" value="180"> min</label>
+  <label>Profile <select id="profile">${profiles}</select></label>
+  <label>API token <input id="token" type="password" size="12"></label>
+  <button id="refresh">🔄 Refresh data</button>
+</header>
+<p id="status"></p>
+<main>
+  <svg id="map" width="${MAP_WIDTH}" height="${MAP_HEIGHT}" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}">
+    <polygon class="country" points="${outline}"></polygon>
+    <g id="markers"></g>
+  </svg>
+  <div class="table-wrap">
+    <table>
+      <thead><tr id="head"></tr></thead>
+      <tbody id="rows"></tbody>
+    </table>
+  </div>
+</main>
+<script>${projection}${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -1,21 +1,38 @@
-import { driveTimeStatements, conditionStatements, mockDb } from '../database/index.js';
-import type { Conditions, DriveTime } from '../types/index.js';
+import db, { driveTimeStatements, conditionStatements, historyStatements, snapshotStatements, forecastStatements, qualityStatements, scoreStatements, resortStatements, layoutStatements, mockDb } from '../database/index.js';
+import type { Conditions, ConditionsDisagreement, ConditionsHistoryEntry, ConditionsProvenance, DailyForecast, DailySnapshot, DriveTime, ResortForecast, ScoreResult, SnowQualityRating, StoredScore } from '../types/index.js';
 import type { ScrapedResortData, ResortMetadata } from '../scrapers/bergfex.js';
-import { findResortByBergfexName } from './resortMapping.js';
-import { estimateToDriveTime, getDriveEstimate } from './driveTimes.js';
+import { findResortByBergfexName, findResortById, registerDiscoveredResort, updateDetailUrl, updateSeasonStatus, countResorts, countUnlocatedResorts } from './resortMapping.js';
+import { estimateToDriveTime, getDriveEstimate, hasGoogleMapsKey } from './driveTimes.js';
+import { toSwissDateKey } from '../utils/time.js';
+import { DEFAULT_ORIGIN } from './origins.js';
+import { DEFAULT_PROFILE_NAME } from './scoringProfiles.js';
 
 /**
- * Data storage service for managing scraped data (using mock database for now)
+ * Data storage service for managing scraped data in SQLite
  */
 
+// Provenance and disagreements are stored as JSON (NULL before reconciliation existed)
+function parseJsonColumn<T>(value: string | null | undefined): T | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
 export class DataStorageService {
   /**
    * Store scraped bergfex conditions in database
    * Now stores ALL scraped resorts, not just mapped ones
+   * Every scrape is also appended to conditions_history
+   * Reconciled records also keep which source each value came from
    */
-  static storeBergfexConditions(scrapedData: ScrapedResortData[]): void {
+  static storeBergfexConditions(scrapedData: Array<ScrapedResortData & Pick<Conditions, 'provenance' | 'disagreements'>>): void {
     console.log(`Storing ${scrapedData.length} scraped conditions...`);
     let stored = 0;
+    const recordedAt = new Date().toISOString();
+    const today = toSwissDateKey(new Date());
 
     for (const item of scrapedData) {
       // Try to find matching resort in our mapping
@@ -31,17 +48,49 @@ export class DataStorageService {
           item.newSnow,
           item.liftsOpen,
           item.liftsTotal,
-          item.lastUpdate?.toISOString() || new Date().toISOString()
+          item.lastUpdate?.toISOString() || new Date().toISOString(),
+          item.provenance ? JSON.stringify(item.provenance) : null,
+          item.disagreements && item.disagreements.length > 0 ? JSON.stringify(item.disagreements) : null
+        );
+
+        // Append to history so later scrapes don't erase the season's evolution
+        historyStatements.insert.run(
+          resortId,
+          item.mountainDepth,
+          item.valleyDepth,
+          item.newSnow,
+          item.liftsOpen,
+          item.liftsTotal,
+          item.lastUpdate?.toISOString() || null,
+          recordedAt
+        );
+
+        // Keep one snapshot per day for /trend
+        snapshotStatements.upsert.run(
+          resortId,
+          today,
+          item.mountainDepth,
+          item.valleyDepth,
+          item.newSnow,
+          item.liftsOpen,
+          item.liftsTotal,
+          recordedAt
         );
 
-        // Store season status if available
-        if (item.seasonStatus) {
-          // Update the resort metadata with season status
-          const existing = mockDb.resorts.find(r => r.id === resortId);
-          if (existing) {
-            existing.seasonStatus = item.seasonStatus;
-            console.log(`📊 Updated season status for ${item.name}: ${item.seasonStatus}`);
-          }
+        // New resorts join the catalogue; without a bergfex status indicator, fall back to lifts
+        const seasonStatus = item.seasonStatus || ((item.liftsOpen || 0) > 0 ? 'OPEN' : 'CLOSED');
+        if (!resortMapping) {
+          registerDiscoveredResort(resortId, item.name, seasonStatus);
+        }
+
+        // The resort page is where geocoding looks for coordinates
+        if (item.detailUrl) {
+          updateDetailUrl(resortId, item.detailUrl);
+        }
+
+        // Store season status if available (discovered resorts always follow their lifts)
+        if (item.seasonStatus || (resortMapping && !resortMapping.isCurated)) {
+          updateSeasonStatus(resortId, seasonStatus);
         }
 
         stored++;
@@ -63,7 +112,7 @@ export class DataStorageService {
    */
   static getLatestConditions(resortId: string): Conditions | null {
     try {
-      const row = conditionStatements.getByResort.get(resortId);
+      const row = conditionStatements.getByResort.get(resortId) as any;
       if (!row) return null;
 
       return {
@@ -74,7 +123,9 @@ export class DataStorageService {
         newSnow: row.new_snow,
         liftsOpen: row.lifts_open,
         liftsTotal: row.lifts_total,
-        lastUpdate: new Date(row.last_update)
+        lastUpdate: new Date(row.last_update),
+        provenance: parseJsonColumn<ConditionsProvenance>(row.provenance),
+        disagreements: parseJsonColumn<ConditionsDisagreement[]>(row.disagreements)
       };
     } catch (error) {
       console.error(`Error getting conditions for ${resortId}:`, error);
@@ -116,7 +167,9 @@ export class DataStorageService {
             newSnow: row.new_snow,
             liftsOpen: row.lifts_open,
             liftsTotal: row.lifts_total,
-            lastUpdate: lastUpdate
+            lastUpdate: lastUpdate,
+            provenance: parseJsonColumn<ConditionsProvenance>(row.provenance),
+            disagreements: parseJsonColumn<ConditionsDisagreement[]>(row.disagreements)
           };
           conditions.set(resortId, formattedCondition);
         } else {
@@ -130,6 +183,263 @@ export class DataStorageService {
     return conditions;
   }
 
+  /**
+   * Get the raw conditions history for a resort over the last N days (oldest first)
+   */
+  static getConditionsHistory(resortId: string, days: number = 7): ConditionsHistoryEntry[] {
+    try {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      const rows = historyStatements.getByResortSince.all(resortId, since) as any[];
+
+      return rows.map(row => ({
+        resortId: row.resort_id,
+        recordedAt: new Date(row.recorded_at),
+        reportedAt: row.reported_at ? new Date(row.reported_at) : null,
+        mountainDepth: row.mountain_depth,
+        valleyDepth: row.valley_depth,
+        newSnow: row.new_snow,
+        liftsOpen: row.lifts_open,
+        liftsTotal: row.lifts_total
+      }));
+    } catch (error) {
+      console.error(`Error getting conditions history for ${resortId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Snow depth over the last N days (oldest first)
+   */
+  static getDepthHistory(resortId: string, days: number = 7): Array<{
+    date: Date;
+    mountainDepth: number | null;
+    valleyDepth: number | null;
+  }> {
+    return this.getConditionsHistory(resortId, days).map(entry => ({
+      date: entry.recordedAt,
+      mountainDepth: entry.mountainDepth,
+      valleyDepth: entry.valleyDepth
+    }));
+  }
+
+  /**
+   * Total new snow reported over the last N hours (default 72h)
+   * Each bergfex report is counted once, however often it was scraped
+   */
+  static getNewSnowSum(resortId: string, hours: number = 72): number {
+    try {
+      const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+      const row = historyStatements.sumNewSnowSince.get(resortId, since) as any;
+      return row?.total || 0;
+    } catch (error) {
+      console.error(`Error summing new snow for ${resortId}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * When the current snowfall episode started for a resort (null if no new snow right now)
+   * Used to announce each storm only once
+   */
+  static getStormStart(resortId: string): Date | null {
+    try {
+      const row = historyStatements.getStormStart.get(resortId) as any;
+      return row?.storm_start ? new Date(row.storm_start) : null;
+    } catch (error) {
+      console.error(`Error getting storm start for ${resortId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Lifts open over the last N days, with the net change from first to last reading
+   */
+  static getLiftsOpenTrend(resortId: string, days: number = 7): {
+    points: Array<{ date: Date; liftsOpen: number | null; liftsTotal: number | null }>;
+    change: number | null;
+  } {
+    const points = this.getConditionsHistory(resortId, days).map(entry => ({
+      date: entry.recordedAt,
+      liftsOpen: entry.liftsOpen,
+      liftsTotal: entry.liftsTotal
+    }));
+
+    const known = points.filter(p => p.liftsOpen !== null);
+    const first = known[0];
+    const last = known[known.length - 1];
+    const change = first && last ? (last.liftsOpen || 0) - (first.liftsOpen || 0) : null;
+
+    return { points, change };
+  }
+
+  /**
+   * Daily snapshots for a resort over the last N days (oldest first, missing days omitted)
+   */
+  static getDailySnapshots(resortId: string, days: number = 7): DailySnapshot[] {
+    try {
+      const since = toSwissDateKey(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+      const rows = snapshotStatements.getByResortSince.all(resortId, since) as any[];
+
+      return rows.map(row => ({
+        resortId: row.resort_id,
+        day: row.day,
+        mountainDepth: row.mountain_depth,
+        valleyDepth: row.valley_depth,
+        newSnow: row.new_snow,
+        liftsOpen: row.lifts_open,
+        liftsTotal: row.lifts_total
+      }));
+    } catch (error) {
+      console.error(`Error getting daily snapshots for ${resortId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Store a resort's daily forecast (replaces earlier forecasts for the same days)
+   */
+  static storeForecast(
+    resortId: string,
+    coordinates: { lat: number; lng: number },
+    provider: string,
+    days: DailyForecast[]
+  ): void {
+    const fetchedAt = new Date().toISOString();
+
+    for (const day of days) {
+      forecastStatements.upsert.run(
+        resortId,
+        day.date,
+        coordinates.lat,
+        coordinates.lng,
+        day.snowfallCm,
+        day.tempMinC,
+        day.tempMaxC,
+        day.windMaxKmh,
+        day.freezingLevelM,
+        provider,
+        fetchedAt
+      );
+    }
+  }
+
+  /**
+   * Stored forecast for a resort from today onwards (null if never fetched)
+   */
+  static getForecast(resortId: string): ResortForecast | null {
+    try {
+      const rows = forecastStatements.getByResortFrom.all(resortId, toSwissDateKey(new Date())) as any[];
+      if (rows.length === 0) return null;
+
+      return {
+        resortId,
+        provider: rows[0].provider,
+        fetchedAt: new Date(rows[0].fetched_at),
+        days: rows.map(row => ({
+          date: row.forecast_date,
+          snowfallCm: row.snowfall_cm || 0,
+          tempMinC: row.temp_min,
+          tempMaxC: row.temp_max,
+          windMaxKmh: row.wind_max,
+          freezingLevelM: row.freezing_level
+        }))
+      };
+    } catch (error) {
+      console.error(`Error getting forecast for ${resortId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Forecast snowfall between two Swiss days ("YYYY-MM-DD", both included)
+   */
+  static getForecastSnowfall(resortId: string, fromDay: string, toDay: string): number {
+    const forecast = this.getForecast(resortId);
+    if (!forecast) return 0;
+
+    return forecast.days
+      .filter(day => day.date >= fromDay && day.date <= toDay)
+      .reduce((sum, day) => sum + day.snowfallCm, 0);
+  }
+
+  /**
+   * Store a snow quality rating (replaces an earlier rating for the same resort and day)
+   */
+  static storeSnowQuality(rating: Omit<SnowQualityRating, 'recordedAt'>): void {
+    qualityStatements.upsert.run(
+      rating.resortId,
+      rating.date,
+      rating.powder,
+      rating.freestyle,
+      rating.source,
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Snow quality rating for a resort on a day (default today)
+   */
+  static getSnowQuality(resortId: string, date: string = toSwissDateKey(new Date())): SnowQualityRating | null {
+    try {
+      const row = qualityStatements.getByResortDate.get(resortId, date) as any;
+      if (!row) return null;
+
+      return {
+        resortId,
+        date: row.rating_date,
+        powder: row.powder,
+        freestyle: row.freestyle,
+        source: row.source,
+        recordedAt: new Date(row.recorded_at)
+      };
+    } catch (error) {
+      console.error(`Error getting snow quality for ${resortId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist the latest score (with breakdown) for a resort and scoring profile
+   */
+  static storeScore(resortId: string, score: ScoreResult): void {
+    try {
+      scoreStatements.upsert.run(
+        resortId,
+        score.profile || DEFAULT_PROFILE_NAME,
+        score.score,
+        score.status,
+        score.reason,
+        score.breakdown ? JSON.stringify(score.breakdown) : null,
+        new Date().toISOString()
+      );
+    } catch (error) {
+      console.error(`Error storing score for ${resortId}:`, error);
+    }
+  }
+
+  /**
+   * Latest stored score for a resort and scoring profile (null if never scored)
+   */
+  static getStoredScore(resortId: string, profile: string = DEFAULT_PROFILE_NAME): StoredScore | null {
+    try {
+      const row = scoreStatements.getByResort.get(resortId, profile) as any;
+      if (!row) return null;
+
+      return {
+        resortId,
+        profile: row.profile,
+        score: row.score,
+        status: row.status,
+        reason: row.reason,
+        breakdown: row.breakdown ? JSON.parse(row.breakdown) : undefined,
+        calculatedAt: new Date(row.calculated_at)
+      };
+    } catch (error) {
+      console.error(`Error getting stored score for ${resortId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Store or update drive time data
    */
@@ -140,6 +450,8 @@ export class DataStorageService {
         driveTime.origin,
         driveTime.driveTimeMinutes,
         driveTime.distanceKm,
+        driveTime.source,
+        driveTime.route ?? null,
         driveTime.cachedAt.toISOString()
       );
     } catch (error) {
@@ -150,7 +462,7 @@ export class DataStorageService {
   /**
    * Get drive time for a resort
    */
-  static getDriveTime(resortId: string, origin: string = "Hedingen"): DriveTime | null {
+  static getDriveTime(resortId: string, origin: string = DEFAULT_ORIGIN.name): DriveTime | null {
     try {
       const row = driveTimeStatements.getByResortAndOrigin.get(resortId, origin) as any;
       if (!row) return null;
@@ -169,6 +481,8 @@ export class DataStorageService {
         origin: row.origin,
         driveTimeMinutes: row.drive_time_minutes,
         distanceKm: row.distance_km,
+        source: row.source,
+        route: row.route ?? undefined,
         cachedAt: cachedAt
       };
     } catch (error) {
@@ -190,7 +504,9 @@ export class DataStorageService {
       return;
     }
 
-    console.log('📊 No drive times found, initializing from Google Maps API...');
+    // Without a key the road graph fills the cache - nothing to throttle then
+    const fromGoogle = hasGoogleMapsKey();
+    console.log(`📊 No drive times found, initializing from ${fromGoogle ? 'Google Maps API' : 'the offline road graph'}...`);
 
     const { getAllResorts } = require('./resortMapping.js');
     const resorts = getAllResorts();
@@ -211,14 +527,14 @@ export class DataStorageService {
           console.log(`   ✅ ${resort.resort.name}: ${estimate.driveTimeMinutes}min (${estimate.distanceKm}km)`);
 
           // Add delay between API calls
-          await new Promise(resolve => setTimeout(resolve, 200)); // 200ms delay
+          if (fromGoogle) await new Promise(resolve => setTimeout(resolve, 200)); // 200ms delay
         } catch (error) {
           console.log(`   ❌ ${resort.resort.name}: Failed to get drive time`);
         }
       }
 
       // Longer delay between batches
-      if (i + batchSize < resorts.length) {
+      if (fromGoogle && i + batchSize < resorts.length) {
         await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay between batches
       }
     }
@@ -236,17 +552,22 @@ export class DataStorageService {
 
   /**
    * Clear all stored data (for testing/reset)
+   * conditions_history is append-only and survives, so a reset doesn't lose the season
    */
   static clearAllData(): void {
     try {
       // Clear SQLite tables
-      const { db } = require('../database/index.js');
       db.exec('DELETE FROM drive_times');
       db.exec('DELETE FROM resort_conditions');
+      db.exec('DELETE FROM daily_snapshots');
+      db.exec('DELETE FROM forecasts');
+      db.exec('DELETE FROM scores');
+
+      // Resorts discovered by scraping come back with the next scrape; the curated catalogue stays
+      resortStatements.deleteDiscovered.run();
 
-      // Clear in-memory mock data
+      // Legacy mockDb conditions (nothing reads them, but keep the array in step)
       mockDb.conditions.length = 0;
-      mockDb.resorts.length = 0;
       console.log('✅ Cleared all data from database');
     } catch (error) {
       console.error('❌ Failed to clear database:', error);
@@ -258,7 +579,6 @@ export class DataStorageService {
    */
   static clearDriveTimes(): void {
     try {
-      const db = require('../database/index.js').default || require('../database/index.js');
       db.exec('DELETE FROM drive_times');
       console.log('✅ Cleared all drive times from database');
     } catch (error) {
@@ -274,9 +594,18 @@ export class DataStorageService {
       // Clean up old drive times (> 1 year)
       driveTimeStatements.deleteOld.run();
 
-      // Clean up old conditions (> 1 day)
+      // Clean up old conditions (> 1 day) - conditions_history keeps the full season
       conditionStatements.deleteOld.run();
 
+      // Forecasts for days that are already over
+      forecastStatements.deleteBefore.run(toSwissDateKey(new Date()));
+
+      // Quality ratings only matter on their own day; keep a month for reference
+      qualityStatements.deleteBefore.run(toSwissDateKey(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+
+      // Page layouts only need to reach back to the previous scrape
+      layoutStatements.deleteOld.run(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+
       console.log('✅ Cleaned up expired cached data');
     } catch (error) {
       console.error('❌ Failed to cleanup expired data:', error);
@@ -284,42 +613,43 @@ export class DataStorageService {
   }
 
   /**
-   * Store resort metadata from main bergfex page
+   * Store resort metadata from main bergfex page in the resorts table
+   * Matches by internal id first, then by bergfex name
    */
   static storeResortMetadata(metadata: ResortMetadata[]): void {
     console.log(`Storing metadata for ${metadata.length} resorts...`);
+    let stored = 0;
 
-    // For now, we'll enhance our existing resort mappings
-    // In a real implementation, this would be stored in a separate metadata table
     for (const meta of metadata) {
-      // Find existing mapping and enhance it
-      const existing = mockDb.resorts.find(r => r.id === meta.resortId);
-      if (existing) {
-        // Add metadata to existing resort
-        existing.elevation = meta.elevation;
-        existing.pistesKm = meta.pistesKm;
-        existing.liftsTotal = meta.liftsTotal;
-        existing.price = meta.price;
-        console.log(`✅ Enhanced ${meta.name} with metadata`);
+      const mapping = findResortById(meta.resortId) || findResortByBergfexName(meta.name);
+      if (!mapping) continue;
+
+      try {
+        resortStatements.updateMetadata.run(meta.elevation, meta.pistesKm, meta.liftsTotal, meta.price, mapping.internalId);
+        stored++;
+      } catch (error) {
+        console.error(`❌ Failed to store metadata for ${meta.name}:`, error);
       }
     }
+
+    console.log(`✅ Enhanced ${stored} resorts with metadata`);
   }
 
   /**
-   * Get resort metadata
+   * Get resort metadata (null if the resort isn't in the catalogue)
    */
   static getResortMetadata(resortId: string): ResortMetadata | null {
-    const resort = mockDb.resorts.find(r => r.id === resortId);
-    if (!resort) return null;
+    const row = resortStatements.getById.get(resortId) as any;
+    if (!row) return null;
 
     return {
-      name: resort.name,
-      elevation: resort.elevation || null,
-      pistesKm: resort.pistesKm || null,
-      liftsTotal: resort.liftsTotal || null,
-      snowDepth: resort.snowDepth || null,
-      price: resort.price || null,
-      resortId: resort.id
+      name: row.name,
+      elevation: row.elevation || null,
+      pistesKm: row.pistes_km || null,
+      liftsTotal: row.lifts_total || null,
+      snowDepth: null, // live depth lives in resort_conditions
+      price: row.price || null,
+      resortId: row.id
     };
   }
 
@@ -328,7 +658,9 @@ export class DataStorageService {
    */
   static getStats(): {
     resorts: number;
+    unlocated: number;
     conditions: number;
+    history: number;
     driveTimes: number;
     scores: number;
   } {
@@ -336,10 +668,12 @@ export class DataStorageService {
     const conditionsMap = this.getAllLatestConditions();
 
     return {
-      resorts: mockDb.resorts.length,
+      resorts: countResorts(),
+      unlocated: countUnlocatedResorts(),
       conditions: conditionsMap.size, // Count unique resorts with conditions
+      history: (historyStatements.count.get() as any)?.count || 0,
       driveTimes: driveTimeStatements.getAll.all().length,
-      scores: 0 // Not implemented yet
+      scores: (scoreStatements.count.get() as any)?.count || 0
     };
   }
 }
@@ -1,185 +1,104 @@
 import axios from 'axios';
 import { DataStorageService } from './dataStorage.js';
-import type { DriveTime } from '../types/index.js';
+import { DEFAULT_ORIGIN, getOrigin } from './origins.js';
+import { findRoadRoute, describeRoadRoute } from './roadRouting.js';
+import type { DriveTime, DriveTimeSource, Origin } from '../types/index.js';
 import type { ResortMapping } from './resortMapping.js';
 
-// Hedingen coordinates (user's home location)
-const HEDINGEN_COORDS = { lat: 47.2981, lng: 8.4483 };
-
 // Google Maps API configuration
 const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY || process.env.GOOGLE_API_KEY;
 const ROUTES_API_URL = 'https://routes.googleapis.com/directions/v2:computeRoutes';
 
 /**
  * Drive time calculation service
- * Uses Google Maps Routes API for accurate drive times
- * Falls back to estimated calculations if API unavailable
+ * Uses Google Maps Routes API for accurate drive times (cached per origin)
+ * Without a key, or when the API fails, routes offline over the bundled road graph (cached as well)
  */
 
 export interface DriveEstimate {
   resortId: string;
+  origin: string;
   distanceKm: number;
   driveTimeMinutes: number;
+  source: DriveTimeSource;
   route: string;
 }
 
 /**
- * Calculate Haversine distance between two coordinates
+ * Whether drive times can come from Google - without a key everything is routed offline
  */
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = toRadians(lat2 - lat1);
-  const dLng = toRadians(lng2 - lng1);
-
-  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-    Math.sin(dLng/2) * Math.sin(dLng/2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
-
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
-}
-
-/**
- * Estimate drive time based on distance and typical Swiss road speeds
- * This is a simplified model - in production use Google Maps API
- */
-function estimateDriveTime(distanceKm: number, resortId?: string): number {
-  // Swiss driving assumptions:
-  // - Highway: ~100 km/h average (including traffic)
-  // - Mountain roads: ~60 km/h average
-  // - Valley routes (like Lötschental): ~40 km/h average due to passes and narrow roads
-  // - Add 10 minutes for city/traffic delays
-
-  let speedKmh = 80; // Default mixed highway/mountain speed
-  let baseDelay = 15;
-
-  // Special handling for challenging valley routes
-  const challengingRoutes = [
-    'lauchernalp-loetschental', // Requires Gampel/Lötschental pass
-    'saas-fee', // Requires mountain passes
-    'zermatt', // Requires mountain passes
-    'obergoms-goms', // Requires Furka pass
-    'realp' // Requires Furka pass
-  ];
-
-  if (challengingRoutes.includes(resortId || '')) {
-    speedKmh = 45; // Even slower for valley routes with passes
-    baseDelay = 45; // More time for mountain passes and difficult access
-  } else if (distanceKm <= 50) {
-    speedKmh = 100; // Mostly highway
-    baseDelay = 10;
-  } else if (distanceKm > 150) {
-    speedKmh = 60; // Long mountain drives
-    baseDelay = 20;
-  }
-
-  // Calculate time based on distance and speed
-  const driveTimeHours = distanceKm / speedKmh;
-  const driveTimeMinutes = driveTimeHours * 60;
-  const estimated = Math.round(driveTimeMinutes + baseDelay);
-
-  console.log(`   Drive estimate: ${distanceKm.toFixed(1)}km @ ${speedKmh}km/h → ${estimated}min ${challengingRoutes.includes(resortId || '') ? '(challenging route)' : ''}`);
-  return estimated;
+export function hasGoogleMapsKey(): boolean {
+  return Boolean(GOOGLE_MAPS_API_KEY);
 }
 
 /**
  * Get drive time estimate for a resort (with Google Maps API when available)
+ * The route description always comes from the road graph; Google only returns time and distance
  */
-export async function getDriveEstimate(resort: ResortMapping): Promise<DriveEstimate> {
-  // Check for cached result first
-  const cached = DataStorageService.getDriveTime(resort.internalId);
-  if (cached) {
-    let route = "A4 → A2";
-    if (resort.resort.coordinates.lng < 8.0) {
-      route = "A4 → A9 → Valais";
-    } else if (resort.resort.coordinates.lat > 47.0) {
-      route = "A4 → A3 → Eastern Switzerland";
-    }
-
-    console.log(`   📋 Cache hit for ${resort.internalId}: ${cached.driveTimeMinutes}min`);
-    return {
-      resortId: resort.internalId,
-      distanceKm: cached.distanceKm,
-      driveTimeMinutes: cached.driveTimeMinutes,
-      route
-    };
+export async function getDriveEstimate(resort: ResortMapping, origin: Origin = DEFAULT_ORIGIN): Promise<DriveEstimate> {
+  // Check for cached result first (cached per origin) - a road graph result only stands until Google answers,
+  // legacy rows of unknown origin are always looked up again
+  const cached = DataStorageService.getDriveTime(resort.internalId, origin.name);
+  if (cached && (cached.source === 'google' || (cached.source === 'road' && !GOOGLE_MAPS_API_KEY))) {
+    console.log(`   📋 Cache hit for ${resort.internalId} from ${origin.name}: ${cached.driveTimeMinutes}min (${cached.source})`);
+    return toDriveEstimate(cached, cached.route ?? describeRoadRoute(findRoadRoute(origin.coordinates, resort.resort.coordinates)));
   }
 
+  const roadRoute = findRoadRoute(origin.coordinates, resort.resort.coordinates);
+  const route = describeRoadRoute(roadRoute);
+
   // Try Google Maps API
-  console.log(`   🌐 Calling Google Maps API for ${resort.internalId}...`);
-  const googleResult = await callGoogleMapsAPI(
-    HEDINGEN_COORDS.lat,
-    HEDINGEN_COORDS.lng,
-    resort.resort.coordinates.lat,
-    resort.resort.coordinates.lng
-  );
+  if (GOOGLE_MAPS_API_KEY) {
+    console.log(`   🌐 Calling Google Maps API for ${resort.internalId}...`);
+    const googleResult = await callGoogleMapsAPI(
+      origin.coordinates.lat,
+      origin.coordinates.lng,
+      resort.resort.coordinates.lat,
+      resort.resort.coordinates.lng
+    );
 
-  if (googleResult) {
-    console.log(`   ✅ Google Maps success for ${resort.internalId}: ${googleResult.distanceKm}km, ${googleResult.durationMinutes}min`);
-    // Cache successful API result
-    const driveTimeData: DriveTime = {
-      resortId: resort.internalId,
-      origin: 'Hedingen',
-      driveTimeMinutes: googleResult.durationMinutes,
-      distanceKm: googleResult.distanceKm,
-      cachedAt: new Date()
-    };
-    DataStorageService.storeDriveTime(driveTimeData);
-
-    // Simple route description based on location
-    let route = "A4 → A2";
-    if (resort.resort.coordinates.lng < 8.0) {
-      route = "A4 → A9 → Valais";
-    } else if (resort.resort.coordinates.lat > 47.0) {
-      route = "A4 → A3 → Eastern Switzerland";
+    if (googleResult) {
+      console.log(`   ✅ Google Maps success for ${resort.internalId}: ${googleResult.distanceKm}km, ${googleResult.durationMinutes}min`);
+      // Cache successful API result
+      const driveTimeData: DriveTime = {
+        resortId: resort.internalId,
+        origin: origin.name,
+        driveTimeMinutes: googleResult.durationMinutes,
+        distanceKm: googleResult.distanceKm,
+        source: 'google',
+        route,
+        cachedAt: new Date()
+      };
+      DataStorageService.storeDriveTime(driveTimeData);
+      return toDriveEstimate(driveTimeData, route);
     }
-
-    return {
-      resortId: resort.internalId,
-      distanceKm: googleResult.distanceKm,
-      driveTimeMinutes: googleResult.durationMinutes,
-      route
-    };
   }
 
-  // Fallback to estimated calculations and cache the result
-  console.log(`   📐 Using estimated calculation for ${resort.internalId} (API failed)`);
-  const distance = calculateDistance(
-    HEDINGEN_COORDS.lat,
-    HEDINGEN_COORDS.lng,
-    resort.resort.coordinates.lat,
-    resort.resort.coordinates.lng
-  );
-
-  const driveTime = estimateDriveTime(distance, resort.internalId);
-  console.log(`   📊 Estimated: ${Math.round(distance * 10) / 10}km, ${driveTime}min`);
-
-  // Cache the estimated result
-  const estimateData: DriveTime = {
+  // Offline road graph - cached too, but replaced as soon as Google answers
+  console.log(`   🛣️ Road graph for ${resort.internalId}: ${roadRoute.distanceKm}km, ${roadRoute.minutes}min (${route})`);
+  const driveTimeData: DriveTime = {
     resortId: resort.internalId,
-    origin: 'Hedingen',
-    driveTimeMinutes: driveTime,
-    distanceKm: Math.round(distance * 10) / 10,
+    origin: origin.name,
+    driveTimeMinutes: roadRoute.minutes,
+    distanceKm: roadRoute.distanceKm,
+    source: 'road',
+    route,
     cachedAt: new Date()
   };
-  DataStorageService.storeDriveTime(estimateData);
-
-  // Simple route description
-  let route = "A4 → A2";
-  if (resort.resort.coordinates.lng < 8.0) {
-    route = "A4 → A9 → Valais";
-  } else if (resort.resort.coordinates.lat > 47.0) {
-    route = "A4 → A3 → Eastern Switzerland";
-  }
+  DataStorageService.storeDriveTime(driveTimeData);
+  return toDriveEstimate(driveTimeData, route);
+}
 
+/**
+ * Cached or fresh drive time with its road graph route description
+ */
+function toDriveEstimate(driveTime: DriveTime, route: string): DriveEstimate {
   return {
-    resortId: resort.internalId,
-    distanceKm: Math.round(distance * 10) / 10,
-    driveTimeMinutes: driveTime,
+    resortId: driveTime.resortId,
+    origin: driveTime.origin,
+    distanceKm: driveTime.distanceKm,
+    driveTimeMinutes: driveTime.driveTimeMinutes,
+    source: driveTime.source,
     route
   };
 }
@@ -187,8 +106,8 @@ export async function getDriveEstimate(resort: ResortMapping): Promise<DriveEsti
 /**
  * Get drive estimates for multiple resorts
  */
-export async function getDriveEstimates(resorts: ResortMapping[]): Promise<DriveEstimate[]> {
-  const estimates = await Promise.all(resorts.map(resort => getDriveEstimate(resort)));
+export async function getDriveEstimates(resorts: ResortMapping[], origin: Origin = DEFAULT_ORIGIN): Promise<DriveEstimate[]> {
+  const estimates = await Promise.all(resorts.map(resort => getDriveEstimate(resort, origin)));
   return estimates;
 }
 
@@ -220,9 +139,11 @@ export async function sortByDriveTime(resorts: ResortMapping[]): Promise<ResortM
 export function estimateToDriveTime(estimate: DriveEstimate): DriveTime {
   return {
     resortId: estimate.resortId,
-    origin: "Hedingen",
+    origin: estimate.origin,
     driveTimeMinutes: estimate.driveTimeMinutes,
     distanceKm: estimate.distanceKm,
+    source: estimate.source,
+    route: estimate.route,
     cachedAt: new Date()
   };
 }
@@ -256,7 +177,7 @@ async function callGoogleMapsAPI(
   destLng: number
 ): Promise<{ distanceKm: number; durationMinutes: number } | null> {
   if (!GOOGLE_MAPS_API_KEY) {
-    console.warn('Google Maps API key not found, falling back to estimated calculations');
+    console.warn('Google Maps API key not found, falling back to the road graph');
     return null;
   }
 
@@ -359,24 +280,29 @@ async function callGoogleMapsAPI(
 }
 
 /**
- * Calculate real drive time using Google Maps API with fallback to estimates
+ * Calculate real drive time using Google Maps API with fallback to the road graph
+ * Accepts an origin or the name of a stored origin - unknown origins return null
  */
-export async function calculateRealDriveTime(resortId: string, origin: string = "Hedingen"): Promise<DriveTime | null> {
+export async function calculateRealDriveTime(resortId: string, origin: Origin | string = DEFAULT_ORIGIN): Promise<DriveTime | null> {
   // Find the resort mapping
-  const { getPriorityResorts } = await import('./resortMapping.js');
-  const resort = getPriorityResorts().find(r => r.internalId === resortId);
+  const { findResortById } = await import('./resortMapping.js');
+  const resort = findResortById(resortId);
 
   if (!resort) {
     console.error(`Resort not found: ${resortId}`);
     return null;
   }
 
-  const originCoords = origin === "Hedingen" ? HEDINGEN_COORDS : { lat: 47.2981, lng: 8.4483 }; // Default to Hedingen
+  const resolvedOrigin = typeof origin === 'string' ? getOrigin(origin) : origin;
+  if (!resolvedOrigin) {
+    console.error(`Unknown origin: ${origin}`);
+    return null;
+  }
 
   // Try Google Maps API first
   const googleResult = await callGoogleMapsAPI(
-    originCoords.lat,
-    originCoords.lng,
+    resolvedOrigin.coordinates.lat,
+    resolvedOrigin.coordinates.lng,
     resort.resort.coordinates.lat,
     resort.resort.coordinates.lng
   );
@@ -384,21 +310,16 @@ export async function calculateRealDriveTime(resortId: string, origin: string =
   if (googleResult) {
     return {
       resortId,
-      origin,
+      origin: resolvedOrigin.name,
       driveTimeMinutes: googleResult.durationMinutes,
       distanceKm: googleResult.distanceKm,
+      source: 'google',
       cachedAt: new Date()
     };
   }
 
-  // Fallback to estimated calculations
-  console.log(`   📐 Falling back to estimated calculation for ${resortId}`);
-  const estimate = getDriveEstimate(resort);
-  return {
-    resortId,
-    origin,
-    driveTimeMinutes: estimate.driveTimeMinutes,
-    distanceKm: estimate.distanceKm,
-    cachedAt: new Date()
-  };
+  // Fallback to the road graph
+  console.log(`   🛣️ Falling back to the road graph for ${resortId}`);
+  const estimate = await getDriveEstimate(resort, resolvedOrigin);
+  return estimateToDriveTime(estimate);
 }
@@ -0,0 +1,358 @@
+import { DataStorageService } from './dataStorage.js';
+import { getDayPlan, getRecommendations, type RecommendationOptions, type RecommendationResult } from './recommendations.js';
+import { findResort, findResortById, getCatalogue } from './resortMapping.js';
+import { parsePlanDay } from './queryParser.js';
+import { checkArrival, suggestDeparture } from './operatingHours.js';
+import { formatSwissDay, toSwissDateKey } from '../utils/time.js';
+
+/**
+ * Exports for spreadsheets and calendars
+ * conditions / history / recs as CSV or JSON, calendar as iCal (season dates plus a planned ride)
+ */
+
+export const EXPORT_DATASETS = ['conditions', 'history', 'recs', 'calendar'] as const;
+export type ExportDataset = typeof EXPORT_DATASETS[number];
+export type ExportFormat = 'csv' | 'json' | 'ical';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+  count: number; // rows or events
+}
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  format?: ExportFormat;           // default csv (ical for calendar)
+  resortId?: string;               // history: one resort instead of all
+  days?: number;                   // history: how far back (default 30)
+  day?: Date;                      // recs: plan for that day instead of now; calendar: add a planned ride
+  options?: RecommendationOptions; // recs and calendar: origin, profile, drive limit...
+}
+
+type Cell = string | number | null | undefined;
+
+interface Table {
+  columns: string[];
+  rows: Cell[][];
+}
+
+const DEFAULT_HISTORY_DAYS = 30;
+
+/**
+ * One CSV cell - quoted when needed; text starting with = + - @ is prefixed so spreadsheets don't run it as a formula
+ */
+function csvCell(value: Cell): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: Table): string {
+  return [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function toJson(table: Table): string {
+  const records = table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column, row[i] ?? null])));
+  return JSON.stringify(records, null, 2) + '\n';
+}
+
+function isoOrNull(date: Date | null | undefined): string | null {
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+function resortName(resortId: string): string {
+  return findResortById(resortId)?.resort.name || resortId;
+}
+
+function conditionsTable(): Table {
+  const conditions = Array.from(DataStorageService.getAllLatestConditions().values())
+    .sort((a, b) => resortName(a.resortId).localeCompare(resortName(b.resortId)));
+
+  return {
+    columns: ['resort_id', 'resort', 'mountain_depth_cm', 'valley_depth_cm', 'new_snow_cm', 'lifts_open', 'lifts_total', 'reported_at', 'scraped_at', 'sources'],
+    rows: conditions.map(c => [
+      c.resortId,
+      resortName(c.resortId),
+      c.mountainDepth,
+      c.valleyDepth,
+      c.newSnow,
+      c.liftsOpen,
+      c.liftsTotal,
+      isoOrNull(c.lastUpdate),
+      isoOrNull(c.scrapedAt),
+      Array.from(new Set(Object.values(c.provenance || {}))).join('+')
+    ])
+  };
+}
+
+function historyTable(resortId: string | undefined, days: number): Table {
+  const resortIds = resortId ? [resortId] : getCatalogue().map(m => m.internalId);
+
+  return {
+    columns: ['resort_id', 'resort', 'recorded_at', 'reported_at', 'mountain_depth_cm', 'valley_depth_cm', 'new_snow_cm', 'lifts_open', 'lifts_total'],
+    rows: resortIds.flatMap(id => DataStorageService.getConditionsHistory(id, days).map(entry => [
+      entry.resortId,
+      resortName(entry.resortId),
+      isoOrNull(entry.recordedAt),
+      isoOrNull(entry.reportedAt),
+      entry.mountainDepth,
+      entry.valleyDepth,
+      entry.newSnow,
+      entry.liftsOpen,
+      entry.liftsTotal
+    ]))
+  };
+}
+
+/**
+ * A /recs result as a table, best first
+ */
+export function recommendationsTable(result: RecommendationResult): Table {
+  return {
+    columns: ['rank', 'resort_id', 'resort', 'score', 'status', 'drive_min', 'distance_km', 'mountain_depth_cm', 'valley_depth_cm', 'new_snow_cm', 'lifts_open', 'lifts_total', 'reason'],
+    rows: result.recommendations.map((rec, i) => [
+      i + 1,
+      rec.resort.id,
+      rec.resort.name,
+      Math.round(rec.score.score * 10) / 10,
+      rec.score.status,
+      rec.driveTime,
+      rec.distance,
+      rec.resort.mountainDepth,
+      rec.resort.valleyDepth,
+      rec.resort.newSnow,
+      rec.resort.liftsOpen,
+      rec.resort.liftsTotal,
+      rec.score.reason
+    ])
+  };
+}
+
+// --- iCal ---
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  start: Date | string; // Date for timed events, "YYYY-MM-DD" for all-day events
+  end?: Date;           // timed events only (all-day events last one day)
+}
+
+function icalText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function icalUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icalDay(dayKey: string): string {
+  return dayKey.replace(/-/g, '');
+}
+
+function nextDayKey(dayKey: string): string {
+  const date = new Date(`${dayKey}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Lines longer than 75 octets are folded onto continuation lines starting with a space (RFC 5545)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function buildCalendar(events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//IceKing//Swiss Snowboard Advisor//EN', 'CALSCALE:GREGORIAN', 'X-WR-CALNAME:IceKing'];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${icalUtc(now)}`);
+    if (typeof event.start === 'string') {
+      lines.push(`DTSTART;VALUE=DATE:${icalDay(event.start)}`, `DTEND;VALUE=DATE:${icalDay(nextDayKey(event.start))}`);
+    } else {
+      lines.push(`DTSTART:${icalUtc(event.start)}`);
+      if (event.end) lines.push(`DTEND:${icalUtc(event.end)}`);
+    }
+    lines.push(`SUMMARY:${icalText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${icalText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${icalText(event.location)}`);
+    if (event.geo) lines.push(`GEO:${event.geo.lat};${event.geo.lng}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The same day in the first year it isn't over yet: with today 2026-10-18, 2025-12-07 -> 2026-12-07
+ */
+function nextOccurrence(dayKey: string, todayKey: string): string {
+  const [year = 0, month = 1, day = 1] = dayKey.split('-').map(Number);
+  let next = dayKey;
+  for (let offset = 1; next < todayKey; offset++) {
+    next = new Date(Date.UTC(year + offset, month - 1, day)).toISOString().slice(0, 10);
+  }
+  return next;
+}
+
+/**
+ * All-day events for every known season opening and closing day
+ * Dates that have passed are last season's - they move to the coming season, marked as expected
+ */
+export function seasonEvents(now: Date = new Date()): CalendarEvent[] {
+  const today = toSwissDateKey(now);
+
+  const seasonEvent = (kind: 'open' | 'close', resortId: string, date: Date, summary: string): CalendarEvent => {
+    const reported = toSwissDateKey(date);
+    const day = nextOccurrence(reported, today);
+    if (day === reported) {
+      return { uid: `season-${kind}-${resortId}-${day}@iceking`, summary, start: day };
+    }
+    return {
+      uid: `season-${kind}-${resortId}-${day}@iceking`,
+      summary: `${summary} (expected)`,
+      description: `Not announced yet - last season's date was ${reported.split('-').reverse().join('.')}`,
+      start: day
+    };
+  };
+
+  return getCatalogue().flatMap(mapping => {
+    const { resort } = mapping;
+    const events: CalendarEvent[] = [];
+    if (resort.openingDate) {
+      events.push(seasonEvent('open', mapping.internalId, resort.openingDate, `🏔️ ${resort.name} opens`));
+    }
+    if (resort.closingDate) {
+      events.push(seasonEvent('close', mapping.internalId, resort.closingDate, `🏁 ${resort.name}: last day of the season`));
+    }
+    return events;
+  });
+}
+
+/**
+ * The top pick of a day plan as a timed event, from departure until the lifts close
+ * Null when nothing is worth riding that day
+ */
+export function plannedRideEvent(plan: RecommendationResult, day: Date): CalendarEvent | null {
+  const [best, ...alternatives] = plan.recommendations.filter(rec => rec.score.status !== 'CLOSED');
+  if (!best) return null;
+
+  const suggested = suggestDeparture(best.resort, day, best.driveTime);
+  const departure = suggested && suggested > new Date() ? suggested : new Date();
+  const { closesAt } = checkArrival(best.resort, departure, best.driveTime);
+  const end = closesAt && closesAt > departure ? closesAt : new Date(departure.getTime() + 8 * 60 * 60_000);
+
+  const description = [
+    `Score ${Math.round(best.score.score)}/100 – ${best.score.reason}`,
+    `${best.driveTime}min drive (${best.distance}km) from ${plan.summary.origin}`,
+    alternatives.length > 0 ? `Alternatives: ${alternatives.slice(0, 2).map(rec => `${rec.resort.name} (${Math.round(rec.score.score)})`).join(', ')}` : null
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: `ride-${toSwissDateKey(day)}-${best.resort.id}@iceking`,
+    summary: `🏂 Ride ${best.resort.name}`,
+    description,
+    location: best.resort.name,
+    geo: best.resort.coordinates,
+    start: departure,
+    end
+  };
+}
+
+/**
+ * Parse "/export [conditions|history|recs|calendar] [csv|json|ical] [resort or day]"
+ * History takes a resort ("history laax"), recs and calendar a day ("calendar friday"); default is today's recs as CSV
+ */
+export function parseExportArgs(text: string): ExportRequest | { error: string } {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const request: ExportRequest = { dataset: 'recs' };
+
+  const datasetIndex = words.findIndex(w => (EXPORT_DATASETS as readonly string[]).includes(w.toLowerCase()));
+  if (datasetIndex >= 0) request.dataset = words.splice(datasetIndex, 1)[0]!.toLowerCase() as ExportDataset;
+
+  const formatIndex = words.findIndex(w => ['csv', 'json', 'ical', 'ics'].includes(w.toLowerCase()));
+  if (formatIndex >= 0) {
+    const format = words.splice(formatIndex, 1)[0]!.toLowerCase();
+    request.format = format === 'ics' ? 'ical' : format as ExportFormat;
+  }
+  if (request.format === 'ical' && request.dataset !== 'calendar') return { error: 'iCal is only available for the calendar export' };
+  if (request.dataset === 'calendar' && request.format && request.format !== 'ical') return { error: 'The calendar is only available as iCal' };
+
+  const rest = words.join(' ');
+  if (!rest) return request;
+
+  if (request.dataset === 'history') {
+    const resort = findResort(rest);
+    if (!resort) return { error: `No resort found for "${rest}"` };
+    request.resortId = resort.internalId;
+  } else if (request.dataset === 'conditions') {
+    return { error: `Unexpected "${rest}" - conditions are always the latest report for every resort` };
+  } else {
+    const day = parsePlanDay(rest);
+    if (!day) return { error: `Unknown day "${rest}" - try today, tomorrow, friday or 24.1.` };
+    request.day = day;
+  }
+
+  return request;
+}
+
+/**
+ * Build an export file
+ */
+export async function buildExport(request: ExportRequest): Promise<ExportFile> {
+  const stamp = toSwissDateKey(request.day || new Date());
+
+  if (request.dataset === 'calendar') {
+    if (request.format && request.format !== 'ical') throw new Error('The calendar is only available as iCal');
+
+    const events = seasonEvents();
+    if (request.day) {
+      const ride = plannedRideEvent(await getDayPlan(request.day, request.options), request.day);
+      if (ride) events.unshift(ride);
+    }
+    return { filename: `iceking-calendar-${stamp}.ics`, mimeType: 'text/calendar', content: buildCalendar(events), count: events.length };
+  }
+
+  const format = request.format || 'csv';
+  if (format === 'ical') throw new Error('iCal is only available for the calendar export');
+
+  let table: Table;
+  if (request.dataset === 'conditions') {
+    table = conditionsTable();
+  } else if (request.dataset === 'history') {
+    table = historyTable(request.resortId, request.days ?? DEFAULT_HISTORY_DAYS);
+  } else {
+    const result = request.day ? await getDayPlan(request.day, request.options) : await getRecommendations(request.options);
+    table = recommendationsTable(result);
+  }
+
+  const name = request.dataset === 'history' && request.resortId ? `history-${request.resortId}` : request.dataset;
+  return format === 'json'
+    ? { filename: `iceking-${name}-${stamp}.json`, mimeType: 'application/json', content: toJson(table), count: table.rows.length }
+    : { filename: `iceking-${name}-${stamp}.csv`, mimeType: 'text/csv', content: toCsv(table), count: table.rows.length };
+}
+
+/**
+ * Caption for a sent export ("📤 recs for Fri 23.01. · 5 rows")
+ */
+export function describeExport(request: ExportRequest, file: ExportFile): string {
+  const unit = request.dataset === 'calendar' ? 'events' : 'rows';
+  const day = request.day ? ` for ${formatSwissDay(request.day)}` : '';
+  return `📤 ${request.dataset}${day} · ${file.count} ${unit}`;
+}
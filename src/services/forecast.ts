@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { readFileSync } from 'node:fs';
+import { DataStorageService } from './dataStorage.js';
+import { getAllResorts } from './resortMapping.js';
+import { SWISS_TIMEZONE, formatSwissTime, toSwissDateKey } from '../utils/time.js';
+import type { DailyForecast, ResortForecast } from '../types/index.js';
+import type { ResortMapping } from './resortMapping.js';
+
+/**
+ * Weather forecasts per resort coordinate (snowfall, temperature, wind, freezing level)
+ * The provider is swappable: Open-Meteo in production, a JSON fixture for local runs
+ */
+
+export const FORECAST_DAYS = 3;
+
+export interface ForecastLocation {
+  resortId: string;
+  coordinates: { lat: number; lng: number };
+}
+
+export interface ForecastProvider {
+  name: string;
+  fetchForecast(location: ForecastLocation, days: number): Promise<DailyForecast[]>;
+}
+
+/**
+ * Open-Meteo forecast API (no key needed, MeteoSwiss ICON models for Switzerland)
+ * FORECAST_MODEL picks a specific model, e.g. "meteoswiss_icon_ch2"
+ */
+export class OpenMeteoForecastProvider implements ForecastProvider {
+  name = 'Open-Meteo';
+
+  constructor(private model: string | undefined = process.env.FORECAST_MODEL || undefined) {}
+
+  async fetchForecast(location: ForecastLocation, days: number): Promise<DailyForecast[]> {
+    const response = await axios.get('https://api.open-meteo.com/v1/forecast', {
+      params: {
+        latitude: location.coordinates.lat,
+        longitude: location.coordinates.lng,
+        daily: 'snowfall_sum,temperature_2m_min,temperature_2m_max,wind_speed_10m_max',
+        hourly: 'freezing_level_height',
+        timezone: SWISS_TIMEZONE,
+        forecast_days: days,
+        ...(this.model ? { models: this.model } : {})
+      },
+      timeout: 10000
+    });
+
+    const daily = response.data?.daily;
+    if (!daily?.time) {
+      throw new Error(`Open-Meteo returned no daily forecast for ${location.resortId}`);
+    }
+
+    const freezingLevels = dailyMaxFromHourly(response.data.hourly?.time, response.data.hourly?.freezing_level_height);
+
+    return (daily.time as string[]).map((date, i) => ({
+      date,
+      snowfallCm: daily.snowfall_sum?.[i] ?? 0,
+      tempMinC: daily.temperature_2m_min?.[i] ?? null,
+      tempMaxC: daily.temperature_2m_max?.[i] ?? null,
+      windMaxKmh: daily.wind_speed_10m_max?.[i] ?? null,
+      freezingLevelM: freezingLevels.get(date) ?? null
+    }));
+  }
+}
+
+/**
+ * Highest hourly value per day ("YYYY-MM-DDTHH:MM" timestamps in local time)
+ */
+function dailyMaxFromHourly(times: string[] | undefined, values: Array<number | null> | undefined): Map<string, number> {
+  const result = new Map<string, number>();
+  if (!times || !values) return result;
+
+  times.forEach((time, i) => {
+    const value = values[i];
+    if (value === null || value === undefined) return;
+
+    const date = time.slice(0, 10);
+    result.set(date, Math.max(result.get(date) ?? -Infinity, value));
+  });
+
+  return result;
+}
+
+/**
+ * Forecasts from a local JSON file, so scoring and /forecast work offline
+ * Days are given as offsets from today so the fixture never goes stale:
+ * { "default": [{ "dayOffset": 0, "snowfallCm": 5, ... }], "resorts": { "laax": [...] } }
+ */
+export class FixtureForecastProvider implements ForecastProvider {
+  name = 'Fixture';
+
+  constructor(private path: string = process.env.FORECAST_FIXTURE || 'scripts/fixtures/forecast.json') {}
+
+  async fetchForecast(location: ForecastLocation, days: number): Promise<DailyForecast[]> {
+    const fixture = JSON.parse(readFileSync(this.path, 'utf-8'));
+    const entries: any[] = fixture.resorts?.[location.resortId] ?? fixture.default ?? [];
+
+    return entries
+      .filter(entry => entry.dayOffset >= 0 && entry.dayOffset < days)
+      .map(entry => ({
+        date: toSwissDateKey(new Date(Date.now() + entry.dayOffset * 24 * 60 * 60 * 1000)),
+        snowfallCm: entry.snowfallCm ?? 0,
+        tempMinC: entry.tempMinC ?? null,
+        tempMaxC: entry.tempMaxC ?? null,
+        windMaxKmh: entry.windMaxKmh ?? null,
+        freezingLevelM: entry.freezingLevelM ?? null
+      }));
+  }
+}
+
+let provider: ForecastProvider | null = null;
+
+/**
+ * Active provider (FORECAST_PROVIDER=open-meteo|fixture, default open-meteo)
+ */
+export function getForecastProvider(): ForecastProvider {
+  if (!provider) {
+    provider = process.env.FORECAST_PROVIDER === 'fixture'
+      ? new FixtureForecastProvider()
+      : new OpenMeteoForecastProvider();
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider (scripts and local testing)
+ */
+export function setForecastProvider(next: ForecastProvider): void {
+  provider = next;
+}
+
+/**
+ * Fetch and store the forecast for one resort
+ */
+export async function refreshResortForecast(mapping: ResortMapping): Promise<ResortForecast | null> {
+  const active = getForecastProvider();
+  const days = await active.fetchForecast(
+    { resortId: mapping.internalId, coordinates: mapping.resort.coordinates },
+    FORECAST_DAYS
+  );
+
+  DataStorageService.storeForecast(mapping.internalId, mapping.resort.coordinates, active.name, days);
+  return DataStorageService.getForecast(mapping.internalId);
+}
+
+/**
+ * Refresh forecasts for all mapped resorts
+ * One failing resort doesn't stop the rest - returns how many were stored
+ */
+export async function refreshForecasts(resorts: ResortMapping[] = getAllResorts()): Promise<number> {
+  let stored = 0;
+
+  for (const mapping of resorts) {
+    try {
+      await refreshResortForecast(mapping);
+      stored++;
+    } catch (error) {
+      console.error(`❌ Failed to fetch forecast for ${mapping.internalId}:`, error);
+    }
+  }
+
+  console.log(`🌦️ Stored forecasts for ${stored}/${resorts.length} resorts (${getForecastProvider().name})`);
+  return stored;
+}
+
+/**
+ * Format a forecast for Telegram
+ */
+export function formatForecast(name: string, forecast: ResortForecast): string {
+  let message = `🌦️ ${name} – ${forecast.days.length}-day forecast\n\n`;
+
+  for (const day of forecast.days) {
+    const snow = day.snowfallCm > 0 ? `❄️ ${Math.round(day.snowfallCm)}cm` : '☀️ no snow';
+    const temp = day.tempMinC !== null && day.tempMaxC !== null
+      ? `🌡️ ${Math.round(day.tempMinC)}°/${Math.round(day.tempMaxC)}°`
+      : '🌡️ ?';
+    const wind = day.windMaxKmh !== null ? `💨 ${Math.round(day.windMaxKmh)}km/h` : '💨 ?';
+    const freezing = day.freezingLevelM !== null ? ` | 0° at ${Math.round(day.freezingLevelM / 100) * 100}m` : '';
+
+    message += `${formatDayLabel(day.date)}: ${snow} | ${temp} | ${wind}${freezing}\n`;
+  }
+
+  const incoming = forecast.days.slice(1).reduce((sum, day) => sum + day.snowfallCm, 0);
+  if (incoming >= 20) {
+    message += `\n💡 ${Math.round(incoming)}cm incoming – powder day ahead!`;
+  } else if (forecast.days.some(day => (day.windMaxKmh || 0) >= 60)) {
+    message += `\n💡 Strong wind forecast – upper lifts may close.`;
+  }
+
+  message += `\n\n📡 ${forecast.provider}, updated ${formatSwissTime(forecast.fetchedAt)}`;
+  return message;
+}
+
+function formatDayLabel(dateKey: string): string {
+  // Noon UTC keeps the calendar day stable whatever the server's timezone
+  const date = new Date(`${dateKey}T12:00:00Z`);
+  if (dateKey === toSwissDateKey(new Date())) return 'Today';
+  return date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'numeric', timeZone: 'UTC' });
+}
@@ -0,0 +1,147 @@
+import { scrapeBergfexResortCoordinates } from '../scrapers/bergfex.js';
+import { SWISS_PLACES, type SwissPlace } from '../data/swissPlaces.js';
+import {
+  getUngeocodedResorts,
+  markGeocodeAttempt,
+  updateCoordinates,
+  type CoordinatesSource,
+  type ResortMapping
+} from './resortMapping.js';
+
+/**
+ * Coordinates for resorts discovered on bergfex
+ * Until a resort is geocoded it sits at the centre of Switzerland and is left out of recommendations
+ * Geocoders are tried in order: the bergfex resort page first, then the bundled gazetteer
+ */
+
+export interface Geocoder {
+  source: CoordinatesSource;
+  geocode(mapping: ResortMapping): Promise<{ lat: number; lng: number } | null>;
+}
+
+export interface GeocodeSummary {
+  attempted: number;
+  resolved: number;
+}
+
+// Enough to work through a new season's list over a few scrapes without hammering bergfex
+const MAX_RESORTS_PER_RUN = 25;
+
+/**
+ * Reads coordinates from the resort's bergfex page (needs the page link from the scraper)
+ */
+export class BergfexGeocoder implements Geocoder {
+  source: CoordinatesSource = 'bergfex';
+
+  async geocode(mapping: ResortMapping): Promise<{ lat: number; lng: number } | null> {
+    if (!mapping.detailUrl) return null;
+    return scrapeBergfexResortCoordinates(mapping.detailUrl);
+  }
+}
+
+function normalizePlace(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the gazetteer place named in a resort name ("Survih Samedan" -> Samedan)
+ * Longest matching name wins, so "Saas-Grund" isn't placed at "Saas-Fee"
+ */
+export function findSwissPlace(resortName: string, places: SwissPlace[] = SWISS_PLACES): SwissPlace | null {
+  const haystack = ` ${normalizePlace(resortName)} `;
+  let best: { place: SwissPlace; length: number } | null = null;
+
+  for (const place of places) {
+    for (const name of [place.name, ...(place.aliases || [])]) {
+      const needle = normalizePlace(name);
+      if (haystack.includes(` ${needle} `) && (!best || needle.length > best.length)) {
+        best = { place, length: needle.length };
+      }
+    }
+  }
+
+  return best ? best.place : null;
+}
+
+/**
+ * Offline lookup in the bundled Swiss place-name gazetteer
+ */
+export class GazetteerGeocoder implements Geocoder {
+  source: CoordinatesSource = 'gazetteer';
+
+  constructor(private places: SwissPlace[] = SWISS_PLACES) {}
+
+  async geocode(mapping: ResortMapping): Promise<{ lat: number; lng: number } | null> {
+    const place = findSwissPlace(mapping.bergfexName, this.places) || findSwissPlace(mapping.internalId.replace(/-/g, ' '), this.places);
+    return place ? { lat: place.lat, lng: place.lng } : null;
+  }
+}
+
+let geocoders: Geocoder[] | null = null;
+
+/**
+ * Active geocoders (GEOCODERS=bergfex,gazetteer, in order; default both)
+ */
+export function getGeocoders(): Geocoder[] {
+  if (!geocoders) {
+    const names = (process.env.GEOCODERS ?? 'bergfex,gazetteer').split(',').map(n => n.trim()).filter(Boolean);
+    geocoders = names.flatMap(name => {
+      if (name === 'bergfex') return [new BergfexGeocoder()];
+      if (name === 'gazetteer') return [new GazetteerGeocoder()];
+      console.warn(`⚠️ Unknown geocoder "${name}" in GEOCODERS, skipping`);
+      return [];
+    });
+  }
+  return geocoders;
+}
+
+/**
+ * Swap the geocoders (scripts and local testing)
+ */
+export function setGeocoders(next: Geocoder[]): void {
+  geocoders = next;
+}
+
+/**
+ * Try each geocoder in turn and store the first hit
+ * Returns false when nobody knows the resort (retried after a week)
+ */
+export async function geocodeResort(mapping: ResortMapping): Promise<boolean> {
+  for (const geocoder of getGeocoders()) {
+    try {
+      const coordinates = await geocoder.geocode(mapping);
+      if (coordinates) {
+        updateCoordinates(mapping.internalId, coordinates, geocoder.source);
+        console.log(`📍 ${mapping.resort.name}: ${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)} (${geocoder.source})`);
+        return true;
+      }
+    } catch (error) {
+      console.error(`❌ ${geocoder.source} geocoding failed for ${mapping.internalId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  markGeocodeAttempt(mapping.internalId);
+  return false;
+}
+
+/**
+ * Geocode resorts that don't have coordinates yet
+ */
+export async function geocodePendingResorts(limit: number = MAX_RESORTS_PER_RUN): Promise<GeocodeSummary> {
+  const pending = getUngeocodedResorts(limit);
+  const summary: GeocodeSummary = { attempted: pending.length, resolved: 0 };
+
+  for (const mapping of pending) {
+    if (await geocodeResort(mapping)) summary.resolved++;
+  }
+
+  if (pending.length > 0) {
+    console.log(`📍 Geocoded ${summary.resolved}/${summary.attempted} resorts`);
+  }
+  return summary;
+}
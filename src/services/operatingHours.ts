@@ -0,0 +1,126 @@
+import type { Resort } from '../types/index.js';
+import { atSwissTime, getZonedParts, parseClockTime, toSwissDateKey } from '../utils/time.js';
+
+/**
+ * Operating hours in Swiss local time, regardless of the host's TZ
+ * Hours come from bergfex as "08:30-16:15" per weekdays/weekends, or "closed"
+ */
+
+// Less riding than this after the drive isn't worth the trip
+export const MIN_RIDE_MINUTES = 120;
+
+// Assumed first lift when a resort's hours are unknown
+const DEFAULT_OPENING_MINUTES = 8 * 60 + 30;
+
+export interface DayHours {
+  open: number;  // minutes since midnight
+  close: number;
+}
+
+export interface ArrivalCheck {
+  arrival: Date;
+  opensAt: Date | null;
+  closesAt: Date | null;
+  rideMinutes: number | null; // null when the hours are unknown
+  status: 'OK' | 'SHORT' | 'CLOSED' | 'UNKNOWN';
+}
+
+/**
+ * "08:30-16:15" -> { open: 510, close: 975 } (null if malformed)
+ */
+export function parseHoursRange(hours: string): DayHours | null {
+  const [openText, closeText, ...rest] = hours.split('-');
+  if (!openText || !closeText || rest.length > 0) return null;
+
+  const open = parseClockTime(openText);
+  const close = parseClockTime(closeText);
+  if (open === null || close === null || close <= open) return null;
+  return { open, close };
+}
+
+/**
+ * Hours on the Swiss calendar day of `date` - 'closed' for days it doesn't run, null when unknown
+ */
+export function getHoursOn(resort: Resort, date: Date): DayHours | 'closed' | null {
+  const { weekday } = getZonedParts(date);
+  const isWeekend = weekday === 0 || weekday === 6;
+  const hours = isWeekend ? resort.operatingHours?.weekends : resort.operatingHours?.weekdays;
+
+  if (!hours) return null;
+  if (hours === 'closed') return 'closed';
+  return parseHoursRange(hours);
+}
+
+/**
+ * Whether the resort still runs on the day of `date` (not a closed day, not past closing time)
+ * Unknown hours count as operating
+ */
+export function isOperatingOn(resort: Resort, date: Date): boolean {
+  const hours = getHoursOn(resort, date);
+  if (hours === null) return true;
+  if (hours === 'closed') return false;
+
+  const p = getZonedParts(date);
+  return p.hour * 60 + p.minute < hours.close;
+}
+
+function atMinutes(date: Date, minutes: number): Date {
+  return atSwissTime(date, 0, Math.floor(minutes / 60), minutes % 60);
+}
+
+/**
+ * Leaving at `departure` with a `driveMinutes` drive: how long is left to ride before the lifts close?
+ */
+export function checkArrival(
+  resort: Resort,
+  departure: Date,
+  driveMinutes: number,
+  minRideMinutes: number = MIN_RIDE_MINUTES
+): ArrivalCheck {
+  const arrival = new Date(departure.getTime() + driveMinutes * 60_000);
+  const hours = getHoursOn(resort, arrival);
+
+  if (hours === null) {
+    return { arrival, opensAt: null, closesAt: null, rideMinutes: null, status: 'UNKNOWN' };
+  }
+  if (hours === 'closed') {
+    return { arrival, opensAt: null, closesAt: null, rideMinutes: 0, status: 'CLOSED' };
+  }
+
+  const opensAt = atMinutes(arrival, hours.open);
+  const closesAt = atMinutes(arrival, hours.close);
+  const start = Math.max(arrival.getTime(), opensAt.getTime());
+  const rideMinutes = Math.max(0, Math.floor((closesAt.getTime() - start) / 60_000));
+
+  let status: ArrivalCheck['status'] = 'OK';
+  if (rideMinutes === 0) status = 'CLOSED';
+  else if (rideMinutes < minRideMinutes) status = 'SHORT';
+
+  return { arrival, opensAt, closesAt, rideMinutes, status };
+}
+
+/**
+ * Whether the season runs on a Swiss day ("YYYY-MM-DD"), from the season dates
+ * A closed resort without an opening date stays closed; an open one runs until its closing date
+ */
+export function isSeasonOpenOn(resort: Resort, dayKey: string): boolean {
+  const opening = resort.openingDate ? toSwissDateKey(resort.openingDate) : null;
+  const closing = resort.closingDate ? toSwissDateKey(resort.closingDate) : null;
+
+  if (closing && dayKey > closing) return false;
+  if (opening && dayKey < opening) return false;
+  return resort.seasonStatus !== 'CLOSED' || (opening !== null && dayKey >= opening);
+}
+
+/**
+ * When to leave to be there for the first lift on the day of `day` (08:30 assumed when hours are unknown)
+ * Null when the resort doesn't run that day
+ */
+export function suggestDeparture(resort: Resort, day: Date, driveMinutes: number): Date | null {
+  const hours = getHoursOn(resort, day);
+  if (hours === 'closed') return null;
+
+  const opensAt = atMinutes(day, hours ? hours.open : DEFAULT_OPENING_MINUTES);
+  return new Date(opensAt.getTime() - driveMinutes * 60_000);
+}
+
@@ -0,0 +1,125 @@
+import { originStatements } from '../database/index.js';
+import type { Origin } from '../types/index.js';
+
+/**
+ * Named drive origins (home towns) plus ad-hoc origins from shared locations
+ * Drive times are cached per (resort, origin name)
+ */
+
+interface PresetOrigin extends Origin {
+  aliases: string[];
+}
+
+const PRESET_ORIGINS: PresetOrigin[] = [
+  { name: 'Hedingen', coordinates: { lat: 47.2981, lng: 8.4483 }, aliases: [] },
+  { name: 'Zürich', coordinates: { lat: 47.3769, lng: 8.5417 }, aliases: ['zurich', 'zuerich', 'zrh'] },
+  { name: 'Bern', coordinates: { lat: 46.9480, lng: 7.4474 }, aliases: ['berne'] },
+  { name: 'Basel', coordinates: { lat: 47.5596, lng: 7.5886 }, aliases: ['bale', 'basle'] },
+  { name: 'Luzern', coordinates: { lat: 47.0502, lng: 8.3093 }, aliases: ['lucerne'] },
+  { name: 'St. Gallen', coordinates: { lat: 47.4245, lng: 9.3767 }, aliases: ['st gallen', 'sankt gallen', 'stgallen'] },
+  { name: 'Winterthur', coordinates: { lat: 47.4988, lng: 8.7237 }, aliases: [] },
+  { name: 'Zug', coordinates: { lat: 47.1662, lng: 8.5155 }, aliases: [] },
+  { name: 'Aarau', coordinates: { lat: 47.3925, lng: 8.0442 }, aliases: [] }
+];
+
+export const DEFAULT_ORIGIN: Origin = {
+  name: 'Hedingen',
+  coordinates: { lat: 47.2981, lng: 8.4483 }
+};
+
+// Make sure the preset origins exist in the database
+for (const preset of PRESET_ORIGINS) {
+  originStatements.insertIfMissing.run(
+    preset.name,
+    null,
+    preset.coordinates.lat,
+    preset.coordinates.lng,
+    JSON.stringify(preset.aliases),
+    0
+  );
+}
+
+function rowToOrigin(row: any): Origin {
+  return {
+    name: row.name,
+    label: row.label || undefined,
+    coordinates: { lat: row.lat, lng: row.lng },
+    isAdHoc: row.is_adhoc === 1
+  };
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Get an origin by its exact name (presets and stored ad-hoc origins)
+ */
+export function getOrigin(name: string): Origin | null {
+  const row = originStatements.getByName.get(name);
+  return row ? rowToOrigin(row) : null;
+}
+
+/**
+ * Find a named origin from free text ("zurich", "Lucerne", "st. gallen")
+ */
+export function findOrigin(query: string): Origin | null {
+  const exact = getOrigin(query.trim());
+  if (exact) return exact;
+
+  const normalized = normalize(query);
+  if (!normalized) return null;
+
+  for (const row of originStatements.getAll.all() as any[]) {
+    if (row.is_adhoc === 1) continue;
+
+    const aliases: string[] = JSON.parse(row.aliases || '[]');
+    const names = [row.name, ...aliases].map(normalize);
+    if (names.includes(normalized)) {
+      return rowToOrigin(row);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Named origins offered in menus (excludes ad-hoc shared locations)
+ */
+export function getNamedOrigins(): Origin[] {
+  return (originStatements.getAll.all() as any[])
+    .filter(row => row.is_adhoc !== 1)
+    .map(rowToOrigin);
+}
+
+/**
+ * Create (or reuse) an ad-hoc origin for a shared location
+ * Coordinates are rounded to ~100m so nearby shares hit the same drive time cache
+ */
+export function createLocationOrigin(lat: number, lng: number): Origin {
+  const roundedLat = Math.round(lat * 1000) / 1000;
+  const roundedLng = Math.round(lng * 1000) / 1000;
+  const name = `loc:${roundedLat},${roundedLng}`;
+  const label = '📍 Shared location';
+
+  originStatements.insertIfMissing.run(name, label, roundedLat, roundedLng, '[]', 1);
+
+  return {
+    name,
+    label,
+    coordinates: { lat: roundedLat, lng: roundedLng },
+    isAdHoc: true
+  };
+}
+
+/**
+ * Display name of an origin
+ */
+export function formatOriginName(origin: Origin): string {
+  return origin.label || origin.name;
+}
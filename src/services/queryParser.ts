@@ -0,0 +1,341 @@
+import axios from 'axios';
+import { getAllResorts } from './resortMapping.js';
+import { findOrigin } from './origins.js';
+import { DataStorageService } from './dataStorage.js';
+import { RIDING_STYLES } from './userPreferences.js';
+import { DEFAULT_PROFILE_NAME, getScoringProfiles, isScoringProfile } from './scoringProfiles.js';
+import type { RecommendationOptions } from './recommendations.js';
+import type { RidingStyle } from '../types/index.js';
+import { atSwissTime, getZonedParts } from '../utils/time.js';
+
+/**
+ * Natural language queries for plain text messages
+ * "powder within 90 min tomorrow", "is Laax open?", "park near Lucerne"
+ * The rule-based parser works offline; an LLM parser can sit behind the same interface
+ */
+
+export type QueryIntent =
+  | {
+      type: 'recommendations';
+      options: RecommendationOptions; // only what the message asked for - merge over user preferences
+      day: 'today' | 'tomorrow';
+    }
+  | { type: 'resort'; resortId: string; question: 'open' | 'details' }
+  | { type: 'closed' }
+  | { type: 'unknown' };
+
+export interface IntentParser {
+  name: string;
+  parse(text: string): Promise<QueryIntent>;
+}
+
+const STYLE_KEYWORDS: Record<RidingStyle, string[]> = {
+  powder: ['powder', 'pow', 'fresh snow', 'deep snow', 'freeride'],
+  park: ['park', 'kicker', 'kickers', 'jib', 'jibbing', 'rails', 'halfpipe'],
+  beginner: ['beginner', 'beginners', 'easy', 'learn', 'learning', 'first time'],
+  cruiser: ['cruise', 'cruising', 'cruiser', 'groomers', 'groomed', 'carving', 'long runs']
+};
+
+const RECOMMENDATION_KEYWORDS = [
+  'where', 'ride', 'riding', 'go', 'best', 'recommend', 'recs', 'suggest', 'snow', 'ski', 'board', 'top', 'good'
+];
+
+// Words that end an origin phrase ("near lucerne within 90 min")
+const ORIGIN_STOP_WORDS = new Set([
+  'within', 'under', 'in', 'less', 'max', 'tomorrow', 'today', 'for', 'with', 'and', 'please', 'top', 'best'
+]);
+
+// Generic resort name parts that would match too much on their own - see nameParts
+const GENERIC_NAME_PARTS = new Set(['davos', 'glacier', 'les']);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9.,\s]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z0-9])`).test(text);
+}
+
+/**
+ * Words of a resort name to match on their own ("flims laax falera" -> flims, laax, falera), weighted by length
+ * A generic part of a longer name ("davos" in "davos rinerhorn") weighs 0: it only matches when nothing
+ * more specific does, and then the first resort (highest priority) wins
+ */
+function nameParts(name: string): Array<{ part: string; weight: number }> {
+  const parts = name.split(' ');
+  const onlyGeneric = parts.every(part => GENERIC_NAME_PARTS.has(part));
+  return parts.map(part => ({ part, weight: GENERIC_NAME_PARTS.has(part) && !onlyGeneric ? 0 : part.length }));
+}
+
+/**
+ * Find a resort mentioned in normalized text
+ * Mapped resorts match on full name, id, alias or a distinctive name part ("titlis", "flumsi");
+ * scraped-only resorts (no mapping yet) match on their bergfex id or a part of it, e.g. "laax"
+ */
+export function findResortInText(text: string): string | null {
+  const normalized = normalize(text);
+  let best: { resortId: string; weight: number } | null = null;
+
+  const consider = (resortId: string, phrase: string, weight: number = phrase.length) => {
+    if (phrase.length < 4 || /^\d+$/.test(phrase)) return;
+    if (containsPhrase(normalized, phrase) && (!best || weight > best.weight)) {
+      best = { resortId, weight };
+    }
+  };
+
+  for (const mapping of getAllResorts()) {
+    const name = normalize(mapping.bergfexName);
+    consider(mapping.internalId, name);
+    consider(mapping.internalId, mapping.internalId.replace(/-/g, ' '));
+    for (const alias of mapping.aliases || []) {
+      consider(mapping.internalId, normalize(alias));
+    }
+    for (const { part, weight } of nameParts(name)) {
+      consider(mapping.internalId, part, weight);
+    }
+  }
+
+  for (const resortId of DataStorageService.getAllLatestConditions().keys()) {
+    const name = resortId.replace(/-/g, ' ');
+    consider(resortId, name);
+    for (const { part, weight } of nameParts(name)) {
+      consider(resortId, part, weight);
+    }
+  }
+
+  return best ? (best as { resortId: string }).resortId : null;
+}
+
+/**
+ * Parse "within 90 min", "under 1.5h", "max 2 hours", "90 minutes drive"
+ */
+export function parseDriveLimit(text: string): number | null {
+  const match = text.match(/(\d+(?:[.,]\d+)?)\s*(min|mins|minutes|minute|h|hr|hrs|hour|hours)\b/);
+  if (!match || !match[1] || !match[2]) return null;
+
+  const value = Number(match[1].replace(',', '.'));
+  if (!Number.isFinite(value) || value <= 0) return null;
+
+  return match[2].startsWith('h') ? Math.round(value * 60) : Math.round(value);
+}
+
+// Weekday names (English and German, long and short), 0 = Sunday
+const WEEKDAY_NAMES: Array<[number, string[]]> = [
+  [0, ['sunday', 'sun', 'sonntag', 'so']],
+  [1, ['monday', 'mon', 'montag', 'mo']],
+  [2, ['tuesday', 'tue', 'tues', 'dienstag', 'di']],
+  [3, ['wednesday', 'wed', 'mittwoch', 'mi']],
+  [4, ['thursday', 'thu', 'thurs', 'donnerstag', 'do']],
+  [5, ['friday', 'fri', 'freitag', 'fr']],
+  [6, ['saturday', 'sat', 'samstag', 'sa']]
+];
+
+// How far ahead /plan looks (forecasts only cover the first few days)
+export const MAX_PLAN_DAYS = 14;
+
+/**
+ * Parse a day for /plan: "today", "tomorrow", "friday", "next sat", "in 3 days", "24.1." (German works too)
+ * Returns noon of that Swiss day, or null when it's unclear, in the past or more than MAX_PLAN_DAYS ahead
+ */
+export function parsePlanDay(text: string, now: Date = new Date()): Date | null {
+  const normalized = normalize(text).replace(/[,]/g, ' ').trim();
+  if (!normalized) return null;
+
+  let offset: number | null = null;
+
+  if (/^(today|heute|now)$/.test(normalized)) offset = 0;
+  else if (/^(tomorrow|tmrw|morgen)$/.test(normalized)) offset = 1;
+  else if (/^(day after tomorrow|ubermorgen|uebermorgen)$/.test(normalized)) offset = 2;
+
+  const inDays = normalized.match(/^in (\d{1,2}) days?$/);
+  if (inDays && inDays[1]) offset = Number(inDays[1]);
+
+  const weekdayMatch = normalized.match(/^(next |nachsten |naechsten )?([a-z]+)$/);
+  const weekday = weekdayMatch && weekdayMatch[2] ? WEEKDAY_NAMES.find(([, names]) => names.includes(weekdayMatch[2]!)) : undefined;
+  if (offset === null && weekday) {
+    offset = (weekday[0] - getZonedParts(now).weekday + 7) % 7;
+    if (offset === 0 && weekdayMatch?.[1]) offset = 7;
+  }
+
+  const dateMatch = normalized.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})?$/);
+  if (offset === null && dateMatch && dateMatch[1] && dateMatch[2]) {
+    const today = getZonedParts(now);
+    const year = dateMatch[3] ? Number(dateMatch[3]) : today.year;
+    const target = Date.UTC(year, Number(dateMatch[2]) - 1, Number(dateMatch[1]));
+    offset = Math.round((target - Date.UTC(today.year, today.month - 1, today.day)) / (24 * 60 * 60 * 1000));
+    // "3.1." in December means next January
+    if (!dateMatch[3] && offset < 0) {
+      offset = Math.round((Date.UTC(year + 1, Number(dateMatch[2]) - 1, Number(dateMatch[1])) - Date.UTC(today.year, today.month - 1, today.day)) / (24 * 60 * 60 * 1000));
+    }
+  }
+
+  if (offset === null || offset < 0 || offset > MAX_PLAN_DAYS) return null;
+  return atSwissTime(now, offset, 12, 0);
+}
+
+function parseOrigin(text: string): RecommendationOptions['origin'] | null {
+  const match = text.match(/\b(?:near|from|around|close to)\s+(.+)$/);
+  if (!match || !match[1]) return null;
+
+  const words: string[] = [];
+  for (const word of match[1].split(' ')) {
+    if (ORIGIN_STOP_WORDS.has(word) || /^\d/.test(word)) break;
+    words.push(word);
+  }
+
+  // Longest phrase first: "st gallen" before "st"
+  for (let length = words.length; length > 0; length--) {
+    const origin = findOrigin(words.slice(0, length).join(' '));
+    if (origin) return origin;
+  }
+
+  return null;
+}
+
+function parseProfile(text: string): string | null {
+  for (const style of RIDING_STYLES) {
+    if (STYLE_KEYWORDS[style].some(keyword => containsPhrase(text, keyword))) {
+      return style;
+    }
+  }
+
+  // Custom profiles from SCORING_PROFILES_FILE match by name
+  const custom = getScoringProfiles().find(p => p.name !== DEFAULT_PROFILE_NAME && containsPhrase(text, p.name));
+  return custom ? custom.name : null;
+}
+
+/**
+ * Deterministic keyword parser - no network, always available
+ */
+export class RuleBasedIntentParser implements IntentParser {
+  name = 'rules';
+
+  async parse(text: string): Promise<QueryIntent> {
+    const normalized = normalize(text);
+    if (!normalized) return { type: 'unknown' };
+
+    const options: RecommendationOptions = {};
+    const maxDriveTime = parseDriveLimit(normalized);
+    if (maxDriveTime) options.maxDriveTime = maxDriveTime;
+
+    const profile = parseProfile(normalized);
+    if (profile) options.profile = profile;
+
+    const origin = parseOrigin(normalized);
+    if (origin) options.origin = origin;
+
+    const topMatch = normalized.match(/\b(?:top|best)\s+(\d{1,2})\b/);
+    if (topMatch && topMatch[1]) options.limit = Math.max(1, Math.min(10, Number(topMatch[1])));
+
+    const day = containsPhrase(normalized, 'tomorrow') || containsPhrase(normalized, 'tmrw') ? 'tomorrow' : 'today';
+    const hasRecommendationFilter = Object.keys(options).length > 0 || day === 'tomorrow';
+
+    // "is Laax open?" / "how is titlis" - only when no recommendation filters were given,
+    // so "park near Lucerne" isn't mistaken for a resort called Lucerne
+    const resortId = hasRecommendationFilter ? null : findResortInText(normalized);
+    if (resortId) {
+      const asksOpen = /\b(open|running|closed)\b/.test(normalized);
+      return { type: 'resort', resortId, question: asksOpen ? 'open' : 'details' };
+    }
+
+    if (/\b(closed|shut)\b/.test(normalized) && !hasRecommendationFilter) {
+      return { type: 'closed' };
+    }
+
+    if (hasRecommendationFilter || RECOMMENDATION_KEYWORDS.some(keyword => containsPhrase(normalized, keyword))) {
+      return { type: 'recommendations', options, day };
+    }
+
+    return { type: 'unknown' };
+  }
+}
+
+/**
+ * Optional LLM backend (any OpenAI-compatible chat completions endpoint)
+ * Enabled with INTENT_LLM_URL; falls back to the rule-based parser on errors or unclear answers
+ */
+export class LlmIntentParser implements IntentParser {
+  name = 'llm';
+
+  constructor(
+    private url: string,
+    private model: string = process.env.INTENT_LLM_MODEL || 'gpt-4o-mini',
+    private apiKey: string | undefined = process.env.INTENT_LLM_API_KEY,
+    private fallback: IntentParser = new RuleBasedIntentParser()
+  ) {}
+
+  async parse(text: string): Promise<QueryIntent> {
+    try {
+      const response = await axios.post(
+        this.url,
+        {
+          model: this.model,
+          temperature: 0,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You turn snowboard questions into JSON. Reply with JSON only: ' +
+                '{"type":"recommendations","maxDriveTime":minutes|null,"profile":"park"|"powder"|"beginner"|"cruiser"|null,"origin":string|null,"day":"today"|"tomorrow"} ' +
+                'or {"type":"resort","resort":string,"question":"open"|"details"} or {"type":"closed"} or {"type":"unknown"}.'
+            },
+            { role: 'user', content: text }
+          ]
+        },
+        {
+          headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+          timeout: 10000
+        }
+      );
+
+      const content: string = response.data?.choices?.[0]?.message?.content || '';
+      const intent = this.toIntent(JSON.parse(content.replace(/^```(?:json)?|```$/g, '').trim()));
+      if (intent.type !== 'unknown') return intent;
+    } catch (error) {
+      console.error('❌ LLM intent parsing failed, using rules:', error instanceof Error ? error.message : error);
+    }
+
+    return this.fallback.parse(text);
+  }
+
+  private toIntent(raw: any): QueryIntent {
+    switch (raw?.type) {
+      case 'recommendations': {
+        const options: RecommendationOptions = {};
+        if (Number.isFinite(raw.maxDriveTime) && raw.maxDriveTime > 0) options.maxDriveTime = Math.round(raw.maxDriveTime);
+        if (typeof raw.profile === 'string' && isScoringProfile(raw.profile)) options.profile = raw.profile.toLowerCase();
+        const origin = typeof raw.origin === 'string' ? findOrigin(raw.origin) : null;
+        if (origin) options.origin = origin;
+        return { type: 'recommendations', options, day: raw.day === 'tomorrow' ? 'tomorrow' : 'today' };
+      }
+      case 'resort': {
+        const resortId = typeof raw.resort === 'string' ? findResortInText(raw.resort) : null;
+        if (!resortId) return { type: 'unknown' };
+        return { type: 'resort', resortId, question: raw.question === 'open' ? 'open' : 'details' };
+      }
+      case 'closed':
+        return { type: 'closed' };
+      default:
+        return { type: 'unknown' };
+    }
+  }
+}
+
+let parser: IntentParser | null = null;
+
+/**
+ * Active parser (LLM when INTENT_LLM_URL is set, rules otherwise)
+ */
+export function getIntentParser(): IntentParser {
+  if (!parser) {
+    const llmUrl = process.env.INTENT_LLM_URL;
+    parser = llmUrl ? new LlmIntentParser(llmUrl) : new RuleBasedIntentParser();
+  }
+  return parser;
+}
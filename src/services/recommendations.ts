@@ -1,8 +1,14 @@
 import { calculateScore, type ScoreResult } from './scoring.js';
 import { DataStorageService } from './dataStorage.js';
-import { getOpenResorts, getPriorityResorts, getAllResorts, type ResortMapping } from './resortMapping.js';
+import { getAllResorts, findResortById, registerDiscoveredResort, type ResortMapping } from './resortMapping.js';
 import { filterByDriveTime, sortByDriveTime, getDriveEstimate } from './driveTimes.js';
-import type { ResortRecommendation, DriveTime } from '../types/index.js';
+import { DEFAULT_ORIGIN, formatOriginName } from './origins.js';
+import { atSwissTime, formatAge, formatDuration, formatSwissClock, formatSwissDate, formatSwissDay, toSwissDateKey } from '../utils/time.js';
+import { checkArrival, suggestDeparture } from './operatingHours.js';
+import { getScoringProfile } from './scoringProfiles.js';
+import { formatDisagreement } from './reconciliation.js';
+import { formatSnowQuality } from './snowQuality.js';
+import type { ResortRecommendation, DriveTime, Origin } from '../types/index.js';
 
 /**
  * Recommendation service that combines scraped data with scoring algorithm
@@ -26,16 +32,28 @@ export interface RecommendationOptions {
   minScore?: number;     // minimum score threshold (default: 10)
   limit?: number;        // max recommendations (default: 5)
   includeClosed?: boolean; // show closed resorts (default: false)
+  origin?: Origin;         // where the drive starts (default: Hedingen)
+  favourites?: string[];   // resort ids always shown when they pass the filters
+  profile?: string;        // scoring profile name (default: "default")
+  departure?: Date;        // when the user leaves (default: now) - resorts closing on arrival are demoted
 }
 
+// Planned trips are scored as leaving at this time (Swiss local)
+export const PLAN_DEPARTURE = '07:00';
+
 export interface RecommendationResult {
   recommendations: ResortRecommendation[];
   summary: {
     totalConsidered: number;
+    unlocated: number;       // skipped because their coordinates are still unknown
     filteredByDrive: number;
     filteredBySeason: number;
     filteredByScore: number;
     finalCount: number;
+    origin: string;
+    maxDriveTime: number;
+    minScore: number;
+    profile: string; // label of the scoring profile used
   };
 }
 
@@ -47,10 +65,14 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
     maxDriveTime = 180,
     minScore = 10,
     limit = 5,
-    includeClosed = false
+    includeClosed = false,
+    origin = DEFAULT_ORIGIN,
+    favourites = [],
+    profile,
+    departure = new Date()
   } = options;
 
-  console.log(`🎯 Generating recommendations (maxDrive: ${maxDriveTime}min, minScore: ${minScore}, limit: ${limit})`);
+  console.log(`🎯 Generating recommendations (origin: ${formatOriginName(origin)}, maxDrive: ${maxDriveTime}min, minScore: ${minScore}, limit: ${limit})`);
 
   // Get ALL resorts with stored conditions
   const conditionsMap = DataStorageService.getAllLatestConditions();
@@ -58,39 +80,23 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
 
   console.log(`📊 Found ${totalConsidered} resorts with stored conditions`);
 
-  // Create resort objects for all resorts with conditions
+  // Look up every resort with conditions in the catalogue (season status is kept up to date by the scraper)
   let resorts: ResortMapping[] = Array.from(conditionsMap.keys()).map(resortId => {
-    // Check if we have a mapping for this resort (use all resorts, not just priority)
-    const allResorts = getAllResorts();
-    const existingMapping = allResorts.find(r => r.internalId === resortId);
-
-    if (existingMapping) {
-      // Use the season status from the resort mapping (updated by scraper)
-      return existingMapping;
-    }
+    const existingMapping = findResortById(resortId);
+    if (existingMapping) return existingMapping;
 
-    // Create a mock mapping for unmapped resorts
-    const displayName = formatResortName(resortId);
+    // Conditions stored before the catalogue knew this resort - register it now
     const conditions = conditionsMap.get(resortId);
-    // For unmapped resorts, fall back to lift-based status detection
-    const isOpen = conditions && conditions.liftsOpen && conditions.liftsOpen > 0 ? "OPEN" : "CLOSED";
-
-    return {
-      internalId: resortId,
-      bergfexName: displayName,
-      resort: {
-        id: resortId,
-        name: displayName,
-        bergfexId: resortId,
-        coordinates: { lat: 46.8, lng: 8.2 }, // Default Swiss coordinates
-        seasonStatus: isOpen,
-        priority: 3,
-        difficulty: "mixed" as const,
-        hasPark: false,
-        hasNightRiding: false
-      }
-    };
-  });
+    registerDiscoveredResort(resortId, formatResortName(resortId), (conditions?.liftsOpen || 0) > 0 ? 'OPEN' : 'CLOSED');
+    return findResortById(resortId);
+  }).filter((mapping): mapping is ResortMapping => mapping !== null);
+
+  // Drive times to the centre of Switzerland would be made up - leave these out until geocoded
+  const unlocated = resorts.filter(mapping => !mapping.coordinatesKnown).length;
+  resorts = resorts.filter(mapping => mapping.coordinatesKnown);
+  if (unlocated > 0) {
+    console.log(`📍 Skipping ${unlocated} resorts without known coordinates`);
+  }
 
   // Calculate drive times (uses caching internally, processes sequentially to avoid rate limits)
   console.log(`🚗 Calculating drive times for ${resorts.length} resorts...`);
@@ -98,7 +104,7 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
 
   for (const resort of resorts) {
     if (!resort) continue; // Skip undefined entries
-    const estimate = await getDriveEstimate(resort);
+    const estimate = await getDriveEstimate(resort, origin);
     driveEstimates.push({ resort, estimate });
 
     const status = estimate.driveTimeMinutes <= maxDriveTime ? '✅' : '❌';
@@ -109,16 +115,16 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
     await new Promise(resolve => setTimeout(resolve, 100)); // 100ms delay
   }
 
-  const resortsWithinDriveTime = driveEstimates
-    .filter(({ estimate }) => estimate.driveTimeMinutes <= maxDriveTime)
-    .map(({ resort }) => resort);
-  resorts = resortsWithinDriveTime;
+  const estimatesWithinDriveTime = driveEstimates
+    .filter(({ estimate }) => estimate.driveTimeMinutes <= maxDriveTime);
+  resorts = estimatesWithinDriveTime.map(({ resort }) => resort);
   const filteredByDrive = resorts.length;
 
-  // Calculate scores and create recommendations
+  // Calculate scores and create recommendations (only for resorts within the drive limit)
   const scoredRecommendations: ResortRecommendation[] = [];
+  const projected = toSwissDateKey(departure) > toSwissDateKey(new Date());
 
-  for (const { resort, estimate } of driveEstimates) {
+  for (const { resort, estimate } of estimatesWithinDriveTime) {
     const conditions = conditionsMap.get(resort.internalId);
 
     // Merge conditions into resort data
@@ -132,14 +138,16 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
       lastUpdate: conditions?.lastUpdate
     };
 
-    // Calculate score
-    const score = calculateScore(resortWithConditions);
+    // Calculate score (persisted with its breakdown for /why and /stats - projections for later days aren't)
+    const score = calculateScore(resortWithConditions, { profile, departure, driveMinutes: estimate.driveTimeMinutes });
+    if (!projected) DataStorageService.storeScore(resort.internalId, score);
 
     const recommendation: ResortRecommendation = {
       resort: resortWithConditions,
       score: score,
       driveTime: estimate.driveTimeMinutes,
-      distance: estimate.distanceKm
+      distance: estimate.distanceKm,
+      isFavourite: favourites.includes(resort.internalId)
     };
 
     scoredRecommendations.push(recommendation);
@@ -148,7 +156,7 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
   // Filter out closed resorts unless explicitly requested
   let filteredRecommendations = scoredRecommendations;
   if (!includeClosed) {
-    filteredRecommendations = scoredRecommendations.filter(rec => rec.resort.seasonStatus === "OPEN");
+    filteredRecommendations = scoredRecommendations.filter(rec => rec.score.status !== 'CLOSED');
   }
 
   // Filter by minimum score
@@ -157,30 +165,54 @@ export async function getRecommendations(options: RecommendationOptions = {}): P
   // Sort by score (highest first)
   const sorted = filteredByScore.sort((a, b) => b.score.score - a.score.score);
 
-  // Limit results
+  // Limit results, but always keep favourites that made it through the filters
   const final = sorted.slice(0, limit);
+  const extraFavourites = sorted
+    .slice(limit)
+    .filter(rec => rec.isFavourite);
+  final.push(...extraFavourites);
 
   return {
     recommendations: final,
     summary: {
       totalConsidered,
+      unlocated,
       filteredByDrive,
       filteredBySeason: filteredRecommendations.length,
       filteredByScore: filteredByScore.length,
-      finalCount: final.length
+      finalCount: final.length,
+      origin: formatOriginName(origin),
+      maxDriveTime,
+      minScore,
+      profile: getScoringProfile(profile).label
     }
   };
 }
 
+/**
+ * Rank resorts for a later day (or today), leaving at PLAN_DEPARTURE that morning
+ * Same pipeline as /recs; scoring projects season dates, hours and forecast snowfall to that day
+ */
+export async function getDayPlan(day: Date, options: RecommendationOptions = {}): Promise<RecommendationResult> {
+  const [hour, minute] = PLAN_DEPARTURE.split(':').map(Number);
+  const earliest = atSwissTime(day, 0, hour!, minute!);
+  return getRecommendations({ ...options, departure: earliest > new Date() ? earliest : new Date() });
+}
+
 /**
  * Get detailed information about a specific resort
  */
-export async function getResortDetails(resortId: string): Promise<ResortRecommendation | null> {
-  const resort = getAllResorts().find(r => r.internalId === resortId);
+export async function getResortDetails(
+  resortId: string,
+  origin: Origin = DEFAULT_ORIGIN,
+  profile?: string
+): Promise<ResortRecommendation | null> {
+  const resort = findResortById(resortId);
   if (!resort) return null;
 
   const conditions = DataStorageService.getLatestConditions(resortId);
-  const driveEstimate = await getDriveEstimate(resort);
+  // No drive estimate to a placeholder location - it would be cached and outlive the geocoding
+  const driveEstimate = resort.coordinatesKnown ? await getDriveEstimate(resort, origin) : null;
 
   // Merge conditions into resort data
   const resortWithConditions: any = {
@@ -193,26 +225,33 @@ export async function getResortDetails(resortId: string): Promise<ResortRecommen
     lastUpdate: conditions?.lastUpdate
   };
 
-  const score = calculateScore(resortWithConditions);
+  const score = calculateScore(resortWithConditions, {
+    profile,
+    driveMinutes: driveEstimate?.driveTimeMinutes
+  });
+  DataStorageService.storeScore(resortId, score);
 
   return {
     resort: resortWithConditions,
     score,
-    driveTime: driveEstimate.driveTimeMinutes,
-    distance: driveEstimate.distanceKm
+    driveTime: driveEstimate?.driveTimeMinutes ?? 0,
+    distance: driveEstimate?.distanceKm ?? 0,
+    route: driveEstimate?.route,
+    locationUnknown: !resort.coordinatesKnown,
+    disagreements: conditions?.disagreements
   };
 }
 
 /**
  * Get resorts that are currently closed
  */
-export async function getClosedResorts(): Promise<ResortRecommendation[]> {
+export async function getClosedResorts(origin: Origin = DEFAULT_ORIGIN): Promise<ResortRecommendation[]> {
   const allResorts = getAllResorts();
   const closedResorts = allResorts.filter(r => r.resort.seasonStatus === 'CLOSED');
 
   const result = await Promise.all(closedResorts.map(async (resort) => {
     const conditions = DataStorageService.getLatestConditions(resort.internalId);
-    const driveEstimate = await getDriveEstimate(resort);
+    const driveEstimate = resort.coordinatesKnown ? await getDriveEstimate(resort, origin) : null;
 
     const resortWithConditions: any = {
       ...resort.resort,
@@ -229,8 +268,9 @@ export async function getClosedResorts(): Promise<ResortRecommendation[]> {
     return {
       resort: resortWithConditions,
       score,
-      driveTime: driveEstimate.driveTimeMinutes,
-      distance: driveEstimate.distanceKm
+      driveTime: driveEstimate?.driveTimeMinutes ?? 0,
+      distance: driveEstimate?.distanceKm ?? 0,
+      locationUnknown: !resort.coordinatesKnown
     };
   }));
 
@@ -240,17 +280,8 @@ export async function getClosedResorts(): Promise<ResortRecommendation[]> {
 /**
  * Format recommendation for display
  */
-export function formatRecommendation(rec: ResortRecommendation): string {
-  const { resort, score, driveTime, distance } = rec;
-
-  let status = '';
-  if (score.status === 'CLOSED') {
-    status = `❌ CLOSED until ${resort.openingDate?.toLocaleDateString()}`;
-  } else if (score.status === 'CLOSED_TODAY') {
-    status = '❌ CLOSED today';
-  } else {
-    status = `✅ OPEN`;
-  }
+export function formatRecommendation(rec: ResortRecommendation, options: { explain?: boolean } = {}): string {
+  const { resort, score } = rec;
 
   const snowInfo = [];
   if (resort.mountainDepth && resort.mountainDepth > 0) {
@@ -269,11 +300,203 @@ export function formatRecommendation(rec: ResortRecommendation): string {
     ? `${resort.liftsOpen}/${resort.liftsTotal} lifts`
     : 'Lift status unknown';
 
-  return `${resort.name}
-${status} | Score: ${Math.round(score.score)}/100 | ⏱️ ${driveTime}min (${Math.round(distance)}km)
+  const favourite = rec.isFavourite ? ' ⭐' : '';
+  const quality = DataStorageService.getSnowQuality(resort.id);
+
+  const text = `${resort.name}${favourite}
+${formatStatusLine(rec)}
 📊 ${snowText}
-🚡 ${liftText}
+🚡 ${liftText}${quality ? `\n✨ ${formatSnowQuality(quality)}` : ''}
 💡 ${score.reason}`;
+
+  return options.explain && score.breakdown ? `${text}\n\n${formatScoreBreakdown(score)}` : text;
+}
+
+/**
+ * Score breakdown, one line per term (terms that contributed nothing are skipped)
+ */
+export function formatScoreBreakdown(score: ScoreResult): string {
+  const lines = ['🧮 Score breakdown'];
+
+  for (const component of score.breakdown || []) {
+    if (Math.abs(component.points) < 0.05) continue;
+    const sign = component.points > 0 ? '+' : '';
+    lines.push(`• ${component.label}: ${sign}${component.points.toFixed(1)}`);
+  }
+
+  const total = (score.breakdown || []).reduce((sum, component) => sum + component.points, 0);
+  const capped = Math.round(total) !== Math.round(score.score) ? ` (capped from ${Math.round(total)})` : '';
+  lines.push(`= ${Math.round(score.score)}/100${capped}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Explain why one resort outscores another ("/why zermatt vs titlis")
+ */
+export function formatScoreComparison(a: ResortRecommendation, b: ResortRecommendation): string {
+  const [winner, loser] = a.score.score >= b.score.score ? [a, b] : [b, a];
+  const gap = Math.round(winner.score.score - loser.score.score);
+
+  const loserPoints = new Map((loser.score.breakdown || []).map(c => [c.key, c.points]));
+  const differences = (winner.score.breakdown || [])
+    .map(c => ({ label: c.label, diff: c.points - (loserPoints.get(c.key) || 0) }))
+    .filter(d => Math.abs(d.diff) >= 0.5)
+    .sort((x, y) => Math.abs(y.diff) - Math.abs(x.diff))
+    .slice(0, 3);
+
+  let message = gap === 0
+    ? `⚖️ ${winner.resort.name} and ${loser.resort.name} score the same`
+    : `🏆 ${winner.resort.name} beats ${loser.resort.name} by ${gap} points`;
+
+  if (differences.length > 0) {
+    message += '\n' + differences
+      .map(d => `• ${d.label}: ${d.diff > 0 ? '+' : ''}${d.diff.toFixed(1)}`)
+      .join('\n');
+  }
+
+  return message;
+}
+
+/**
+ * "✅ OPEN | Score: 72/100 | ⏱️ 65min (55km)"
+ */
+function formatStatusLine(rec: ResortRecommendation): string {
+  const { resort, score, driveTime, distance } = rec;
+
+  let status = '';
+  if (score.status === 'CLOSED') {
+    status = `❌ CLOSED until ${resort.openingDate ? formatSwissDate(resort.openingDate) : '?'}`;
+  } else if (score.status === 'CLOSED_TODAY') {
+    status = '❌ CLOSED today';
+  } else {
+    status = `✅ OPEN`;
+  }
+
+  const drive = rec.locationUnknown ? '📍 location unknown' : `⏱️ ${driveTime}min (${Math.round(distance)}km)`;
+  return `${status} | Score: ${Math.round(score.score)}/100 | ${drive}`;
+}
+
+/**
+ * Format the full /resort view: conditions, score breakdown, drive, hours, season and metadata
+ */
+export function formatResortDetails(rec: ResortRecommendation, origin: Origin = DEFAULT_ORIGIN): string {
+  const { resort, score } = rec;
+  const metadata = DataStorageService.getResortMetadata(resort.id);
+  const lines: string[] = [];
+
+  lines.push(`🏔️ ${resort.name}${rec.isFavourite ? ' ⭐' : ''}`);
+  lines.push(formatStatusLine(rec));
+
+  lines.push('', '📊 Conditions');
+  lines.push(`• Mountain ${resort.mountainDepth || 0}cm · Valley ${resort.valleyDepth || 0}cm · New ${resort.newSnow || 0}cm`);
+  lines.push(`• 🚡 ${resort.liftsOpen && resort.liftsTotal ? `${resort.liftsOpen}/${resort.liftsTotal} lifts open` : 'Lift status unknown'}`);
+  const quality = DataStorageService.getSnowQuality(resort.id);
+  if (quality) {
+    lines.push(`• ✨ ${formatSnowQuality(quality)} (${quality.source})`);
+  }
+  if (rec.disagreements && rec.disagreements.length > 0) {
+    lines.push('⚠️ Sources disagree:');
+    rec.disagreements.forEach(d => lines.push(`• ${formatDisagreement(d)}`));
+  }
+
+  if (score.breakdown) {
+    lines.push('', formatScoreBreakdown(score));
+  }
+
+  if (rec.locationUnknown) {
+    lines.push('', `📍 Location not known yet – no drive time from ${formatOriginName(origin)}`);
+  } else {
+    lines.push('', `🚗 ${rec.driveTime}min (${Math.round(rec.distance)}km) from ${formatOriginName(origin)}`);
+    if (rec.route) lines.push(`🛣️ ${rec.route}`);
+
+    const arrival = checkArrival(resort, new Date(), rec.driveTime);
+    if (arrival.closesAt && arrival.rideMinutes !== null) {
+      const warning = arrival.status === 'OK' ? '🕐' : '⚠️';
+      lines.push(`${warning} Leaving now: arrive ${formatSwissClock(arrival.arrival)}, lifts close ${formatSwissClock(arrival.closesAt)} (${formatDuration(arrival.rideMinutes)} to ride)`);
+    }
+  }
+
+  const hours = resort.operatingHours;
+  lines.push('');
+  if (hours?.weekdays || hours?.weekends) {
+    lines.push(`🕗 Hours: weekdays ${hours.weekdays || '?'}, weekends ${hours.weekends || '?'}${hours.notes ? ` (${hours.notes})` : ''}`);
+  } else {
+    lines.push('🕗 Hours: not known');
+  }
+  if (resort.todayStatus) {
+    lines.push(resort.todayStatus === 'OPEN' ? '📣 bergfex: open today' : '📣 bergfex: closed today');
+  }
+
+  const opening = resort.openingDate ? formatSwissDate(resort.openingDate) : null;
+  const closing = resort.closingDate ? formatSwissDate(resort.closingDate) : null;
+  if (resort.seasonStatus === 'CLOSED') {
+    lines.push(`📅 Season: closed${opening ? `, opens ${opening}` : ''}`);
+  } else {
+    lines.push(`📅 Season: open${closing ? ` until ${closing}` : ''}`);
+  }
+
+  const facts = [
+    metadata?.elevation ? `⛰️ ${metadata.elevation}m` : null,
+    metadata?.pistesKm ? `🎿 ${metadata.pistesKm}km pistes` : null,
+    metadata?.liftsTotal ? `🚠 ${metadata.liftsTotal} lifts` : null,
+    metadata?.price ? `💳 ${metadata.price}` : null
+  ].filter(Boolean);
+  if (facts.length > 0) lines.push(facts.join(' · '));
+
+  // Freshness: bergfex report time, flagged once it's more than a day old
+  if (resort.lastUpdate) {
+    const stale = Date.now() - resort.lastUpdate.getTime() > 24 * 60 * 60 * 1000;
+    lines.push('', `${stale ? '⚠️' : '🕐'} Last updated ${formatAge(resort.lastUpdate)}${stale ? ' – data may be outdated, try /scrape' : ''}`);
+  } else {
+    lines.push('', '⚠️ No snow report yet – try /scrape');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a day plan: ranked resorts with when to leave for the first lift
+ */
+export function formatDayPlan(result: RecommendationResult, day: Date): string {
+  const { recommendations, summary } = result;
+  const isToday = toSwissDateKey(day) === toSwissDateKey(new Date());
+  const title = `📅 Plan for ${isToday ? 'today' : formatSwissDay(day)} (${summary.profile})`;
+
+  if (recommendations.length === 0) {
+    return `${title}\n\n❌ No resort looks worth it that day within ${summary.maxDriveTime}min of ${summary.origin}.\n💡 Try another day or a longer drive in /settings.`;
+  }
+
+  const plans = recommendations.map((rec, i) => {
+    const medal = i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `🏅`;
+    const leave = suggestDeparture(rec.resort, day, rec.driveTime);
+    const leaveText = leave && leave > new Date()
+      ? `🕖 Leave ${formatSwissClock(leave)} to be there for the first lift (${formatSwissClock(new Date(leave.getTime() + rec.driveTime * 60_000))})`
+      : '🕖 Leave as soon as you can';
+    return `${medal} ${formatRecommendation(rec)}\n${leaveText}`;
+  });
+
+  return `${title}
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+${plans.join('\n\n')}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+💡 ${isToday ? 'Based on today\'s snow report' : 'Projected from today\'s snow report, season dates, operating hours and forecast snowfall'} from ${summary.origin}`;
+}
+
+/**
+ * Format closed-for-season resorts with their opening dates
+ */
+export function formatClosedResorts(closed: ResortRecommendation[]): string {
+  let message = '❌ CLOSED FOR SEASON\n\n';
+  closed.forEach((rec, i) => {
+    const opening = rec.resort.openingDate
+      ? `Opens: ${formatSwissDate(rec.resort.openingDate)}`
+      : 'Opening date unknown';
+    message += `${i + 1}. ${rec.resort.name}\n📅 ${opening}\n\n`;
+  });
+  return message;
 }
 
 /**
@@ -286,14 +509,14 @@ export function formatRecommendations(result: RecommendationResult): string {
     return `❌ No good recommendations found
 
 Considerations:
-• ${summary.totalConsidered} resorts considered
-• ${summary.filteredByDrive} within ${90}min drive
-• ${summary.filteredByScore} with score ≥${20}
+• ${summary.totalConsidered} resorts considered${summary.unlocated > 0 ? ` (${summary.unlocated} without a known location)` : ''}
+• ${summary.filteredByDrive} within ${summary.maxDriveTime}min drive from ${summary.origin}
+• ${summary.filteredByScore} with score ≥${summary.minScore}
 
 💡 Try adjusting your preferences or check back later for more snow!`;
   }
 
-  const header = `🏔️ IceKing – Top ${recommendations.length} Recommendations
+  const header = `🏔️ IceKing – Top ${recommendations.length} Recommendations (${summary.profile})
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 `;
@@ -310,7 +533,7 @@ Considerations:
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 💡 Score guide: 80-100=Excellent, 60-79=Good, 40-59=Decent, <40=Wait
 
-📊 Stats: ${summary.finalCount} shown from ${summary.totalConsidered} considered`;
+📊 Stats: ${summary.finalCount} shown from ${summary.totalConsidered} considered${summary.unlocated > 0 ? ` (${summary.unlocated} skipped, location unknown)` : ''}`;
 
   return header + recsText + footer;
 }
@@ -0,0 +1,184 @@
+import type { ScrapedResortData } from '../scrapers/bergfex.js';
+import type { ConditionsDisagreement, ConditionsField, ConditionsProvenance } from '../types/index.js';
+import { toSwissDateKey } from '../utils/time.js';
+
+/**
+ * Cross-source reconciliation of snow reports
+ * The primary source (bergfex) decides which resorts exist; other sources are matched to it by name
+ * Per field the freshest report wins (source order breaks ties) and each value remembers where it came from
+ * New snow is the exception: when sources disagree the lower figure is kept, so one source can't trigger a false powder alert
+ */
+
+export interface SourceRecords {
+  source: string;
+  records: ScrapedResortData[];
+}
+
+export interface ReconciledResortData extends ScrapedResortData {
+  provenance: ConditionsProvenance;
+  disagreements: ConditionsDisagreement[];
+}
+
+export interface ReconcileResult {
+  resorts: ReconciledResortData[];
+  matched: Record<string, number>;   // source name -> records matched to a primary resort
+  unmatched: Record<string, string[]>; // source name -> resort names nobody else knows
+}
+
+export const CONDITIONS_FIELDS: ConditionsField[] = ['mountainDepth', 'valleyDepth', 'newSnow', 'liftsOpen', 'liftsTotal'];
+
+// Differences up to these are normal (different measuring points, report times) and not flagged
+export const DISAGREEMENT_THRESHOLDS: Record<ConditionsField, number> = {
+  mountainDepth: 30,
+  valleyDepth: 30,
+  newSnow: 10,
+  liftsOpen: 3,
+  liftsTotal: 3
+};
+
+interface Candidate {
+  source: string;
+  record: ScrapedResortData;
+  priority: number;
+}
+
+/**
+ * Name key used to match resorts across sources ("Flims Laax Falera" -> "flims laax falera")
+ */
+export function normalizeResortName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the primary record a secondary one describes
+ * Exact name first, then a whole-word containment ("Laax" in "Flims Laax Falera") with the closest length
+ */
+function findPrimaryMatch(name: string, primary: Map<string, ScrapedResortData>): ScrapedResortData | null {
+  const key = normalizeResortName(name);
+  if (!key) return null;
+
+  const exact = primary.get(key);
+  if (exact) return exact;
+
+  let best: { record: ScrapedResortData; diff: number } | null = null;
+  for (const [primaryKey, record] of primary) {
+    const contained = ` ${primaryKey} `.includes(` ${key} `) || ` ${key} `.includes(` ${primaryKey} `);
+    if (!contained) continue;
+
+    const diff = Math.abs(primaryKey.length - key.length);
+    if (!best || diff < best.diff) best = { record, diff };
+  }
+  return best ? best.record : null;
+}
+
+/**
+ * Later report day wins; same day (or unknown dates) falls back to source order
+ */
+function compareCandidates(a: Candidate, b: Candidate): number {
+  const dayA = a.record.lastUpdate ? toSwissDateKey(a.record.lastUpdate) : '';
+  const dayB = b.record.lastUpdate ? toSwissDateKey(b.record.lastUpdate) : '';
+  if (dayA !== dayB) return dayA > dayB ? -1 : 1;
+  return a.priority - b.priority;
+}
+
+function mergeResort(candidates: Candidate[]): ReconciledResortData {
+  const ordered = [...candidates].sort(compareCandidates);
+  const primary = candidates[0]!.record;
+  const merged: ReconciledResortData = { ...primary, provenance: {}, disagreements: [] };
+
+  for (const field of CONDITIONS_FIELDS) {
+    const reporting = ordered.filter(c => c.record[field] !== null && c.record[field] !== undefined);
+    if (reporting.length === 0) {
+      merged[field] = null;
+      continue;
+    }
+
+    let chosen = reporting[0]!;
+    // Keep open and total lifts from the same report so "open" never exceeds "total"
+    if (field === 'liftsTotal' && merged.provenance.liftsOpen) {
+      chosen = reporting.find(c => c.source === merged.provenance.liftsOpen) || chosen;
+    }
+
+    const values = reporting.map(c => c.record[field] as number);
+    const spread = Math.max(...values) - Math.min(...values);
+    if (field === 'newSnow' && spread > DISAGREEMENT_THRESHOLDS.newSnow) {
+      chosen = reporting.reduce((low, c) => (c.record.newSnow as number) < (low.record.newSnow as number) ? c : low);
+    }
+
+    merged[field] = chosen.record[field];
+    merged.provenance[field] = chosen.source;
+
+    if (spread > DISAGREEMENT_THRESHOLDS[field]) {
+      merged.disagreements.push({
+        field,
+        values: Object.fromEntries(reporting.map(c => [c.source, c.record[field] as number])),
+        used: chosen.source
+      });
+    }
+  }
+
+  const lastUpdates = ordered.map(c => c.record.lastUpdate).filter((d): d is Date => d !== null);
+  merged.lastUpdate = lastUpdates.length > 0 ? new Date(Math.max(...lastUpdates.map(d => d.getTime()))) : null;
+
+  return merged;
+}
+
+/**
+ * Merge snow reports per resort (first source is the primary one)
+ */
+export function reconcileConditions(sources: SourceRecords[]): ReconcileResult {
+  const result: ReconcileResult = { resorts: [], matched: {}, unmatched: {} };
+  const [primarySource, ...others] = sources;
+  if (!primarySource) return result;
+
+  const primaryByName = new Map<string, ScrapedResortData>();
+  const candidates = new Map<ScrapedResortData, Candidate[]>();
+  for (const record of primarySource.records) {
+    primaryByName.set(normalizeResortName(record.name), record);
+    candidates.set(record, [{ source: primarySource.source, record, priority: 0 }]);
+  }
+
+  others.forEach(({ source, records }, index) => {
+    result.matched[source] = 0;
+    result.unmatched[source] = [];
+
+    for (const record of records) {
+      const match = findPrimaryMatch(record.name, primaryByName);
+      const list = match ? candidates.get(match) : undefined;
+      // One report per source and resort - a second match is a naming collision, not extra data
+      if (!list || list.some(c => c.source === source)) {
+        result.unmatched[source]!.push(record.name);
+        continue;
+      }
+      list.push({ source, record, priority: index + 1 });
+      result.matched[source]!++;
+    }
+  });
+
+  for (const record of primarySource.records) {
+    result.resorts.push(mergeResort(candidates.get(record)!));
+  }
+
+  return result;
+}
+
+/**
+ * "mountain depth: bergfex 150cm vs myswitzerland 90cm"
+ */
+export function formatDisagreement(disagreement: ConditionsDisagreement): string {
+  const labels: Record<ConditionsField, string> = {
+    mountainDepth: 'mountain depth',
+    valleyDepth: 'valley depth',
+    newSnow: 'new snow',
+    liftsOpen: 'lifts open',
+    liftsTotal: 'lifts total'
+  };
+  const unit = disagreement.field.startsWith('lifts') ? '' : 'cm';
+  const values = Object.entries(disagreement.values).map(([source, value]) => `${source} ${value}${unit}`);
+  return `${labels[disagreement.field]}: ${values.join(' vs ')} (using ${disagreement.used})`;
+}
@@ -1,276 +1,200 @@
+import { resortStatements, driveTimeStatements } from '../database/index.js';
+import { SEED_RESORTS } from '../data/seedResorts.js';
+import { toSwissDateKey } from '../utils/time.js';
 import type { Resort } from '../types/index.js';
+import type { ResortPageDetails } from '../scrapers/bergfex.js';
 
 /**
  * Resort mapping system to link bergfex names to internal resort data
- * This provides static resort information and maps scraped names to our database
+ * Backed by the resorts table: curated resorts (seeded from SEED_RESORTS)
+ * plus resorts discovered on bergfex that we have no curated data for yet
  */
 
 export interface ResortMapping {
   bergfexName: string;
   internalId: string;
+  aliases?: string[]; // extra names people use ("titlis", "flumsi")
   resort: Resort;
+  coordinatesKnown: boolean; // false: resort.coordinates is only the centre of Switzerland
+  coordinatesSource?: CoordinatesSource;
+  isCurated: boolean;        // from SEED_RESORTS rather than discovered by scraping
+  detailUrl?: string;        // bergfex resort page, when the scraper found one
 }
 
-// Static resort database - in production this would come from database
-// Based on Swiss ski resorts with drive times from Dietikon
-const RESORT_DATABASE: ResortMapping[] = [
-  // High-priority resorts with accurate coordinates
-  {
-    bergfexName: "Engelberg Titlis",
-    internalId: "engelberg-titlis",
-    resort: {
-      id: "engelberg-titlis",
-      name: "Engelberg Titlis",
-      bergfexId: "engelberg-titlis",
-      coordinates: { lat: 46.8217, lng: 8.4017 },
-      seasonStatus: "OPEN",
-      priority: 10,
-      difficulty: "mixed",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Zermatt",
-    internalId: "zermatt",
-    resort: {
-      id: "zermatt",
-      name: "Zermatt",
-      bergfexId: "zermatt",
-      coordinates: { lat: 46.0244, lng: 7.7486 },
-      seasonStatus: "OPEN",
-      priority: 10,
-      difficulty: "advanced",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Saas-Fee",
-    internalId: "saas-fee",
-    resort: {
-      id: "saas-fee",
-      name: "Saas-Fee",
-      bergfexId: "saas-fee",
-      coordinates: { lat: 46.1080, lng: 7.9276 },
-      seasonStatus: "OPEN",
-      priority: 9,
-      difficulty: "mixed",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Davos Klosters Parsenn",
-    internalId: "davos-parsenn",
-    resort: {
-      id: "davos-parsenn",
-      name: "Davos Parsenn",
-      bergfexId: "davos-klosters-parsenn",
-      coordinates: { lat: 46.7974, lng: 9.8209 },
-      seasonStatus: "OPEN",
-      priority: 8,
-      difficulty: "mixed",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Glacier 3000 - Les Diablerets",
-    internalId: "glacier-3000",
-    resort: {
-      id: "glacier-3000",
-      name: "Glacier 3000",
-      bergfexId: "glacier-3000-les-diablerets",
-      coordinates: { lat: 46.3317, lng: 7.2044 },
-      seasonStatus: "OPEN",
-      priority: 8,
-      difficulty: "mixed",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Arosa Lenzerheide",
-    internalId: "arosa-lenzerheide",
-    resort: {
-      id: "arosa-lenzerheide",
-      name: "Arosa Lenzerheide",
-      bergfexId: "arosa-lenzerheide",
-      coordinates: { lat: 46.7824, lng: 9.6849 },
-      seasonStatus: "OPEN",
-      priority: 7,
-      difficulty: "mixed",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Andermatt - Gemsstock",
-    internalId: "andermatt",
-    resort: {
-      id: "andermatt",
-      name: "Andermatt",
-      bergfexId: "andermatt-gemsstock",
-      coordinates: { lat: 46.6356, lng: 8.5939 },
-      seasonStatus: "OPEN",
-      priority: 7,
-      difficulty: "advanced",
-      hasPark: true,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Gstaad",
-    internalId: "gstaad",
-    resort: {
-      id: "gstaad",
-      name: "Gstaad",
-      bergfexId: "gstaad",
-      coordinates: { lat: 46.4700, lng: 7.2831 },
-      seasonStatus: "OPEN",
-      priority: 6,
-      difficulty: "mixed",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
+export type CoordinatesSource = 'curated' | 'bergfex' | 'gazetteer';
 
-  // Add major resorts from the scraped data with estimated coordinates
-  {
-    bergfexName: "Survih - Samedan",
-    internalId: "survih-samedan",
-    resort: {
-      id: "survih-samedan",
-      name: "Survih Samedan",
-      bergfexId: "survih-samedan",
-      coordinates: { lat: 46.5339, lng: 9.8717 }, // Estimated coordinates
-      seasonStatus: "OPEN",
-      priority: 6,
-      difficulty: "mixed",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Lauchernalp - Lötschental",
-    internalId: "lauchernalp-loetschental",
-    resort: {
-      id: "lauchernalp-loetschental",
-      name: "Lauchernalp Lötschental",
-      bergfexId: "lauchernalp-loetschental",
-      coordinates: { lat: 46.4167, lng: 7.7667 }, // Estimated coordinates
-      seasonStatus: "OPEN",
-      priority: 5,
-      difficulty: "mixed",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Sörenberg",
-    internalId: "soerenberg",
-    resort: {
-      id: "soerenberg",
-      name: "Sörenberg",
-      bergfexId: "soerenberg",
-      coordinates: { lat: 46.8333, lng: 8.0333 }, // Estimated coordinates
-      seasonStatus: "OPEN",
-      priority: 5,
-      difficulty: "mixed",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Davos Schatzalp - Strela",
-    internalId: "davos-schatzalp-strela",
-    resort: {
-      id: "davos-schatzalp-strela",
-      name: "Davos Schatzalp Strela",
-      bergfexId: "davos-schatzalp-strela",
-      coordinates: { lat: 46.8000, lng: 9.8167 }, // Estimated coordinates
-      seasonStatus: "OPEN",
-      priority: 5,
-      difficulty: "mixed",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Davos Rinerhorn",
-    internalId: "davos-rinerhorn",
-    resort: {
-      id: "davos-rinerhorn",
-      name: "Davos Rinerhorn",
-      bergfexId: "davos-rinerhorn",
-      coordinates: { lat: 46.8167, lng: 9.8333 }, // Estimated coordinates
-      seasonStatus: "OPEN",
-      priority: 5,
-      difficulty: "mixed",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
+export type ResortSeed = Omit<ResortMapping, 'coordinatesKnown' | 'coordinatesSource' | 'isCurated' | 'detailUrl'>;
 
-  // Closed resorts
-  {
-    bergfexName: "Hoch-Ybrig",
-    internalId: "hoch-ybrig",
-    resort: {
-      id: "hoch-ybrig",
-      name: "Hoch-Ybrig",
-      bergfexId: "hoch-ybrig",
-      coordinates: { lat: 47.0139, lng: 8.8581 },
-      seasonStatus: "CLOSED",
-      openingDate: new Date("2025-12-07"),
-      priority: 5,
-      difficulty: "beginner",
-      hasPark: false,
-      hasNightRiding: false
-    }
-  },
-  {
-    bergfexName: "Flumserberg",
-    internalId: "flumserberg",
+// Placeholder for resorts whose location we don't know yet
+export const SWISS_CENTRE = { lat: 46.8, lng: 8.2 };
+
+// Make sure the curated resorts exist (and are up to date) in the database
+for (const seed of SEED_RESORTS) {
+  const { resort } = seed;
+  resortStatements.upsertSeed.run(
+    seed.internalId,
+    resort.bergfexId,
+    seed.bergfexName,
+    resort.name,
+    JSON.stringify(seed.aliases || []),
+    resort.coordinates.lat,
+    resort.coordinates.lng,
+    resort.seasonStatus,
+    resort.openingDate ? resort.openingDate.toISOString().slice(0, 10) : null,
+    resort.closingDate ? resort.closingDate.toISOString().slice(0, 10) : null,
+    resort.priority,
+    resort.difficulty,
+    resort.hasPark ? 1 : 0,
+    resort.hasNightRiding ? 1 : 0
+  );
+}
+
+function rowToMapping(row: any): ResortMapping {
+  const coordinatesKnown = row.lat !== null && row.lng !== null;
+  const hasHours = row.hours_weekdays || row.hours_weekends || row.hours_notes;
+
+  return {
+    bergfexName: row.bergfex_name,
+    internalId: row.id,
+    aliases: JSON.parse(row.aliases || '[]'),
+    coordinatesKnown,
+    coordinatesSource: coordinatesKnown ? row.coordinates_source || undefined : undefined,
+    isCurated: row.is_curated === 1,
+    detailUrl: row.detail_url || undefined,
     resort: {
-      id: "flumserberg",
-      name: "Flumserberg",
-      bergfexId: "flumserberg",
-      coordinates: { lat: 47.0867, lng: 9.3344 },
-      seasonStatus: "CLOSED",
-      openingDate: new Date("2025-12-15"),
-      priority: 4,
-      difficulty: "beginner",
-      hasPark: false,
-      hasNightRiding: false
+      id: row.id,
+      name: row.name,
+      bergfexId: row.bergfex_id || row.id,
+      coordinates: coordinatesKnown ? { lat: row.lat, lng: row.lng } : SWISS_CENTRE,
+      seasonStatus: row.season_status,
+      openingDate: row.opening_date ? new Date(row.opening_date) : undefined,
+      closingDate: row.closing_date ? new Date(row.closing_date) : undefined,
+      operatingHours: hasHours
+        ? {
+            weekdays: row.hours_weekdays || undefined,
+            weekends: row.hours_weekends || undefined,
+            notes: row.hours_notes || undefined
+          }
+        : undefined,
+      todayStatus: row.today_status && row.today_status_date === toSwissDateKey(new Date()) ? row.today_status : undefined,
+      priority: row.priority,
+      difficulty: row.difficulty,
+      hasPark: row.has_park === 1,
+      hasNightRiding: row.has_night_riding === 1
     }
-  }
-];
+  };
+}
+
+/**
+ * Every resort in the catalogue, curated and discovered
+ */
+export function getCatalogue(): ResortMapping[] {
+  return (resortStatements.getAll.all() as any[]).map(rowToMapping);
+}
+
+/**
+ * Add a resort seen on bergfex that isn't in the catalogue yet (no-op if it exists)
+ * Location is unknown until it is curated or geocoded
+ */
+export function registerDiscoveredResort(resortId: string, bergfexName: string, seasonStatus: Resort['seasonStatus']): void {
+  resortStatements.insertDiscovered.run(resortId, resortId, bergfexName, bergfexName, seasonStatus);
+}
+
+/**
+ * Record the season status reported by bergfex
+ */
+export function updateSeasonStatus(resortId: string, seasonStatus: Resort['seasonStatus']): void {
+  resortStatements.updateSeasonStatus.run(seasonStatus, resortId);
+}
+
+/**
+ * Remember where a resort's bergfex page is
+ */
+export function updateDetailUrl(resortId: string, detailUrl: string): void {
+  resortStatements.updateDetailUrl.run(detailUrl, resortId, detailUrl);
+}
+
+/**
+ * Resorts still waiting for coordinates (failed attempts are retried after a week)
+ */
+export function getUngeocodedResorts(limit: number): ResortMapping[] {
+  return (resortStatements.getUngeocoded.all(limit) as any[]).map(rowToMapping);
+}
+
+/**
+ * Store geocoded coordinates for a resort
+ * Drive times cached for the old location are dropped, from every origin
+ */
+export function updateCoordinates(resortId: string, coordinates: { lat: number; lng: number }, source: CoordinatesSource): void {
+  resortStatements.updateCoordinates.run(coordinates.lat, coordinates.lng, source, resortId);
+  driveTimeStatements.deleteByResort.run(resortId);
+}
+
+/**
+ * Record a geocoding attempt that found nothing
+ */
+export function markGeocodeAttempt(resortId: string): void {
+  resortStatements.markGeocodeAttempt.run(resortId);
+}
+
+/**
+ * Resorts whose bergfex page hasn't been read in the last week
+ */
+export function getResortsWithStaleDetails(limit: number): ResortMapping[] {
+  return (resortStatements.getDetailsDue.all(limit) as any[]).map(rowToMapping);
+}
 
-// Create lookup maps for fast access
-const nameToMapping = new Map<string, ResortMapping>();
-const idToMapping = new Map<string, ResortMapping>();
+/**
+ * Store hours, season dates and today's status from a bergfex resort page
+ */
+export function updateResortDetails(resortId: string, details: ResortPageDetails): void {
+  resortStatements.updateDetails.run(
+    details.hoursWeekdays,
+    details.hoursWeekends,
+    details.hoursNotes,
+    details.seasonStart,
+    details.seasonEnd,
+    details.todayStatus,
+    details.todayStatus ? toSwissDateKey(new Date()) : null,
+    resortId
+  );
+}
 
-// Initialize maps
-RESORT_DATABASE.forEach(mapping => {
-  nameToMapping.set(mapping.bergfexName.toLowerCase(), mapping);
-  idToMapping.set(mapping.internalId, mapping);
-});
+/**
+ * Record a resort page fetch that failed (retried after the cache expires)
+ */
+export function markDetailsAttempt(resortId: string): void {
+  resortStatements.markDetailsAttempt.run(resortId);
+}
+
+/**
+ * Number of resorts whose location is still unknown
+ */
+export function countUnlocatedResorts(): number {
+  return (resortStatements.countUnlocated.get() as any)?.count || 0;
+}
+
+/**
+ * Number of resorts in the catalogue (curated and discovered)
+ */
+export function countResorts(): number {
+  return (resortStatements.count.get() as any)?.count || 0;
+}
 
 /**
  * Find resort by bergfex name (fuzzy matching)
  */
 export function findResortByBergfexName(bergfexName: string): ResortMapping | null {
-  // Exact match first
-  const exact = nameToMapping.get(bergfexName.toLowerCase());
-  if (exact) return exact;
+  // Exact match first (curated or discovered)
+  const exact = resortStatements.getByBergfexName.get(bergfexName.trim());
+  if (exact) return rowToMapping(exact);
 
   // Fuzzy matching for common variations
   const normalized = bergfexName.toLowerCase().trim();
 
-  // Try partial matches
-  for (const [name, mapping] of nameToMapping) {
+  // Try partial matches (curated names only - discovered names are bergfex's own)
+  for (const mapping of getAllResorts()) {
+    const name = mapping.bergfexName.toLowerCase();
     if (normalized.includes(name) || name.includes(normalized)) {
       return mapping;
     }
@@ -279,30 +203,99 @@ export function findResortByBergfexName(bergfexName: string): ResortMapping | nu
   return null;
 }
 
+function normalizeName(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance between two short strings (typo tolerance for resort search)
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * How well a query matches one resort name (0 = not at all, 100 = exact)
+ */
+function matchScore(query: string, name: string): number {
+  if (!name) return 0;
+  if (query === name) return 100;
+  if (name.startsWith(query)) return 80;
+  if (name.split(' ').includes(query)) return 75;
+  if (name.includes(query)) return 60;
+
+  // Typos: compare against the whole name and each word, allowing ~1 edit per 4 letters
+  const allowed = Math.max(1, Math.floor(query.length / 4));
+  const distance = Math.min(levenshtein(query, name), ...name.split(' ').map(word => levenshtein(query, word)));
+  return distance <= allowed ? 50 - distance * 10 : 0;
+}
+
+/**
+ * Search the catalogue by bergfex name, internal id and aliases (best match first)
+ */
+export function searchResorts(query: string, limit: number = 5): ResortMapping[] {
+  const normalized = normalizeName(query);
+  if (normalized.length < 2) return [];
+
+  return getCatalogue()
+    .map(mapping => {
+      const names = [mapping.bergfexName, mapping.resort.name, mapping.internalId, ...(mapping.aliases || [])].map(normalizeName);
+      return { mapping, score: Math.max(...names.map(name => matchScore(normalized, name))) };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || b.mapping.resort.priority - a.mapping.resort.priority)
+    .slice(0, limit)
+    .map(result => result.mapping);
+}
+
+/**
+ * Best resort match for free text ("titlis", "saas fee", "flumserbreg")
+ */
+export function findResort(query: string): ResortMapping | null {
+  return findResortById(query.trim()) || searchResorts(query, 1)[0] || null;
+}
+
 /**
  * Find resort by internal ID
  */
 export function findResortById(internalId: string): ResortMapping | null {
-  return idToMapping.get(internalId) || null;
+  const row = resortStatements.getById.get(internalId);
+  return row ? rowToMapping(row) : null;
 }
 
 /**
- * Get all resorts
+ * Get all curated resorts
  */
 export function getAllResorts(): ResortMapping[] {
-  return RESORT_DATABASE;
+  return (resortStatements.getCurated.all() as any[]).map(rowToMapping);
 }
 
 /**
  * Get priority resorts (for quick recommendations)
  */
 export function getPriorityResorts(): ResortMapping[] {
-  return RESORT_DATABASE.filter(r => r.resort.priority >= 6);
+  return getAllResorts().filter(r => r.resort.priority >= 6);
 }
 
 /**
  * Get open resorts only
  */
 export function getOpenResorts(): ResortMapping[] {
-  return RESORT_DATABASE.filter(r => r.resort.seasonStatus === "OPEN");
+  return getAllResorts().filter(r => r.resort.seasonStatus === "OPEN");
 }
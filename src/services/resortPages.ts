@@ -0,0 +1,60 @@
+import { scrapeBergfexResortPage, type ResortPageDetails } from '../scrapers/bergfex.js';
+import {
+  getResortsWithStaleDetails,
+  markDetailsAttempt,
+  updateCoordinates,
+  updateResortDetails,
+  type ResortMapping
+} from './resortMapping.js';
+
+/**
+ * Operating hours, season dates and today's status from bergfex resort pages
+ * Each page is read at most once a week; hours and dates rarely change mid-season
+ */
+
+// Pages per scrape - with two scrapes a day every resort is refreshed well within the week
+const MAX_PAGES_PER_RUN = 30;
+
+/**
+ * Read one resort's bergfex page and store what it says
+ */
+export async function refreshResortPage(mapping: ResortMapping): Promise<ResortPageDetails | null> {
+  if (!mapping.detailUrl) return null;
+
+  const details = await scrapeBergfexResortPage(mapping.detailUrl);
+  updateResortDetails(mapping.internalId, details);
+
+  // The page knows where the resort is - use it if geocoding hasn't placed it yet
+  if (!mapping.coordinatesKnown && details.coordinates) {
+    updateCoordinates(mapping.internalId, details.coordinates, 'bergfex');
+  }
+
+  return details;
+}
+
+/**
+ * Refresh resort pages older than a week (curated resorts first)
+ * One failing page doesn't stop the rest - returns how many were stored
+ */
+export async function refreshResortPages(limit: number = MAX_PAGES_PER_RUN): Promise<number> {
+  const due = getResortsWithStaleDetails(limit);
+  let stored = 0;
+
+  for (const mapping of due) {
+    try {
+      await refreshResortPage(mapping);
+      stored++;
+    } catch (error) {
+      markDetailsAttempt(mapping.internalId);
+      console.error(`❌ Failed to scrape resort page for ${mapping.internalId}:`, error instanceof Error ? error.message : error);
+    }
+
+    // Small delay between pages to be respectful to bergfex
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+
+  if (due.length > 0) {
+    console.log(`📄 Stored resort page details for ${stored}/${due.length} resorts`);
+  }
+  return stored;
+}
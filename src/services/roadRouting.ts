@@ -0,0 +1,165 @@
+import { ROAD_NODES, ROAD_EDGES, ROAD_SPEEDS_KMH, DETOUR_FACTORS, type RoadEdge } from '../data/roadGraph.js';
+import { calculateDistance } from '../utils/geo.js';
+
+/**
+ * Offline drive times - A* over the bundled Swiss road graph (src/data/roadGraph.ts)
+ * Origin and resort join the graph over local roads at their nearest node; edges cost their
+ * length at the road kind's winter speed, car trains and shuttles a fixed time
+ */
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface RoadRoute {
+  distanceKm: number;
+  minutes: number;
+  roads: string[]; // named roads in driving order, repeats collapsed: ["A4", "A3"]
+  via: string[];   // names of the graph nodes passed, first to last
+}
+
+interface Arc {
+  to: string;
+  km: number;
+  minutes: number;
+  road?: string;
+}
+
+// Local roads between an address and the graph
+const ACCESS_SPEED_KMH = 40;
+const ACCESS_DETOUR = 1.3;
+// Join the nearest node and any almost as close one - a wider net would let access legs
+// drive around car trains and car-free villages (Täsch is 5 km from Zermatt)
+const ACCESS_SLACK_KM = 3;
+// Fastest possible travel, for an A* heuristic that never overestimates
+const MAX_SPEED_KMH = Math.max(...Object.values(ROAD_SPEEDS_KMH));
+
+const START = '@start';
+const END = '@end';
+
+const nodesById = new Map(ROAD_NODES.map(node => [node.id, node]));
+let adjacency: Map<string, Arc[]> | null = null;
+
+function edgeArc(edge: RoadEdge, to: string): Arc {
+  const from = nodesById.get(edge.from)!;
+  const target = nodesById.get(edge.to)!;
+  const km = edge.km ?? calculateDistance(from.lat, from.lng, target.lat, target.lng) * DETOUR_FACTORS[edge.kind];
+  const minutes = edge.minutes ?? (km / ROAD_SPEEDS_KMH[edge.kind as keyof typeof ROAD_SPEEDS_KMH]) * 60;
+  return { to, km, minutes, road: edge.road };
+}
+
+/**
+ * Both directions of every edge, built on first use
+ */
+function getAdjacency(): Map<string, Arc[]> {
+  if (adjacency) return adjacency;
+
+  const graph = new Map<string, Arc[]>(ROAD_NODES.map(node => [node.id, []]));
+  for (const edge of ROAD_EDGES) {
+    if (!nodesById.has(edge.from) || !nodesById.has(edge.to)) {
+      throw new Error(`Road graph edge ${edge.from} - ${edge.to} references an unknown node`);
+    }
+    graph.get(edge.from)!.push(edgeArc(edge, edge.to));
+    graph.get(edge.to)!.push(edgeArc(edge, edge.from));
+  }
+
+  adjacency = graph;
+  return graph;
+}
+
+/**
+ * Local road legs from a point to the graph nodes it joins
+ */
+function accessArcs(point: Coordinates): Arc[] {
+  const byDistance = ROAD_NODES
+    .map(node => ({ id: node.id, km: calculateDistance(point.lat, point.lng, node.lat, node.lng) }))
+    .sort((a, b) => a.km - b.km);
+  const nearest = byDistance[0]!.km;
+
+  return byDistance
+    .filter(({ km }) => km <= nearest + ACCESS_SLACK_KM)
+    .map(({ id, km }) => ({
+      to: id,
+      km: km * ACCESS_DETOUR,
+      minutes: ((km * ACCESS_DETOUR) / ACCESS_SPEED_KMH) * 60
+    }));
+}
+
+/**
+ * Fastest route by road between two points
+ */
+export function findRoadRoute(from: Coordinates, to: Coordinates): RoadRoute {
+  const graph = getAdjacency();
+  const endArcs = new Map(accessArcs(to).map(arc => [arc.to, { ...arc, to: END }]));
+
+  const neighbours = (id: string): Arc[] => {
+    if (id === START) return accessArcs(from);
+    const arcs = graph.get(id) || [];
+    const exit = endArcs.get(id);
+    return exit ? [...arcs, exit] : arcs;
+  };
+
+  const heuristic = (id: string): number => {
+    const node = nodesById.get(id);
+    if (!node) return 0;
+    return (calculateDistance(node.lat, node.lng, to.lat, to.lng) / MAX_SPEED_KMH) * 60;
+  };
+
+  const best = new Map<string, number>([[START, 0]]);
+  const previous = new Map<string, { from: string; arc: Arc }>();
+  const done = new Set<string>();
+  const open = new Set<string>([START]);
+
+  while (open.size > 0) {
+    // The graph has ~150 nodes - a linear scan beats keeping a heap in order
+    let current = '';
+    let currentScore = Infinity;
+    for (const id of open) {
+      const score = best.get(id)! + heuristic(id);
+      if (score < currentScore) {
+        current = id;
+        currentScore = score;
+      }
+    }
+
+    if (current === END) break;
+    open.delete(current);
+    done.add(current);
+
+    for (const arc of neighbours(current)) {
+      if (done.has(arc.to)) continue;
+      const minutes = best.get(current)! + arc.minutes;
+      if (minutes < (best.get(arc.to) ?? Infinity)) {
+        best.set(arc.to, minutes);
+        previous.set(arc.to, { from: current, arc });
+        open.add(arc.to);
+      }
+    }
+  }
+
+  if (!previous.has(END)) {
+    throw new Error(`No road route from ${from.lat},${from.lng} to ${to.lat},${to.lng}`);
+  }
+
+  const route: RoadRoute = { distanceKm: 0, minutes: best.get(END)!, roads: [], via: [] };
+  for (let step = previous.get(END); step; step = previous.get(step.from)) {
+    route.distanceKm += step.arc.km;
+    if (step.arc.road && route.roads[0] !== step.arc.road) route.roads.unshift(step.arc.road);
+    if (step.from !== START) route.via.unshift(nodesById.get(step.from)!.name);
+  }
+
+  route.distanceKm = Math.round(route.distanceKm * 10) / 10;
+  route.minutes = Math.round(route.minutes);
+  return route;
+}
+
+/**
+ * "A4 → A3 → Flums" - named roads, then the last place on the graph
+ */
+export function describeRoadRoute(route: RoadRoute): string {
+  const parts = [...route.roads];
+  const destination = route.via[route.via.length - 1];
+  if (destination && destination !== parts[parts.length - 1]) parts.push(destination);
+  return parts.join(' → ');
+}
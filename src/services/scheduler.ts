@@ -0,0 +1,211 @@
+import { getNextOccurrence, SWISS_TIMEZONE } from '../utils/time.js';
+
+/**
+ * In-process job scheduler
+ * Runs jobs at fixed wall-clock times (Swiss time by default) with
+ * retries, exponential backoff and overlap protection
+ */
+
+export interface JobDefinition {
+  name: string;
+  times: string[];        // "HH:MM" wall-clock times
+  timeZone?: string;      // default: Europe/Zurich
+  retries?: number;       // extra attempts after the first failure (default: 2)
+  backoffMs?: number;     // delay before the first retry, doubled each time (default: 60s)
+  run: () => Promise<void>;
+}
+
+export interface JobStatus {
+  name: string;
+  times: string[];
+  running: boolean;
+  lastRun: Date | null;
+  lastSuccess: Date | null;
+  lastError: string | null;
+  lastAttempts: number;
+  nextRun: Date | null;
+}
+
+export interface RunResult {
+  started: boolean;
+  success: boolean;
+  error?: string;
+}
+
+interface JobState {
+  definition: JobDefinition;
+  running: Promise<RunResult> | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  lastRun: Date | null;
+  lastSuccess: Date | null;
+  lastError: string | null;
+  lastAttempts: number;
+  nextRun: Date | null;
+}
+
+// setTimeout overflows above ~24.8 days; we never need to wait longer than a day
+const MAX_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+export class JobScheduler {
+  private jobs = new Map<string, JobState>();
+  private started = false;
+
+  /**
+   * Register a job (scheduled automatically if the scheduler is running)
+   */
+  addJob(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job already registered: ${definition.name}`);
+    }
+
+    const state: JobState = {
+      definition,
+      running: null,
+      timer: null,
+      lastRun: null,
+      lastSuccess: null,
+      lastError: null,
+      lastAttempts: 0,
+      nextRun: null
+    };
+    this.jobs.set(definition.name, state);
+
+    if (this.started) {
+      this.scheduleNext(state);
+    }
+  }
+
+  /**
+   * Start timers for all registered jobs
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const state of this.jobs.values()) {
+      this.scheduleNext(state);
+    }
+    console.log(`⏰ Scheduler started with ${this.jobs.size} job(s)`);
+  }
+
+  /**
+   * Stop all timers (running jobs are allowed to finish)
+   */
+  stop(): void {
+    this.started = false;
+    for (const state of this.jobs.values()) {
+      if (state.timer) clearTimeout(state.timer);
+      state.timer = null;
+      state.nextRun = null;
+    }
+  }
+
+  /**
+   * Run a job immediately - refuses to start if the job is already running
+   * Pass `retries: 0` for interactive runs that shouldn't sit in backoff
+   */
+  async runNow(name: string, options: { retries?: number } = {}): Promise<RunResult> {
+    const state = this.jobs.get(name);
+    if (!state) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    if (state.running) {
+      console.log(`⏳ Job ${name} already running, skipping overlapping run`);
+      return { started: false, success: false, error: 'Job already running' };
+    }
+
+    state.running = this.execute(state, options.retries);
+    try {
+      return await state.running;
+    } finally {
+      state.running = null;
+    }
+  }
+
+  /**
+   * Whether a job is currently executing
+   */
+  isRunning(name: string): boolean {
+    return this.jobs.get(name)?.running != null;
+  }
+
+  /**
+   * Status of all jobs (for /stats)
+   */
+  getStatus(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(state => ({
+      name: state.definition.name,
+      times: state.definition.times,
+      running: state.running !== null,
+      lastRun: state.lastRun,
+      lastSuccess: state.lastSuccess,
+      lastError: state.lastError,
+      lastAttempts: state.lastAttempts,
+      nextRun: state.nextRun
+    }));
+  }
+
+  private scheduleNext(state: JobState): void {
+    if (state.timer) clearTimeout(state.timer);
+
+    const { times, timeZone = SWISS_TIMEZONE } = state.definition;
+    const nextRun = getNextOccurrence(times, new Date(), timeZone);
+    state.nextRun = nextRun;
+
+    if (!nextRun) {
+      if (times.length > 0) console.warn(`⚠️ Job ${state.definition.name} has no valid run times (${times.join(', ')})`);
+      return;
+    }
+
+    const delay = nextRun.getTime() - Date.now();
+    state.timer = setTimeout(() => {
+      // Re-check in case the timer fired early or was capped
+      if (Date.now() < nextRun.getTime()) {
+        this.scheduleNext(state);
+        return;
+      }
+
+      this.runNow(state.definition.name)
+        .catch(error => console.error(`❌ Scheduled job ${state.definition.name} crashed:`, error))
+        .finally(() => {
+          if (this.started) this.scheduleNext(state);
+        });
+    }, Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS));
+  }
+
+  private async execute(state: JobState, retriesOverride?: number): Promise<RunResult> {
+    const { name, run, retries = 2, backoffMs = 60_000 } = state.definition;
+    const maxAttempts = (retriesOverride ?? retries) + 1;
+
+    state.lastRun = new Date();
+    state.lastAttempts = 0;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      state.lastAttempts = attempt;
+      try {
+        console.log(`▶️ Running job ${name} (attempt ${attempt}/${maxAttempts})`);
+        await run();
+
+        state.lastSuccess = new Date();
+        state.lastError = null;
+        console.log(`✅ Job ${name} finished`);
+        return { started: true, success: true };
+      } catch (error: any) {
+        state.lastError = error?.message || String(error);
+        console.error(`❌ Job ${name} failed (attempt ${attempt}/${maxAttempts}):`, state.lastError);
+
+        if (attempt < maxAttempts) {
+          const delay = backoffMs * Math.pow(2, attempt - 1);
+          console.log(`   ↻ Retrying ${name} in ${Math.round(delay / 1000)}s`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    return { started: true, success: false, error: state.lastError || undefined };
+  }
+}
+
+// Shared scheduler instance for the bot process
+export const scheduler = new JobScheduler();
@@ -1,12 +1,10 @@
-import type { Resort } from '../types/index.js';
+import type { Resort, ScoreComponent, ScoreResult, SnowQualityRating } from '../types/index.js';
 import { DataStorageService } from './dataStorage.js';
+import { getScoringProfile, type ScoringProfile, type ScoringWeights } from './scoringProfiles.js';
+import { checkArrival, isOperatingOn, isSeasonOpenOn, MIN_RIDE_MINUTES, type ArrivalCheck } from './operatingHours.js';
+import { atSwissTime, formatSwissClock, formatSwissDate, getZonedParts, toSwissDateKey } from '../utils/time.js';
 
-export interface ScoreResult {
-  score: number;
-  status: 'OPEN' | 'CLOSED' | 'CLOSED_TODAY';
-  reason: string;
-  openingDate?: Date;
-}
+export type { ScoreResult } from '../types/index.js';
 
 export interface ResortMetadata {
   name: string;
@@ -18,55 +16,99 @@ export interface ResortMetadata {
   resortId: string;
 }
 
-export function calculateScore(resort: Resort): ScoreResult {
+export interface ScoreContext {
+  profile?: string;      // scoring profile name ("park", "powder", ...), default profile when omitted
+  departure?: Date;      // when the trip starts (default now) - picks the day for hours and the weekday bonus
+  driveMinutes?: number; // drive to the resort; enables the arrival check
+}
+
+export function calculateScore(resort: Resort, context: ScoreContext = {}): ScoreResult {
+  const departure = context.departure ?? new Date();
+  const day = toSwissDateKey(departure);
+  // Later days are projected: season dates instead of today's status, forecast snowfall instead of reported new snow
+  const projected = day > toSwissDateKey(new Date());
+
   // Pre-filter: Closed for season
-  if (resort.seasonStatus === 'CLOSED') {
+  if (projected ? !isSeasonOpenOn(resort, day) : resort.seasonStatus === 'CLOSED') {
+    const seasonOver = projected && resort.seasonStatus !== 'CLOSED' && resort.closingDate;
     return {
       score: 0,
       status: 'CLOSED',
       openingDate: resort.openingDate,
-      reason: `Closed until ${resort.openingDate?.toDateString()}`
+      reason: seasonOver
+        ? `Season ends ${formatSwissDate(resort.closingDate!)}`
+        : `Closed until ${resort.openingDate ? formatSwissDate(resort.openingDate) : 'further notice'}`
     };
   }
 
-  // Pre-filter: Closed today (but season is open)
-  if (resort.liftsOpen === 0 && !isOperatingToday(resort)) {
+  // Pre-filter: Closed today (but season is open) - bergfex says so, or the hours rule the day out
+  if (projected) {
+    if (!isOperatingOn(resort, departure)) {
+      return { score: 0, status: 'CLOSED_TODAY', reason: `Closed on ${formatSwissDate(departure)} (check operating hours)` };
+    }
+  } else if (resort.liftsOpen === 0 && (resort.todayStatus === 'CLOSED' || !isOperatingOn(resort, departure))) {
     return {
       score: 0,
       status: 'CLOSED_TODAY',
-      reason: 'Closed today (check operating hours)'
+      reason: resort.todayStatus === 'CLOSED' ? 'Closed today (bergfex)' : 'Closed today (check operating hours)'
     };
   }
 
   // Calculate score only for open resorts
   // Get additional metadata for enhanced scoring
   const metadata = DataStorageService.getResortMetadata(resort.id);
+  const profile = getScoringProfile(context.profile);
+  const { weights } = profile;
 
-  // Adjusted weights for comprehensive scoring
-  const snowScore = normalizeSnowDepth(resort.mountainDepth || 0) * 0.4; // 40% weight on snow
-  const newSnowScore = Math.min((resort.newSnow || 0) * 5, 15); // Up to 15 points for new snow
-  const liftScore = ((resort.liftsOpen || 0) / Math.max(resort.liftsTotal || metadata?.liftsTotal || 1, 1)) * 20; // 20% weight on lifts
+  // Weights come from the scoring profile (default: 40% snow, up to 15 new snow, 20 lifts)
+  const snowScore = normalizeSnowDepth(resort.mountainDepth || 0) * weights.snowDepth;
+  const newSnow = projected ? DataStorageService.getForecastSnowfall(resort.id, shiftDay(departure, -1), shiftDay(departure, -1)) : resort.newSnow || 0;
+  const newSnowScore = Math.min(newSnow * weights.newSnowPerCm, weights.newSnowMax);
+  const liftScore = ((resort.liftsOpen || 0) / Math.max(resort.liftsTotal || metadata?.liftsTotal || 1, 1)) * weights.lifts;
 
   // Size/quality bonuses based on metadata
-  const sizeBonus = calculateSizeBonus(metadata); // Up to 15 points for resort size
-  const elevationBonus = calculateElevationBonus(metadata); // Up to 10 points for high elevation
+  const sizeBonus = calculateSizeBonus(metadata) * weights.sizeScale; // Up to 15 points for resort size (default)
+  const elevationBonus = calculateElevationBonus(metadata) * weights.elevationScale; // Up to 10 points for high elevation (default)
 
-  const qualityBonus = getQualityBonus(resort);
+  const qualityBonus = getFeatureBonus(resort, profile);
+  const upcomingSnowfall = DataStorageService.getForecastSnowfall(resort.id, shiftDay(departure, 1), shiftDay(departure, 2));
+  const forecastBonus = calculateForecastBonus(upcomingSnowfall, weights.forecastMax);
+  const snowQualityBonus = calculateSnowQualityBonus(DataStorageService.getSnowQuality(resort.id, day), weights);
 
-  const baseScore = snowScore + newSnowScore + liftScore + sizeBonus + elevationBonus + qualityBonus;
+  const baseScore = snowScore + newSnowScore + liftScore + sizeBonus + elevationBonus + qualityBonus + forecastBonus + snowQualityBonus;
 
-  // Reduced penalty for early season - be more lenient
-  const liftPenalty = (resort.liftsOpen || 0) < 1 ? 10 : 0; // Reduced from 20
+  // Reduced penalty for early season - be more lenient (today's lift status says little about a later day)
+  const liftPenalty = (resort.liftsOpen || 0) < 1 && !projected ? weights.noLiftsPenalty : 0;
 
   // Bonus for weekday (less crowded)
-  const weekdayBonus = isWeekday() ? 5 : 0;
-
-  const finalScore = Math.max(0, Math.min(100, baseScore - liftPenalty + weekdayBonus));
+  const weekdayBonus = isWeekday(departure) ? weights.weekday : 0;
+
+  // Lifts closing soon after arrival (only when the drive time is known)
+  const arrival = context.driveMinutes !== undefined ? checkArrival(resort, departure, context.driveMinutes) : null;
+  const lateArrivalPenalty = calculateLateArrivalPenalty(arrival, weights.lateArrivalPenalty);
+
+  const finalScore = Math.max(0, Math.min(100, baseScore - liftPenalty + weekdayBonus - lateArrivalPenalty));
+
+  const breakdown: ScoreComponent[] = [
+    { key: 'snowScore', label: 'Snow depth', points: snowScore },
+    { key: 'newSnowScore', label: 'New snow', points: newSnowScore },
+    { key: 'liftScore', label: 'Lifts open', points: liftScore },
+    { key: 'sizeBonus', label: 'Resort size', points: sizeBonus },
+    { key: 'elevationBonus', label: 'Elevation', points: elevationBonus },
+    { key: 'qualityBonus', label: 'Park & features', points: qualityBonus },
+    { key: 'forecastBonus', label: 'Forecast snow', points: forecastBonus },
+    { key: 'snowQualityBonus', label: 'Snow quality', points: snowQualityBonus },
+    { key: 'liftPenalty', label: 'No lifts running', points: -liftPenalty },
+    { key: 'weekdayBonus', label: 'Weekday', points: weekdayBonus },
+    { key: 'lateArrivalPenalty', label: 'Closing on arrival', points: -lateArrivalPenalty }
+  ];
 
   return {
     score: finalScore,
     status: 'OPEN',
-    reason: generateReason(resort, finalScore)
+    reason: (arrival && describeLateArrival(arrival)) || generateReason(resort, finalScore),
+    breakdown,
+    profile: profile.name
   };
 }
 
@@ -79,15 +121,40 @@ function normalizeSnowDepth(depth: number): number {
   return 90 + Math.min(10, (depth - 100) / 10); // Cap at 100
 }
 
-function getQualityBonus(resort: Resort): number {
-  // Simple quality bonus based on resort features
-  let bonus = 0;
-  if (resort.hasPark) bonus += 5;
-  if (resort.hasNightRiding) bonus += 3;
-  if (resort.difficulty === 'mixed') bonus += 2;
+function getFeatureBonus(resort: Resort, profile: ScoringProfile): number {
+  // Resort features, valued differently per profile (default: park +5, night +3, mixed terrain +2)
+  const { features } = profile;
+  let bonus = resort.hasPark ? features.park : features.noPark;
+  if (resort.hasNightRiding) bonus += features.nightRiding;
+  bonus += features.terrain[resort.difficulty] || 0;
+  if (features.deepBase && (resort.mountainDepth || 0) >= features.deepBase.minDepth) {
+    bonus += features.deepBase.bonus;
+  }
   return bonus;
 }
 
+function calculateForecastBonus(upcomingSnowfall: number, maxPoints: number): number {
+  // Snow forecast for the next two days: 30cm incoming = full points
+  if (upcomingSnowfall <= 0) return 0;
+  return Math.min(upcomingSnowfall / 30, 1) * maxPoints;
+}
+
+function calculateSnowQualityBonus(rating: SnowQualityRating | null, weights: ScoringWeights): number {
+  // Today's 0-10 rating, powder and freestyle mixed per profile: 10/10 = full points
+  if (!rating) return 0;
+
+  const parts: Array<[number | null, number]> = [
+    [rating.powder, weights.powderShare],
+    [rating.freestyle, 1 - weights.powderShare]
+  ];
+  const rated = parts.filter(([value, share]) => value !== null && share > 0) as Array<[number, number]>;
+  const totalShare = rated.reduce((sum, [, share]) => sum + share, 0);
+  if (totalShare === 0) return 0;
+
+  const value = rated.reduce((sum, [value, share]) => sum + Math.max(0, Math.min(10, value)) * share, 0) / totalShare;
+  return (value / 10) * weights.qualityMax;
+}
+
 function calculateSizeBonus(metadata: ResortMetadata | null): number {
   if (!metadata) return 0;
 
@@ -125,41 +192,32 @@ function calculateElevationBonus(metadata: ResortMetadata | null): number {
   return 0;
 }
 
-function isOperatingToday(resort: Resort): boolean {
-  // Simple check - in production, this would check current time against operating hours
-  const now = new Date();
-  const dayOfWeek = now.getDay(); // 0 = Sunday, 6 = Saturday
-  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-  if (!resort.operatingHours) return true; // Assume open if no hours specified
-
-  const hours = isWeekend ? resort.operatingHours?.weekends : resort.operatingHours?.weekdays;
-  if (!hours) return true; // Assume open if no specific hours
-
-  // Parse hours like "08:30-16:15"
-  const timeRange = hours.split('-');
-  if (timeRange.length !== 2) return true;
-
-  const [openTime, closeTime] = timeRange;
-  if (!openTime || !closeTime) return true;
-
-  const currentTime = now.getHours() * 60 + now.getMinutes();
-  const openMinutes = timeToMinutes(openTime);
-  const closeMinutes = timeToMinutes(closeTime);
+function shiftDay(date: Date, days: number): string {
+  return toSwissDateKey(atSwissTime(date, days, 12, 0));
+}
 
-  return currentTime >= openMinutes && currentTime <= closeMinutes;
+function isWeekday(date: Date): boolean {
+  const { weekday } = getZonedParts(date);
+  return weekday >= 1 && weekday <= 5; // Monday to Friday, Swiss local time
 }
 
-function timeToMinutes(timeStr: string): number {
-  const parts = timeStr.split(':');
-  const hours = Number(parts[0]) || 0;
-  const minutes = Number(parts[1]) || 0;
-  return hours * 60 + minutes;
+function calculateLateArrivalPenalty(arrival: ArrivalCheck | null, maxPenalty: number): number {
+  // Full penalty when the lifts are closed on arrival, none with MIN_RIDE_MINUTES or more to ride
+  if (!arrival || arrival.rideMinutes === null || arrival.status === 'OK') return 0;
+  return (1 - Math.min(arrival.rideMinutes / MIN_RIDE_MINUTES, 1)) * maxPenalty;
 }
 
-function isWeekday(): boolean {
-  const day = new Date().getDay();
-  return day >= 1 && day <= 5; // Monday to Friday
+function describeLateArrival(arrival: ArrivalCheck): string | null {
+  const arrivalTime = formatSwissClock(arrival.arrival);
+  if (arrival.status === 'CLOSED') {
+    return arrival.closesAt
+      ? `Lifts close at ${formatSwissClock(arrival.closesAt)} – closed by the time you arrive (${arrivalTime})`
+      : `Closed on your arrival day`;
+  }
+  if (arrival.status === 'SHORT' && arrival.closesAt) {
+    return `Lifts close at ${formatSwissClock(arrival.closesAt)} – arriving ${arrivalTime} leaves only ${arrival.rideMinutes}min to ride`;
+  }
+  return null;
 }
 
 function generateReason(resort: Resort, score: number): string {
@@ -0,0 +1,174 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { Resort } from '../types/index.js';
+
+/**
+ * Named scoring profiles: weights and feature bonuses used by calculateScore
+ * Built-in profiles live here; SCORING_PROFILES_FILE (JSON or YAML) can tweak them or add new ones
+ */
+
+export interface ScoringWeights {
+  snowDepth: number;       // multiplier on the 0-100 normalized mountain depth
+  newSnowPerCm: number;    // points per cm of new snow...
+  newSnowMax: number;      // ...capped here
+  lifts: number;           // points when every lift is open
+  sizeScale: number;       // multiplier on the size bonus (pistes + lifts, 0-15)
+  elevationScale: number;  // multiplier on the elevation bonus (0-10)
+  forecastMax: number;     // points for 30cm+ forecast snowfall
+  qualityMax: number;      // points for a 10/10 snow quality rating
+  powderShare: number;     // weight of the powder rating (0-1); the rest goes to freestyle
+  weekday: number;         // Monday to Friday bonus
+  noLiftsPenalty: number;  // subtracted when nothing is running
+  lateArrivalPenalty: number; // subtracted when the lifts close on arrival, scaled down with riding time left
+}
+
+export interface ScoringFeatures {
+  park: number;            // resort has a snow park
+  noPark: number;          // resort has no snow park
+  nightRiding: number;
+  terrain: Partial<Record<Resort['difficulty'], number>>;
+  deepBase: { minDepth: number; bonus: number } | null; // mountain depth threshold bonus
+}
+
+export interface ScoringProfile {
+  name: string;
+  label: string;
+  weights: ScoringWeights;
+  features: ScoringFeatures;
+}
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+// The original calculateScore weights - rankings without a profile must not change
+const DEFAULT_PROFILE: ScoringProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  label: '⚖️ All-round',
+  weights: {
+    snowDepth: 0.4,
+    newSnowPerCm: 5,
+    newSnowMax: 15,
+    lifts: 20,
+    sizeScale: 1,
+    elevationScale: 1,
+    forecastMax: 10,
+    qualityMax: 8,
+    powderShare: 0.5,
+    weekday: 5,
+    noLiftsPenalty: 10,
+    lateArrivalPenalty: 30
+  },
+  features: {
+    park: 5,
+    noPark: 0,
+    nightRiding: 3,
+    terrain: { mixed: 2 },
+    deepBase: null
+  }
+};
+
+// Other profiles start from the default weights and shift them towards one kind of riding
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    name: 'park',
+    label: '🛹 Park',
+    weights: { ...DEFAULT_PROFILE.weights, powderShare: 0 },
+    features: { ...DEFAULT_PROFILE.features, park: 13, noPark: -5 }
+  },
+  {
+    name: 'powder',
+    label: '❄️ Powder',
+    weights: { ...DEFAULT_PROFILE.weights, newSnowMax: 25, forecastMax: 15, qualityMax: 10, powderShare: 1 },
+    features: { ...DEFAULT_PROFILE.features, terrain: { advanced: 2, mixed: 2 }, deepBase: { minDepth: 100, bonus: 3 } }
+  },
+  {
+    name: 'beginner',
+    label: '🐣 Beginner',
+    weights: { ...DEFAULT_PROFILE.weights, elevationScale: 0.5 },
+    features: { ...DEFAULT_PROFILE.features, terrain: { beginner: 8, intermediate: 2, mixed: 4, advanced: -8 } }
+  },
+  {
+    name: 'cruiser',
+    label: '🛣️ Cruiser',
+    weights: { ...DEFAULT_PROFILE.weights, lifts: 25, sizeScale: 1.5 },
+    features: { ...DEFAULT_PROFILE.features, park: 0, terrain: { intermediate: 5, mixed: 4, advanced: -3 } }
+  }
+];
+
+let profiles: Map<string, ScoringProfile> | null = null;
+
+/**
+ * Read profile overrides from SCORING_PROFILES_FILE (.json, .yaml or .yml)
+ * Each entry is merged over the built-in profile of the same name (or over default for new names):
+ * { "powder": { "weights": { "newSnowMax": 30 } }, "groomers": { "label": "Groomers", ... } }
+ */
+function loadProfileFile(path: string): Record<string, any> {
+  const raw = readFileSync(path, 'utf-8');
+  return /\.ya?ml$/i.test(path) ? Bun.YAML.parse(raw) as Record<string, any> : JSON.parse(raw);
+}
+
+function mergeProfile(name: string, base: ScoringProfile, override: any): ScoringProfile {
+  return {
+    name,
+    label: override?.label || base.label,
+    weights: { ...base.weights, ...(override?.weights || {}) },
+    features: {
+      ...base.features,
+      ...(override?.features || {}),
+      terrain: { ...base.features.terrain, ...(override?.features?.terrain || {}) }
+    }
+  };
+}
+
+function loadProfiles(): Map<string, ScoringProfile> {
+  const result = new Map(BUILT_IN_PROFILES.map(profile => [profile.name, profile]));
+  const path = process.env.SCORING_PROFILES_FILE;
+  if (!path) return result;
+
+  if (!existsSync(path)) {
+    console.warn(`⚠️ SCORING_PROFILES_FILE ${path} not found, using built-in profiles`);
+    return result;
+  }
+
+  try {
+    for (const [name, override] of Object.entries(loadProfileFile(path) || {})) {
+      const key = name.toLowerCase();
+      result.set(key, mergeProfile(key, result.get(key) || DEFAULT_PROFILE, override));
+    }
+    console.log(`🎛️ Loaded scoring profiles from ${path}`);
+  } catch (error) {
+    console.error(`❌ Failed to load scoring profiles from ${path}, using built-in profiles:`, error);
+  }
+
+  return result;
+}
+
+/**
+ * All profiles, built-in first
+ */
+export function getScoringProfiles(): ScoringProfile[] {
+  if (!profiles) profiles = loadProfiles();
+  return Array.from(profiles.values());
+}
+
+/**
+ * Profile by name (case-insensitive), falling back to the default profile
+ */
+export function getScoringProfile(name?: string | null): ScoringProfile {
+  if (!profiles) profiles = loadProfiles();
+  return (name && profiles.get(name.toLowerCase())) || profiles.get(DEFAULT_PROFILE_NAME) || DEFAULT_PROFILE;
+}
+
+/**
+ * Whether a name refers to a known profile ("/recs powder" vs "/recs Bern")
+ */
+export function isScoringProfile(name: string): boolean {
+  if (!profiles) profiles = loadProfiles();
+  return profiles.has(name.toLowerCase());
+}
+
+/**
+ * Drop cached profiles so the file is read again (scripts and local testing)
+ */
+export function reloadScoringProfiles(): void {
+  profiles = null;
+}
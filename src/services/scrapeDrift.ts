@@ -0,0 +1,139 @@
+import { layoutStatements } from '../database/index.js';
+import type { ConditionsTableLayout } from '../scrapers/bergfex.js';
+import type { AlertSender } from './alerts.js';
+
+/**
+ * bergfex structure-drift detection
+ * Every usable scrape records the conditions table layout; when it stops looking like the last one
+ * (columns gone or renamed, rows vanished, values empty) the admin chat hears about it
+ * and broken pages are not stored as a table full of zeros
+ */
+
+export const CONDITIONS_LAYOUT_SOURCE = 'bergfex-conditions';
+
+export interface LayoutDrift {
+  severe: boolean;   // the page can't be trusted - don't store it
+  issues: string[];
+}
+
+export interface StoredLayout {
+  headers: string[];
+  rowCount: number;
+  emptyRows: number;
+}
+
+// Share of rows without values that counts as "storing zeros"
+const EMPTY_ROWS_THRESHOLD = 0.8;
+// A drop to less than this share of the previous row count is reported
+const ROW_DROP_THRESHOLD = 0.5;
+// The scheduler retries failed scrapes - don't send the same report on every attempt
+const REPORT_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Compare a freshly parsed layout with the one from the previous scrape
+ */
+export function compareLayouts(current: ConditionsTableLayout, previous: StoredLayout | null): LayoutDrift {
+  const issues: string[] = [];
+  let severe = false;
+
+  if (!current.found) {
+    severe = true;
+    issues.push(current.headers.length > 0
+      ? `Snow table columns not recognised (missing: ${current.missingColumns.join(', ')})`
+      : 'Snow table not found');
+  } else if (current.rowCount === 0) {
+    severe = true;
+    issues.push('Snow table has no rows');
+  } else {
+    const emptyShare = current.emptyRows / current.rowCount;
+    const previousEmptyShare = previous && previous.rowCount > 0 ? previous.emptyRows / previous.rowCount : 0;
+    // Off-season pages are legitimately empty, so only a sudden change counts
+    if (current.rowCount >= 5 && emptyShare > EMPTY_ROWS_THRESHOLD && previousEmptyShare <= EMPTY_ROWS_THRESHOLD) {
+      severe = true;
+      issues.push(`${current.emptyRows}/${current.rowCount} rows have no snow or lift values`);
+    }
+
+    const optionalMissing = current.missingColumns.filter(column => column !== 'name');
+    if (optionalMissing.length > 0) {
+      issues.push(`Columns not found: ${optionalMissing.join(', ')}`);
+    }
+  }
+
+  if (previous) {
+    if (previous.headers.join('|') !== current.headers.join('|') && current.headers.length > 0) {
+      issues.push(`Column headers changed: [${previous.headers.join(', ')}] → [${current.headers.join(', ')}]`);
+    }
+    if (previous.rowCount > 0 && current.rowCount < previous.rowCount * ROW_DROP_THRESHOLD) {
+      issues.push(`Row count dropped from ${previous.rowCount} to ${current.rowCount}`);
+    }
+  }
+
+  return { severe, issues };
+}
+
+function getPreviousLayout(source: string): StoredLayout | null {
+  const row = layoutStatements.getLatest.get(source) as any;
+  if (!row) return null;
+
+  return {
+    headers: JSON.parse(row.headers || '[]'),
+    rowCount: row.row_count,
+    emptyRows: row.empty_rows
+  };
+}
+
+/**
+ * Check the conditions table against the last usable scrape and record it for the next one
+ * Broken layouts aren't recorded, so retries keep comparing against the last good page
+ */
+export function checkConditionsLayout(layout: ConditionsTableLayout): LayoutDrift {
+  const drift = compareLayouts(layout, getPreviousLayout(CONDITIONS_LAYOUT_SOURCE));
+  if (drift.severe) return drift;
+
+  layoutStatements.insert.run(
+    CONDITIONS_LAYOUT_SOURCE,
+    JSON.stringify(layout.headers),
+    layout.rowCount,
+    layout.emptyRows,
+    new Date().toISOString()
+  );
+
+  return drift;
+}
+
+let reporter: AlertSender | null = null;
+let lastReport: { text: string; sentAt: number } | null = null;
+
+/**
+ * Deliver drift reports through the bot (to ADMIN_CHAT_ID)
+ */
+export function registerDriftReporter(sender: AlertSender): void {
+  reporter = sender;
+}
+
+/**
+ * Tell the admin chat that the bergfex layout changed (logged only when ADMIN_CHAT_ID isn't set)
+ */
+export async function reportDrift(drift: LayoutDrift): Promise<void> {
+  if (drift.issues.length === 0) return;
+
+  const text =
+    `⚠️ bergfex layout changed\n\n` +
+    drift.issues.map(issue => `• ${issue}`).join('\n') +
+    (drift.severe ? `\n\n🛑 Conditions from this scrape were not stored.` : `\n\n✅ Conditions were still stored – please double-check them.`);
+
+  console.warn(text);
+
+  const adminChatId = Number(process.env.ADMIN_CHAT_ID);
+  if (!reporter || !process.env.ADMIN_CHAT_ID || !Number.isFinite(adminChatId)) return;
+
+  const now = Date.now();
+  if (lastReport && lastReport.text === text && now - lastReport.sentAt < REPORT_COOLDOWN_MS) return;
+
+  try {
+    await reporter.sendMessage(adminChatId, text);
+    lastReport = { text, sentAt: now };
+  } catch (error) {
+    console.error('❌ Failed to send drift report to admin chat:', error);
+  }
+}
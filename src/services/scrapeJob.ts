@@ -0,0 +1,204 @@
+import { scrapeBergfexResortMetadata } from '../scrapers/bergfex.js';
+import { getPrimarySource, getSecondarySources } from '../scrapers/sources.js';
+import { DataStorageService } from './dataStorage.js';
+import { refreshForecasts } from './forecast.js';
+import { geocodePendingResorts } from './geocoding.js';
+import { refreshResortPages } from './resortPages.js';
+import { refreshSnowQuality } from './snowQuality.js';
+import { checkConditionsLayout, reportDrift } from './scrapeDrift.js';
+import { reconcileConditions, type ReconciledResortData, type SourceRecords } from './reconciliation.js';
+import { scheduler } from './scheduler.js';
+import { SWISS_TIMEZONE } from '../utils/time.js';
+
+/**
+ * Full data refresh job (snow conditions from all sources + resort metadata + resort pages + geocoding + snow quality + forecasts)
+ * Shared by the /scrape command and the scheduler so they never overlap
+ */
+
+export const SCRAPE_JOB_NAME = 'bergfex-scrape';
+
+export interface ScrapeSummary {
+  conditions: number;
+  metadata: number;
+  resortPages: number;
+  geocoded: number;
+  snowQuality: number;
+  forecasts: number;
+  finishedAt: Date;
+}
+
+let lastSummary: ScrapeSummary | null = null;
+const completionListeners: Array<(summary: ScrapeSummary) => Promise<void>> = [];
+
+/**
+ * Run something after every successful scrape (e.g. push alerts)
+ * Listener failures are logged and never fail the scrape itself
+ */
+export function onScrapeComplete(listener: (summary: ScrapeSummary) => Promise<void>): void {
+  completionListeners.push(listener);
+}
+
+/**
+ * Snow conditions from the primary source, cross-checked against the others
+ * Throws when the primary source returns nothing (or a page we no longer understand)
+ */
+export async function scrapeConditions(): Promise<ReconciledResortData[]> {
+  const primary = getPrimarySource();
+  const { resorts: snowData, layout } = await primary.fetchConditionsPage();
+
+  // Compare the table with the last scrape before trusting it
+  const drift = checkConditionsLayout(layout);
+  await reportDrift(drift);
+  if (drift.severe) {
+    throw new Error(`${primary.name} layout changed: ${drift.issues.join('; ')}`);
+  }
+  if (snowData.length === 0) {
+    throw new Error(`${primary.name} returned no snow conditions`);
+  }
+
+  // Cross-check against the other sources; an unavailable source is skipped
+  const sources: SourceRecords[] = [{ source: primary.name, records: snowData }];
+  for (const source of getSecondarySources()) {
+    try {
+      sources.push({ source: source.name, records: await source.fetchConditions() });
+    } catch (error) {
+      console.error(`❌ ${source.name} conditions failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+  const reconciled = reconcileConditions(sources);
+  for (const [source, count] of Object.entries(reconciled.matched)) {
+    console.log(`🔗 ${source}: ${count} resorts matched, ${reconciled.unmatched[source]?.length ?? 0} unmatched`);
+  }
+  return reconciled.resorts;
+}
+
+/**
+ * Scrape all sources and store the results
+ * Throws when bergfex returns nothing (or a page we no longer understand) so the scheduler can retry
+ */
+export async function runFullScrape(): Promise<ScrapeSummary> {
+  // Clean up expired data before storing new data
+  DataStorageService.cleanupExpiredData();
+
+  const snowData = await scrapeConditions();
+  DataStorageService.storeBergfexConditions(snowData);
+
+  // Scrape comprehensive metadata from main page
+  const metadata = await scrapeBergfexResortMetadata();
+  DataStorageService.storeResortMetadata(metadata);
+
+  // Hours and season dates from resort pages (weekly cache, so most runs read only a few)
+  let resortPages = 0;
+  try {
+    resortPages = await refreshResortPages();
+  } catch (error) {
+    console.error('❌ Resort page refresh failed:', error);
+  }
+
+  // Place newly discovered resorts so they can show up in recommendations
+  let geocoded = 0;
+  try {
+    geocoded = (await geocodePendingResorts()).resolved;
+  } catch (error) {
+    console.error('❌ Geocoding failed:', error);
+  }
+
+  // Today's snow quality ratings (only when SNOW_QUALITY_FILE is configured)
+  let snowQuality = 0;
+  try {
+    snowQuality = await refreshSnowQuality();
+  } catch (error) {
+    console.error('❌ Snow quality import failed:', error);
+  }
+
+  // Forecasts feed the score, so fetch them before listeners (alerts) run
+  // A forecast outage is logged but never fails the scrape
+  let forecasts = 0;
+  try {
+    forecasts = await refreshForecasts();
+  } catch (error) {
+    console.error('❌ Forecast refresh failed:', error);
+  }
+
+  lastSummary = {
+    conditions: snowData.length,
+    metadata: metadata.length,
+    resortPages,
+    geocoded,
+    snowQuality,
+    forecasts,
+    finishedAt: new Date()
+  };
+
+  for (const listener of completionListeners) {
+    try {
+      await listener(lastSummary);
+    } catch (error) {
+      console.error('❌ Post-scrape listener failed:', error);
+    }
+  }
+
+  return lastSummary;
+}
+
+/**
+ * Summary of the last successful scrape (null if none since startup)
+ */
+export function getLastScrapeSummary(): ScrapeSummary | null {
+  return lastSummary;
+}
+
+/**
+ * Non-negative integer from the environment - anything else falls back to the default
+ * (NaN retries would make the job run zero attempts and silently never scrape)
+ */
+function envCount(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    console.warn(`⚠️ Ignoring ${name}="${raw}" (expected a non-negative integer), using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Read scrape schedule from environment
+ * SCRAPE_TIMES="12:30,16:30" (empty string disables scheduled scraping)
+ */
+function getScheduleConfig() {
+  const rawTimes = process.env.SCRAPE_TIMES ?? '12:30,16:30';
+
+  return {
+    times: rawTimes.split(',').map(t => t.trim()).filter(Boolean),
+    timeZone: process.env.SCRAPE_TIMEZONE || SWISS_TIMEZONE,
+    retries: envCount('SCRAPE_RETRIES', 3),
+    backoffMs: envCount('SCRAPE_BACKOFF_MS', 60_000)
+  };
+}
+
+/**
+ * Register the scrape job with the shared scheduler
+ */
+export function registerScrapeJob(): void {
+  const config = getScheduleConfig();
+
+  scheduler.addJob({
+    name: SCRAPE_JOB_NAME,
+    times: config.times,
+    timeZone: config.timeZone,
+    retries: config.retries,
+    backoffMs: config.backoffMs,
+    run: async () => {
+      await runFullScrape();
+    }
+  });
+
+  if (config.times.length === 0) {
+    console.log('⏰ Scheduled scraping disabled (SCRAPE_TIMES is empty)');
+  } else {
+    console.log(`⏰ Scheduled scraping at ${config.times.join(', ')} (${config.timeZone})`);
+  }
+}
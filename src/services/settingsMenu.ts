@@ -0,0 +1,168 @@
+import { InlineKeyboard } from 'gramio';
+import { UserPreferencesService, RIDING_STYLES } from './userPreferences.js';
+import { getOrigin, getNamedOrigins, formatOriginName } from './origins.js';
+import { getAllResorts } from './resortMapping.js';
+import { getScoringProfile } from './scoringProfiles.js';
+import type { UserPreferences } from '../types/index.js';
+
+/**
+ * /settings inline keyboard menu
+ * Callback data format: "settings:<section>[:<value>]"
+ */
+
+export const SETTINGS_CALLBACK_PATTERN = /^settings:([a-z]+)(?::(.+))?$/;
+
+export interface SettingsView {
+  text: string;
+  keyboard: InlineKeyboard;
+}
+
+const DRIVE_TIME_OPTIONS = [60, 90, 120, 150, 180, 240];
+const MIN_SCORE_OPTIONS = [0, 10, 20, 30, 40, 50];
+const RESULT_COUNT_OPTIONS = [3, 5, 8, 10];
+
+/**
+ * Render the main settings overview for a chat
+ */
+export function renderSettingsMenu(preferences: UserPreferences): SettingsView {
+  const style = preferences.ridingStyle ? getScoringProfile(preferences.ridingStyle).label : 'Any';
+
+  const text =
+    `⚙️ Your IceKing settings\n\n` +
+    `🏠 Home: ${homeLabel(preferences)}\n` +
+    `⏱️ Max drive: ${preferences.maxDriveTime}min\n` +
+    `📈 Min score: ${preferences.minScore}\n` +
+    `🔢 Results: ${preferences.resultCount}\n` +
+    `🏂 Style: ${style}\n` +
+    `⭐ Favourites: ${preferences.favouriteResorts.length > 0 ? preferences.favouriteResorts.join(', ') : 'none'}\n\n` +
+    `Tap a setting to change it.`;
+
+  const keyboard = new InlineKeyboard()
+    .text(`🏠 ${homeLabel(preferences)}`, 'settings:home')
+    .text(`⏱️ ${preferences.maxDriveTime}min`, 'settings:drive')
+    .row()
+    .text(`📈 Score ≥${preferences.minScore}`, 'settings:score')
+    .text(`🔢 ${preferences.resultCount} results`, 'settings:count')
+    .row()
+    .text(`🏂 ${style}`, 'settings:style')
+    .text(`⭐ Favourites (${preferences.favouriteResorts.length})`, 'settings:fav');
+
+  return { text, keyboard };
+}
+
+/**
+ * Apply a settings callback and return the view to show next
+ */
+export function handleSettingsAction(chatId: number, section: string, value?: string): SettingsView {
+  let preferences = UserPreferencesService.get(chatId);
+
+  switch (section) {
+    case 'home': {
+      const origin = value ? getOrigin(value) : null;
+      if (origin) {
+        preferences = UserPreferencesService.update(chatId, { homeName: origin.name, homeCoordinates: origin.coordinates });
+        break;
+      }
+      return renderOptions(
+        '🏠 Where do you start your drive?\nYou can also share a Telegram location with me.',
+        getNamedOrigins().map(o => o.name),
+        name => name,
+        'home',
+        preferences.homeName
+      );
+    }
+
+    case 'drive': {
+      const minutes = Number(value);
+      if (value && DRIVE_TIME_OPTIONS.includes(minutes)) {
+        preferences = UserPreferencesService.update(chatId, { maxDriveTime: minutes });
+        break;
+      }
+      return renderOptions('⏱️ Maximum drive time?', DRIVE_TIME_OPTIONS.map(String), v => `${v}min`, 'drive', String(preferences.maxDriveTime));
+    }
+
+    case 'score': {
+      const score = Number(value);
+      if (value && MIN_SCORE_OPTIONS.includes(score)) {
+        preferences = UserPreferencesService.update(chatId, { minScore: score });
+        break;
+      }
+      return renderOptions('📈 Minimum score to show?', MIN_SCORE_OPTIONS.map(String), v => `≥${v}`, 'score', String(preferences.minScore));
+    }
+
+    case 'count': {
+      const count = Number(value);
+      if (value && RESULT_COUNT_OPTIONS.includes(count)) {
+        preferences = UserPreferencesService.update(chatId, { resultCount: count });
+        break;
+      }
+      return renderOptions('🔢 How many recommendations?', RESULT_COUNT_OPTIONS.map(String), v => v, 'count', String(preferences.resultCount));
+    }
+
+    case 'style': {
+      if (value === 'any') {
+        preferences = UserPreferencesService.update(chatId, { ridingStyle: null });
+        break;
+      }
+      const style = RIDING_STYLES.find(s => s === value);
+      if (style) {
+        preferences = UserPreferencesService.update(chatId, { ridingStyle: style });
+        break;
+      }
+      return renderOptions(
+        '🏂 What kind of riding are you after?',
+        [...RIDING_STYLES, 'any'],
+        v => (v === 'any' ? '🤷 Any' : getScoringProfile(v).label),
+        'style',
+        preferences.ridingStyle || 'any'
+      );
+    }
+
+    case 'fav': {
+      if (value) {
+        preferences = UserPreferencesService.toggleFavourite(chatId, value);
+      }
+      return renderFavourites(preferences);
+    }
+  }
+
+  return renderSettingsMenu(preferences);
+}
+
+function homeLabel(preferences: UserPreferences): string {
+  const origin = getOrigin(preferences.homeName);
+  return origin ? formatOriginName(origin) : preferences.homeName;
+}
+
+function renderOptions(
+  title: string,
+  values: string[],
+  label: (value: string) => string,
+  section: string,
+  current: string
+): SettingsView {
+  const keyboard = new InlineKeyboard();
+  values.forEach((value, index) => {
+    if (index > 0 && index % 3 === 0) keyboard.row();
+    const mark = value === current ? '✅ ' : '';
+    keyboard.text(`${mark}${label(value)}`, `settings:${section}:${value}`);
+  });
+  keyboard.row().text('⬅️ Back', 'settings:menu');
+
+  return { text: title, keyboard };
+}
+
+function renderFavourites(preferences: UserPreferences): SettingsView {
+  const keyboard = new InlineKeyboard();
+  getAllResorts().forEach((mapping, index) => {
+    if (index > 0 && index % 2 === 0) keyboard.row();
+    const mark = preferences.favouriteResorts.includes(mapping.internalId) ? '⭐ ' : '';
+    keyboard.text(`${mark}${mapping.resort.name}`, `settings:fav:${mapping.internalId}`);
+  });
+  keyboard.row().text('⬅️ Back', 'settings:menu');
+
+  return {
+    text: '⭐ Tap resorts to add or remove them from your favourites.\nFavourites are always listed in /recs when they pass your filters.',
+    keyboard
+  };
+}
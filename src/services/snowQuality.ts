@@ -0,0 +1,157 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { DataStorageService } from './dataStorage.js';
+import { findResort } from './resortMapping.js';
+import { toSwissDateKey } from '../utils/time.js';
+import type { SnowQualityRating } from '../types/index.js';
+
+/**
+ * Snow quality ratings (wepowder-style powder and freestyle ratings, 0-10)
+ * Ratings come from an external provider, are stored per resort and day,
+ * and add a bounded term to the score on the day they're for
+ */
+
+export interface RawQualityRating {
+  resort: string;              // resort id, name or alias
+  date?: string;               // YYYY-MM-DD, default today
+  powder?: number | null;
+  freestyle?: number | null;
+}
+
+export interface SnowQualityProvider {
+  name: string;
+  fetchRatings(): Promise<RawQualityRating[]>;
+}
+
+export interface QualityImportSummary {
+  stored: number;
+  unknownResorts: string[];
+  invalid: number;
+}
+
+/**
+ * Ratings from a local file - JSON array or CSV with a "resort,date,powder,freestyle" header
+ * Handy for importing a wepowder export or entering ratings by hand
+ */
+export class FileQualityProvider implements SnowQualityProvider {
+  name: string;
+
+  constructor(private path: string) {
+    this.name = `file:${path.split('/').pop()}`;
+  }
+
+  async fetchRatings(): Promise<RawQualityRating[]> {
+    const raw = readFileSync(this.path, 'utf-8');
+    return /\.csv$/i.test(this.path) ? parseQualityCsv(raw) : JSON.parse(raw);
+  }
+}
+
+/**
+ * "resort,date,powder,freestyle" rows; empty cells are unknown, columns may come in any order
+ */
+export function parseQualityCsv(raw: string): RawQualityRating[] {
+  const [headerLine, ...lines] = raw.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  if (!headerLine) return [];
+
+  const headers = headerLine.split(',').map(h => h.trim().toLowerCase());
+  const column = (cells: string[], name: string) => {
+    const index = headers.indexOf(name);
+    return index >= 0 ? cells[index]?.trim() || '' : '';
+  };
+  const toNumber = (value: string) => (value === '' ? null : Number(value));
+
+  return lines.map(line => {
+    const cells = line.split(',');
+    return {
+      resort: column(cells, 'resort'),
+      date: column(cells, 'date') || undefined,
+      powder: toNumber(column(cells, 'powder')),
+      freestyle: toNumber(column(cells, 'freestyle'))
+    };
+  });
+}
+
+function validRating(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 10;
+}
+
+/**
+ * Store ratings for known resorts; unknown names and out-of-range values are skipped
+ */
+export function importSnowQuality(ratings: RawQualityRating[], source: string): QualityImportSummary {
+  const summary: QualityImportSummary = { stored: 0, unknownResorts: [], invalid: 0 };
+  const today = toSwissDateKey(new Date());
+
+  for (const rating of ratings) {
+    const powder = validRating(rating.powder) ? rating.powder : null;
+    const freestyle = validRating(rating.freestyle) ? rating.freestyle : null;
+    const date = rating.date || today;
+    if ((powder === null && freestyle === null) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      summary.invalid++;
+      continue;
+    }
+
+    const mapping = rating.resort ? findResort(rating.resort) : null;
+    if (!mapping) {
+      summary.unknownResorts.push(rating.resort);
+      continue;
+    }
+
+    DataStorageService.storeSnowQuality({ resortId: mapping.internalId, date, powder, freestyle, source });
+    summary.stored++;
+  }
+
+  return summary;
+}
+
+let provider: SnowQualityProvider | null | undefined;
+
+/**
+ * Active provider (SNOW_QUALITY_FILE=path/to/ratings.json|.csv); null when none is configured
+ */
+export function getQualityProvider(): SnowQualityProvider | null {
+  if (provider === undefined) {
+    const path = process.env.SNOW_QUALITY_FILE;
+    if (path && !existsSync(path)) {
+      console.warn(`⚠️ SNOW_QUALITY_FILE ${path} not found, snow quality ratings disabled`);
+    }
+    provider = path && existsSync(path) ? new FileQualityProvider(path) : null;
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider (scripts and local testing)
+ */
+export function setQualityProvider(next: SnowQualityProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Fetch and store ratings from the active provider - returns how many were stored
+ */
+export async function refreshSnowQuality(): Promise<number> {
+  const active = getQualityProvider();
+  if (!active) return 0;
+
+  const summary = importSnowQuality(await active.fetchRatings(), active.name);
+  console.log(`✨ Stored ${summary.stored} snow quality ratings (${active.name})`);
+  if (summary.unknownResorts.length > 0) {
+    console.warn(`⚠️ Snow quality for unknown resorts: ${summary.unknownResorts.join(', ')}`);
+  }
+  return summary.stored;
+}
+
+/**
+ * "❄️ Powder 8/10 · 🛹 Freestyle 6/10"
+ */
+export function formatSnowQuality(rating: SnowQualityRating): string {
+  const parts = [
+    rating.powder !== null ? `❄️ Powder ${formatRating(rating.powder)}/10` : null,
+    rating.freestyle !== null ? `🛹 Freestyle ${formatRating(rating.freestyle)}/10` : null
+  ].filter(Boolean);
+  return parts.join(' · ');
+}
+
+function formatRating(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
@@ -0,0 +1,213 @@
+import { DataStorageService } from './dataStorage.js';
+import { RasterCanvas, type RGB } from '../utils/png.js';
+import { toSwissDateKey } from '../utils/time.js';
+import type { DailySnapshot } from '../types/index.js';
+
+/**
+ * Trend service - 7-day snow depth, new snow and lift charts per resort
+ * Charts come from the daily snapshots written on every scrape; the totals from the full conditions history
+ */
+
+export interface TrendDay {
+  day: string; // "YYYY-MM-DD"
+  mountainDepth: number | null;
+  newSnow: number | null;
+  liftsOpen: number | null;
+  liftsTotal: number | null;
+}
+
+export interface ResortTrend {
+  resortId: string;
+  name: string;
+  days: TrendDay[];
+  depthChange: number | null; // mountain depth, first to last reading in the period
+  newSnow72h: number;         // each report counted once
+  liftsChange: number | null; // lifts open, first to last reading in the period
+}
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+/**
+ * Build a continuous N-day series for a resort (days without a snapshot are null)
+ */
+export function getResortTrend(resortId: string, name: string, days: number = 7): ResortTrend {
+  const snapshots = new Map<string, DailySnapshot>();
+  for (const snapshot of DataStorageService.getDailySnapshots(resortId, days)) {
+    snapshots.set(snapshot.day, snapshot);
+  }
+
+  const series: TrendDay[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = toSwissDateKey(new Date(Date.now() - offset * 24 * 60 * 60 * 1000));
+    const snapshot = snapshots.get(day);
+    series.push({
+      day,
+      mountainDepth: snapshot?.mountainDepth ?? null,
+      newSnow: snapshot?.newSnow ?? null,
+      liftsOpen: snapshot?.liftsOpen ?? null,
+      liftsTotal: snapshot?.liftsTotal ?? null
+    });
+  }
+
+  // Every scrape is in the history, not just the day's last one
+  const depths = DataStorageService.getDepthHistory(resortId, days)
+    .map(point => point.mountainDepth)
+    .filter((depth): depth is number => depth !== null);
+  const firstDepth = depths[0];
+  const lastDepth = depths[depths.length - 1];
+
+  return {
+    resortId,
+    name,
+    days: series,
+    depthChange: firstDepth !== undefined && lastDepth !== undefined ? lastDepth - firstDepth : null,
+    newSnow72h: DataStorageService.getNewSnowSum(resortId, 72),
+    liftsChange: DataStorageService.getLiftsOpenTrend(resortId, days).change
+  };
+}
+
+function signed(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value}`;
+}
+
+/**
+ * Render values as a unicode sparkline, gaps shown as "·"
+ */
+export function renderSparkline(values: Array<number | null>, maxValue?: number): string {
+  const known = values.filter((v): v is number => v !== null);
+  if (known.length === 0) return values.map(() => '·').join('');
+
+  const max = maxValue ?? Math.max(...known);
+  const min = maxValue !== undefined ? 0 : Math.min(0, ...known);
+  const range = max - min;
+
+  return values
+    .map(value => {
+      if (value === null) return '·';
+      if (range <= 0) return SPARK_CHARS[0];
+      const index = Math.round(((value - min) / range) * (SPARK_CHARS.length - 1));
+      return SPARK_CHARS[Math.max(0, Math.min(SPARK_CHARS.length - 1, index))];
+    })
+    .join('');
+}
+
+/**
+ * Format a trend as a compact Telegram message
+ */
+export function formatTrend(trend: ResortTrend): string {
+  const { days } = trend;
+  const dayLetters = days.map(d => WEEKDAY_LETTERS[new Date(`${d.day}T12:00:00Z`).getUTCDay()]).join('');
+
+  const depths = days.map(d => d.mountainDepth);
+  const newSnow = days.map(d => d.newSnow);
+  const lifts = days.map(d => d.liftsOpen);
+
+  const knownDepths = depths.filter((v): v is number => v !== null);
+  const lastDepth = knownDepths[knownDepths.length - 1];
+  const depthText = lastDepth !== undefined
+    ? `${lastDepth}cm` + (trend.depthChange !== null ? ` (${signed(trend.depthChange)}cm)` : '')
+    : 'no data';
+
+  const newSnowTotal = newSnow.reduce<number>((sum, v) => sum + (v || 0), 0);
+
+  const lastLifts = [...days].reverse().find(d => d.liftsOpen !== null);
+  const liftsTotal = Math.max(0, ...days.map(d => d.liftsTotal || 0));
+  const liftsText = lastLifts
+    ? `${lastLifts.liftsOpen}/${lastLifts.liftsTotal ?? '?'} open` + (trend.liftsChange ? ` (${signed(trend.liftsChange)})` : '')
+    : 'no data';
+
+  const missing = days.filter(d => d.mountainDepth === null && d.liftsOpen === null).length;
+
+  return `📈 ${trend.name} – last ${days.length} days
+📅 ${dayLetters}
+🏔️ ${renderSparkline(depths)} Depth ${depthText}
+❄️ ${renderSparkline(newSnow)} New snow Σ ${newSnowTotal}cm, ${trend.newSnow72h}cm in 72h
+🚡 ${renderSparkline(lifts, liftsTotal || undefined)} Lifts ${liftsText}` +
+    (missing > 0 ? `\n\n· = no snapshot that day (${missing} missing)` : '');
+}
+
+const COLORS = {
+  background: [255, 255, 255],
+  grid: [225, 230, 238],
+  text: [40, 48, 60],
+  depth: [33, 102, 172],
+  newSnow: [103, 169, 207],
+  lifts: [230, 120, 40]
+} satisfies Record<string, RGB>;
+
+/**
+ * Render the trend as a PNG chart (three stacked panels)
+ */
+export function renderTrendChartPng(trend: ResortTrend): Buffer {
+  const width = 480;
+  const panelHeight = 90;
+  const top = 30;
+  const left = 56;
+  const right = 16;
+  const gap = 26;
+  const height = top + 3 * panelHeight + 2 * gap + 30;
+
+  const canvas = new RasterCanvas(width, height, COLORS.background);
+  canvas.drawText(left, 8, trend.name.slice(0, 40), COLORS.text, 2);
+
+  const plotWidth = width - left - right;
+  const step = plotWidth / Math.max(trend.days.length, 1);
+
+  const panels: Array<{ label: string; values: Array<number | null>; color: RGB; bars: boolean; max?: number }> = [
+    { label: 'DEPTH', values: trend.days.map(d => d.mountainDepth), color: COLORS.depth, bars: false },
+    { label: 'NEW', values: trend.days.map(d => d.newSnow), color: COLORS.newSnow, bars: true },
+    {
+      label: 'LIFTS',
+      values: trend.days.map(d => d.liftsOpen),
+      color: COLORS.lifts,
+      bars: false,
+      max: Math.max(0, ...trend.days.map(d => d.liftsTotal || 0)) || undefined
+    }
+  ];
+
+  panels.forEach((panel, index) => {
+    const panelTop = top + index * (panelHeight + gap);
+    const panelBottom = panelTop + panelHeight;
+    const known = panel.values.filter((v): v is number => v !== null);
+    const max = Math.max(panel.max ?? 0, ...known, 1);
+
+    // Frame, gridlines and labels
+    canvas.drawLine(left, panelTop, left, panelBottom, COLORS.text);
+    canvas.drawLine(left, panelBottom, width - right, panelBottom, COLORS.text);
+    canvas.drawLine(left + 1, panelTop + panelHeight / 2, width - right, panelTop + panelHeight / 2, COLORS.grid);
+    canvas.drawText(4, panelTop, panel.label, panel.color, 2);
+    const maxLabel = String(Math.round(max));
+    canvas.drawText(left - 4 - RasterCanvas.textWidth(maxLabel, 1), panelTop, maxLabel, COLORS.text, 1);
+    canvas.drawText(left - 8, panelBottom - 5, '0', COLORS.text, 1);
+
+    const yFor = (value: number) => panelBottom - (value / max) * (panelHeight - 4);
+    let previous: { x: number; y: number } | null = null;
+
+    panel.values.forEach((value, i) => {
+      const x = left + step * i + step / 2;
+      if (value === null) {
+        previous = null;
+        return;
+      }
+
+      const y = yFor(value);
+      if (panel.bars) {
+        canvas.fillRect(x - step * 0.3, y, step * 0.6, panelBottom - y, panel.color);
+      } else {
+        if (previous) canvas.drawLine(previous.x, previous.y, x, y, panel.color, 2);
+        canvas.fillRect(x - 2, y - 2, 5, 5, panel.color);
+        previous = { x, y };
+      }
+    });
+  });
+
+  // Day labels along the bottom
+  trend.days.forEach((d, i) => {
+    const label = d.day.slice(8, 10);
+    const x = left + step * i + step / 2 - RasterCanvas.textWidth(label, 2) / 2;
+    canvas.drawText(x, height - 20, label, COLORS.text, 2);
+  });
+
+  return canvas.toPng();
+}
@@ -0,0 +1,115 @@
+import { userStatements } from '../database/index.js';
+import type { RidingStyle, UserPreferences } from '../types/index.js';
+import type { RecommendationOptions } from './recommendations.js';
+import { DEFAULT_ORIGIN, getOrigin } from './origins.js';
+
+/**
+ * Per-chat user preferences (home location, drive limit, favourites, riding style)
+ * Stored in the users table, keyed by Telegram chat id
+ */
+
+export const RIDING_STYLES: RidingStyle[] = ['park', 'powder', 'beginner', 'cruiser'];
+
+export const DEFAULT_PREFERENCES: Omit<UserPreferences, 'chatId'> = {
+  homeName: DEFAULT_ORIGIN.name,
+  homeCoordinates: DEFAULT_ORIGIN.coordinates,
+  maxDriveTime: 180,
+  minScore: 10,
+  resultCount: 5,
+  favouriteResorts: [],
+  ridingStyle: null
+};
+
+export class UserPreferencesService {
+  /**
+   * Get preferences for a chat (defaults if the chat never saved any)
+   */
+  static get(chatId: number): UserPreferences {
+    try {
+      const row = userStatements.getByChatId.get(chatId) as any;
+      if (!row) return { chatId, ...DEFAULT_PREFERENCES };
+
+      return {
+        chatId,
+        homeName: row.home_name,
+        homeCoordinates: { lat: row.home_lat, lng: row.home_lng },
+        maxDriveTime: row.max_drive_time,
+        minScore: row.min_score,
+        resultCount: row.result_count,
+        favouriteResorts: parseFavourites(row.favourite_resorts),
+        ridingStyle: RIDING_STYLES.includes(row.riding_style) ? row.riding_style : null
+      };
+    } catch (error) {
+      console.error(`Error loading preferences for chat ${chatId}:`, error);
+      return { chatId, ...DEFAULT_PREFERENCES };
+    }
+  }
+
+  /**
+   * Update some preferences for a chat and return the stored result
+   */
+  static update(chatId: number, changes: Partial<Omit<UserPreferences, 'chatId'>>): UserPreferences {
+    const updated: UserPreferences = { ...this.get(chatId), ...changes, chatId };
+
+    userStatements.upsert.run(
+      chatId,
+      updated.homeName,
+      updated.homeCoordinates.lat,
+      updated.homeCoordinates.lng,
+      updated.maxDriveTime,
+      updated.minScore,
+      updated.resultCount,
+      JSON.stringify(updated.favouriteResorts),
+      updated.ridingStyle
+    );
+
+    return updated;
+  }
+
+  /**
+   * Add or remove a favourite resort
+   */
+  static toggleFavourite(chatId: number, resortId: string): UserPreferences {
+    const { favouriteResorts } = this.get(chatId);
+    const favourites = favouriteResorts.includes(resortId)
+      ? favouriteResorts.filter(id => id !== resortId)
+      : [...favouriteResorts, resortId];
+
+    return this.update(chatId, { favouriteResorts: favourites });
+  }
+
+  /**
+   * Number of chats with saved preferences
+   */
+  static count(): number {
+    return (userStatements.count.get() as any)?.count || 0;
+  }
+
+  /**
+   * Translate stored preferences into recommendation options
+   */
+  static toRecommendationOptions(preferences: UserPreferences): RecommendationOptions {
+    return {
+      maxDriveTime: preferences.maxDriveTime,
+      minScore: preferences.minScore,
+      limit: preferences.resultCount,
+      origin: {
+        name: preferences.homeName,
+        label: getOrigin(preferences.homeName)?.label,
+        coordinates: preferences.homeCoordinates
+      },
+      favourites: preferences.favouriteResorts,
+      profile: preferences.ridingStyle || undefined // each riding style has a scoring profile of the same name
+    };
+  }
+}
+
+function parseFavourites(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
@@ -15,6 +15,7 @@ export interface Resort {
     weekends?: string;
     notes?: string;
   };
+  todayStatus?: 'OPEN' | 'CLOSED'; // from the bergfex resort page, only set on the day it was reported
 
   // Current conditions (scraped)
   mountainDepth?: number;
@@ -41,22 +42,126 @@ export interface Conditions {
   liftsOpen: number;
   liftsTotal: number;
   lastUpdate: Date;
+  provenance?: ConditionsProvenance;        // which source each value came from
+  disagreements?: ConditionsDisagreement[]; // sources that differ beyond the threshold
 }
 
+export type ConditionsField = 'valleyDepth' | 'mountainDepth' | 'newSnow' | 'liftsOpen' | 'liftsTotal';
+
+export type ConditionsProvenance = Partial<Record<ConditionsField, string>>;
+
+export interface ConditionsDisagreement {
+  field: ConditionsField;
+  values: Record<string, number>; // source name -> reported value
+  used: string;                   // source whose value was kept
+}
+
+export interface ConditionsHistoryEntry {
+  resortId: string;
+  recordedAt: Date;       // when we scraped it
+  reportedAt: Date | null; // when bergfex says the resort reported it
+  mountainDepth: number | null;
+  valleyDepth: number | null;
+  newSnow: number | null;
+  liftsOpen: number | null;
+  liftsTotal: number | null;
+}
+
+export interface DailySnapshot {
+  resortId: string;
+  day: string; // "YYYY-MM-DD" in Swiss time
+  mountainDepth: number | null;
+  valleyDepth: number | null;
+  newSnow: number | null;
+  liftsOpen: number | null;
+  liftsTotal: number | null;
+}
+
+export interface DailyForecast {
+  date: string;              // "YYYY-MM-DD" in Swiss time
+  snowfallCm: number;
+  tempMinC: number | null;
+  tempMaxC: number | null;
+  windMaxKmh: number | null;
+  freezingLevelM: number | null;
+}
+
+export interface ResortForecast {
+  resortId: string;
+  provider: string;
+  fetchedAt: Date;
+  days: DailyForecast[];     // today first
+}
+
+export interface SnowQualityRating {
+  resortId: string;
+  date: string;              // YYYY-MM-DD (Swiss local)
+  powder: number | null;     // 0-10
+  freestyle: number | null;  // 0-10
+  source: string;
+  recordedAt: Date;
+}
+
+export interface Origin {
+  name: string;    // cache key for drive times, e.g. "Bern" or "loc:46.948,7.447"
+  label?: string;  // display name when it differs from name
+  coordinates: { lat: number; lng: number };
+  isAdHoc?: boolean; // created from a shared Telegram location
+}
+
+export type DriveTimeSource = 'google' | 'road' | 'legacy'; // Google Routes API, the offline road graph, or cached before sources were recorded
+
 export interface DriveTime {
   id?: number;
   resortId: string;
-  origin: string; // "Dietikon" or coordinates
+  origin: string; // origin name, e.g. "Hedingen" or "loc:47.377,8.542"
   driveTimeMinutes: number;
   distanceKm: number;
+  source: DriveTimeSource;
+  route?: string; // road graph description, e.g. "A4 → A3 → Flums"
   cachedAt: Date;
 }
 
+export type RidingStyle = 'park' | 'powder' | 'beginner' | 'cruiser'; // matches a built-in scoring profile
+
+export interface UserPreferences {
+  chatId: number;
+  homeName: string;
+  homeCoordinates: { lat: number; lng: number };
+  maxDriveTime: number;   // minutes
+  minScore: number;
+  resultCount: number;
+  favouriteResorts: string[]; // internal resort ids
+  ridingStyle: RidingStyle | null;
+}
+
+export interface AlertSubscription {
+  chatId: number;
+  minScore: number;   // default 75
+  minNewSnow: number; // cm, default 10
+  quietStart: string | null; // "HH:MM" Swiss time
+  quietEnd: string | null;
+  active: boolean;
+}
+
+export interface ScoreComponent {
+  key: string;    // stable id, e.g. "snowScore", "liftPenalty"
+  label: string;  // shown to users
+  points: number; // negative for penalties
+}
+
 export interface ScoreResult {
   score: number;
   status: 'OPEN' | 'CLOSED' | 'CLOSED_TODAY';
   reason: string;
   openingDate?: Date;
+  breakdown?: ScoreComponent[]; // only for open resorts; sums to score before clamping
+  profile?: string;             // scoring profile used
+}
+
+export interface StoredScore extends ScoreResult {
+  resortId: string;
+  calculatedAt: Date;
 }
 
 export interface ResortRecommendation {
@@ -64,4 +169,8 @@ export interface ResortRecommendation {
   score: ScoreResult;
   driveTime: number;
   distance: number;
+  route?: string;
+  isFavourite?: boolean;
+  locationUnknown?: boolean; // drive time is a placeholder until the resort is geocoded
+  disagreements?: ConditionsDisagreement[]; // snow report sources that don't agree
 }
@@ -0,0 +1,163 @@
+import { deflateSync } from 'node:zlib';
+
+/**
+ * Minimal raster canvas + PNG encoder
+ * Just enough drawing primitives to render small charts locally
+ * without a native canvas dependency or an external chart service
+ */
+
+export type RGB = [number, number, number];
+
+// 3x5 pixel font, each row is 3 bits (MSB = left column)
+const FONT: Record<string, number[]> = {
+  '0': [7, 5, 5, 5, 7], '1': [2, 6, 2, 2, 7], '2': [7, 1, 7, 4, 7], '3': [7, 1, 7, 1, 7],
+  '4': [5, 5, 7, 1, 1], '5': [7, 4, 7, 1, 7], '6': [7, 4, 7, 5, 7], '7': [7, 1, 1, 1, 1],
+  '8': [7, 5, 7, 5, 7], '9': [7, 5, 7, 1, 7],
+  A: [2, 5, 7, 5, 5], B: [6, 5, 6, 5, 6], C: [7, 4, 4, 4, 7], D: [6, 5, 5, 5, 6],
+  E: [7, 4, 6, 4, 7], F: [7, 4, 6, 4, 4], G: [7, 4, 5, 5, 7], H: [5, 5, 7, 5, 5],
+  I: [7, 2, 2, 2, 7], J: [1, 1, 1, 5, 7], K: [5, 5, 6, 5, 5], L: [4, 4, 4, 4, 7],
+  M: [5, 7, 7, 5, 5], N: [6, 5, 5, 5, 5], O: [7, 5, 5, 5, 7], P: [7, 5, 7, 4, 4],
+  Q: [7, 5, 5, 7, 1], R: [6, 5, 6, 5, 5], S: [7, 4, 7, 1, 7], T: [7, 2, 2, 2, 2],
+  U: [5, 5, 5, 5, 7], V: [5, 5, 5, 5, 2], W: [5, 5, 7, 7, 5], X: [5, 5, 2, 5, 5],
+  Y: [5, 5, 2, 2, 2], Z: [7, 1, 2, 4, 7],
+  ' ': [0, 0, 0, 0, 0], '-': [0, 0, 7, 0, 0], '+': [0, 2, 7, 2, 0], '/': [1, 1, 2, 4, 4],
+  '.': [0, 0, 0, 0, 2], ':': [0, 2, 0, 2, 0], '(': [1, 2, 2, 2, 1], ')': [4, 2, 2, 2, 4]
+};
+
+export class RasterCanvas {
+  readonly width: number;
+  readonly height: number;
+  private pixels: Uint8Array;
+
+  constructor(width: number, height: number, background: RGB = [255, 255, 255]) {
+    this.width = width;
+    this.height = height;
+    this.pixels = new Uint8Array(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  setPixel(x: number, y: number, color: RGB): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const offset = (Math.floor(y) * this.width + Math.floor(x)) * 3;
+    this.pixels[offset] = color[0];
+    this.pixels[offset + 1] = color[1];
+    this.pixels[offset + 2] = color[2];
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: RGB): void {
+    for (let py = Math.floor(y); py < y + height; py++) {
+      for (let px = Math.floor(x); px < x + width; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  /**
+   * Bresenham line with optional thickness
+   */
+  drawLine(x0: number, y0: number, x1: number, y1: number, color: RGB, thickness: number = 1): void {
+    x0 = Math.round(x0); y0 = Math.round(y0); x1 = Math.round(x1); y1 = Math.round(y1);
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let err = dx + dy;
+    const half = Math.floor(thickness / 2);
+
+    while (true) {
+      this.fillRect(x0 - half, y0 - half, thickness, thickness, color);
+      if (x0 === x1 && y0 === y1) break;
+      const e2 = 2 * err;
+      if (e2 >= dy) { err += dy; x0 += sx; }
+      if (e2 <= dx) { err += dx; y0 += sy; }
+    }
+  }
+
+  /**
+   * Draw text with the built-in 3x5 font (uppercase only)
+   */
+  drawText(x: number, y: number, text: string, color: RGB, scale: number = 2): void {
+    let cursor = x;
+    for (const char of text.toUpperCase()) {
+      const glyph = FONT[char] || FONT[' ']!;
+      glyph.forEach((row, rowIndex) => {
+        for (let col = 0; col < 3; col++) {
+          if (row & (4 >> col)) {
+            this.fillRect(cursor + col * scale, y + rowIndex * scale, scale, scale, color);
+          }
+        }
+      });
+      cursor += 4 * scale;
+    }
+  }
+
+  /**
+   * Width in pixels of text drawn with drawText
+   */
+  static textWidth(text: string, scale: number = 2): number {
+    return Math.max(0, text.length * 4 * scale - scale);
+  }
+
+  toPng(): Buffer {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
+
+/**
+ * Encode 8-bit RGB pixel data as a PNG file
+ */
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;  // bit depth
+  header[9] = 2;  // colour type: truecolour
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,227 @@
+/**
+ * Time zone helpers - all scheduling happens in Swiss local time,
+ * regardless of the host's TZ setting
+ */
+
+export const SWISS_TIMEZONE = 'Europe/Zurich';
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday, 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Break a date into wall-clock parts for the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string = SWISS_TIMEZONE): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday || 'Sun')
+  };
+}
+
+/**
+ * Convert a wall-clock time in the given time zone to a UTC Date
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string = SWISS_TIMEZONE
+): Date {
+  // Guess as if the wall clock were UTC, then correct by the zone offset at that instant
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMinutes(new Date(guess), timeZone);
+  const corrected = guess - offset * 60 * 1000;
+
+  // Re-check once in case the correction crossed a DST switch
+  const finalOffset = getOffsetMinutes(new Date(corrected), timeZone);
+  return new Date(guess - finalOffset * 60 * 1000);
+}
+
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * Swiss wall-clock time on the day of `base` shifted by `dayOffset` days
+ */
+export function atSwissTime(base: Date, dayOffset: number, hour: number, minute: number, timeZone: string = SWISS_TIMEZONE): Date {
+  const p = getZonedParts(base, timeZone);
+  const day = new Date(Date.UTC(p.year, p.month - 1, p.day + dayOffset));
+  return zonedTimeToDate(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hour, minute, timeZone);
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight (null if malformed)
+ */
+export function parseClockTime(text: string): number | null {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || !match[1] || !match[2]) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Find the next occurrence of any of the given "HH:MM" times after `from`
+ */
+export function getNextOccurrence(
+  times: string[],
+  from: Date = new Date(),
+  timeZone: string = SWISS_TIMEZONE
+): Date | null {
+  const minutesOfDay = times
+    .map(parseClockTime)
+    .filter((m): m is number => m !== null)
+    .sort((a, b) => a - b);
+
+  if (minutesOfDay.length === 0) return null;
+
+  const today = getZonedParts(from, timeZone);
+
+  // Look at today and tomorrow (day overflow is normalised by Date.UTC)
+  for (let dayOffset = 0; dayOffset <= 1; dayOffset++) {
+    const base = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset));
+    for (const minutes of minutesOfDay) {
+      const candidate = zonedTimeToDate(
+        base.getUTCFullYear(),
+        base.getUTCMonth() + 1,
+        base.getUTCDate(),
+        Math.floor(minutes / 60),
+        minutes % 60,
+        timeZone
+      );
+      if (candidate > from) return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format a date as Swiss local time for display (e.g. "Mo., 16.12., 16:30")
+ */
+export function formatSwissTime(date: Date): string {
+  return date.toLocaleString('de-CH', {
+    timeZone: SWISS_TIMEZONE,
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Swiss calendar date for display (e.g. "15.12.2025")
+ */
+export function formatSwissDate(date: Date): string {
+  return date.toLocaleDateString('de-CH', { timeZone: SWISS_TIMEZONE });
+}
+
+/**
+ * Swiss day with weekday for display (e.g. "Fri 23.01.")
+ */
+export function formatSwissDay(date: Date): string {
+  const p = getZonedParts(date);
+  return `${WEEKDAYS[p.weekday]} ${String(p.day).padStart(2, '0')}.${String(p.month).padStart(2, '0')}.`;
+}
+
+/**
+ * Swiss wall-clock time as "HH:MM"
+ */
+export function formatSwissClock(date: Date): string {
+  const p = getZonedParts(date);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Swiss calendar day as "YYYY-MM-DD" (used as key for daily snapshots)
+ */
+export function toSwissDateKey(date: Date): string {
+  const p = getZonedParts(date);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Whether the Swiss wall-clock time of `date` falls in a "HH:MM"-"HH:MM" window
+ * Windows may wrap past midnight (e.g. 22:00-07:00)
+ */
+export function isWithinClockRange(date: Date, start: string, end: string): boolean {
+  const startMinutes = parseClockTime(start);
+  const endMinutes = parseClockTime(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  const p = getZonedParts(date);
+  const current = p.hour * 60 + p.minute;
+
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
+
+/**
+ * Human readable age of a timestamp ("just now", "25min ago", "3h ago", "2 days ago")
+ */
+export function formatAge(date: Date, now: Date = new Date()): string {
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60_000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+
+  return `${Math.floor(hours / 24)} days ago`;
+}
+
+/**
+ * Minutes as a short duration ("45min", "2h", "1h50")
+ */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes}min`;
+  const rest = minutes % 60;
+  return `${Math.floor(minutes / 60)}h${rest > 0 ? String(rest).padStart(2, '0') : ''}`;
+}